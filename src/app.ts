@@ -58,6 +58,7 @@
  * 3. Parsing Middleware:
  *    - express.json() - Parses JSON requests
  *    - express.urlencoded() - Parses form data
+ *    - rejectOperatorKeys() - Rejects `$`-prefixed keys in query and body
  *
  * 4. Custom Middleware:
  *    - API routes and handlers
@@ -113,10 +114,14 @@
  * ├── /health          # Health check endpoints
  * ├── /auth            # Authentication endpoints
  * ├── /users           # User management
+ * ├── /api-keys        # API key management
  * ├── /companies       # Company management
- * ├── /departments     # Department management
- * ├── /employees       # Employee management
- * └── /projects        # Project management
+ * │   ├── /:id/departments  # Department management
+ * │   ├── /:id/employees    # Employee management
+ * │   └── /:id/projects     # Project management
+ * ├── /projects        # Cross-company project search
+ * ├── /audit           # Audit trail feed
+ * └── /graphql         # GraphQL endpoint for companies and related data
  * ```
  *
  * ==============================================================================
@@ -164,7 +169,8 @@
  * 1. **HTTP Security Headers**: Set by Helmet middleware
  * 2. **CORS**: Configured for specific origins in production
  * 3. **Rate Limiting**: Prevents brute force and DDoS attacks
- * 4. **Input Validation**: All inputs validated and sanitized
+ * 4. **Input Validation**: All inputs validated and sanitized; `$`-prefixed keys are rejected
+ *    and search text is escaped before use in regular expressions
  * 5. **Authentication**: JWT-based stateless authentication
  * 6. **Authorization**: Role-based access control (RBAC)
  * 7. **Password Security**: Bcrypt hashing with salt rounds
@@ -179,6 +185,7 @@
  * 3. **Health Checks**: Endpoint for monitoring service health
  * 4. **Performance Metrics**: Response time and throughput monitoring
  * 5. **Database Monitoring**: Connection status and query performance
+ * 6. **Request Tracing**: `X-Request-Id` on every response, stored with audit entries
  *
  * Follow these patterns and documentation when extending the application!
  */
@@ -203,6 +210,8 @@ import {
     timeoutHandler,
     corsErrorHandler,
 } from './middleware/errorHandler';
+import requestId from './middleware/requestId.middleware';
+import rejectOperatorKeys from './middleware/sanitize.middleware';
 
 // Load environment variables
 dotenv.config();
@@ -223,6 +232,9 @@ const app: Express = express();
  */
 // app.set('trust proxy', process.env.NODE_ENV === 'production');
 
+// Request IDs: tag every request (and its response) for tracing and auditing
+app.use(requestId);
+
 /**
  * Security Middleware Configuration
  *
@@ -251,7 +263,17 @@ const corsOptions = {
     credentials: true,
     optionsSuccessStatus: 200,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Requested-With',
+        'X-API-Key',
+        'X-Request-Id',
+        'If-Match',
+        'If-None-Match',
+        'Idempotency-Key',
+    ],
+    exposedHeaders: ['X-Request-Id', 'ETag', 'Idempotent-Replayed'],
 };
 
 app.use(cors(corsOptions));
@@ -315,6 +337,9 @@ app.use(
     })
 );
 
+// Reject MongoDB operators smuggled in through query or body keys
+app.use(rejectOperatorKeys);
+
 /**
  * API Documentation Setup
  *
@@ -382,7 +407,12 @@ app.get(
                 health: '/health',
                 auth: `${API_PREFIX}/auth`,
                 users: `${API_PREFIX}/users`,
+                apiKeys: `${API_PREFIX}/api-keys`,
                 companies: `${API_PREFIX}/companies`,
+                projects: `${API_PREFIX}/projects`,
+                audit: `${API_PREFIX}/audit`,
+                webhooks: `${API_PREFIX}/webhooks`,
+                graphql: `${API_PREFIX}/graphql`,
                 // Add more endpoint documentation here
             },
         };
@@ -399,10 +429,34 @@ app.get('/', (req, res) => {
 import healthRoutes from './routes/health.routes';
 app.use(`${API_PREFIX}/health`, healthRoutes);
 
-import { companyRoutes } from './routes';
-
-// Register company routes
+import {
+    apiKeyRoutes,
+    auditRoutes,
+    authRoutes,
+    companyRoutes,
+    graphqlRoutes,
+    projectRoutes,
+    userRoutes,
+    webhookRoutes,
+} from './routes';
+
+// Register auth, user and API key routes
+app.use(`${API_PREFIX}/auth`, authRoutes);
+app.use(`${API_PREFIX}/users`, userRoutes);
+app.use(`${API_PREFIX}/api-keys`, apiKeyRoutes);
+
+// Register company and project routes
 app.use(`${API_PREFIX}/companies`, companyRoutes);
+app.use(`${API_PREFIX}/projects`, projectRoutes);
+
+// Register audit routes
+app.use(`${API_PREFIX}/audit`, auditRoutes);
+
+// Register webhook routes
+app.use(`${API_PREFIX}/webhooks`, webhookRoutes);
+
+// Register the GraphQL endpoint (companies and related data)
+app.use(`${API_PREFIX}/graphql`, graphqlRoutes);
 
 /**
  * Error Handling Middleware
@@ -0,0 +1,108 @@
+import type { ApiKeyScope, UserRole } from '../models';
+
+/**
+ * Role-Based Access Control Configuration
+ *
+ * This module defines every permission known to the API and the set of
+ * permissions granted to each user role. Routes declare the permission they
+ * need with the `authorize()` middleware; they never check roles directly,
+ * so changing what a role may do only requires editing the map below.
+ *
+ * Roles:
+ * - admin: full access, including deleting and purging companies, managing users
+ *   and webhook subscriptions
+ * - manager: day-to-day company maintenance (create, update, deactivate),
+ *   reviewing the audit trail and reading sensitive company fields
+ * - employee: read-only access (analysts, viewers)
+ *
+ * `company:readSensitive` covers company fields hidden from public profiles
+ * (email and revenue); it only widens what `company:read` returns.
+ *
+ * API keys do not have a role. Each key scope expands to a fixed set of
+ * permissions instead, so the same `authorize()` checks apply to both.
+ */
+
+export const permissionEnum = [
+    'company:read',
+    'company:readSensitive',
+    'company:create',
+    'company:update',
+    'company:delete',
+    'company:purge',
+    'stats:read',
+    'user:read',
+    'user:manage',
+    'apiKey:manage',
+    'audit:read',
+    'webhook:manage',
+] as const;
+
+type Permission = (typeof permissionEnum)[number];
+
+/**
+ * Permissions granted to each role
+ */
+const rolePermissions: Record<UserRole, readonly Permission[]> = {
+    admin: permissionEnum,
+    manager: [
+        'company:read',
+        'company:readSensitive',
+        'company:create',
+        'company:update',
+        'stats:read',
+        'user:read',
+        'audit:read',
+    ],
+    employee: ['company:read', 'stats:read'],
+};
+
+/**
+ * Permissions granted by each API key scope
+ */
+const scopePermissions: Record<ApiKeyScope, readonly Permission[]> = {
+    'companies:read': ['company:read'],
+    'companies:write': ['company:create', 'company:update'],
+    'stats:read': ['stats:read'],
+    'audit:read': ['audit:read'],
+    'companies:sensitive': ['company:readSensitive'],
+};
+
+/**
+ * Stable error code returned when a caller lacks a required permission
+ */
+export const PERMISSION_DENIED = 'PERMISSION_DENIED';
+
+/**
+ * Stable error code returned when an API key lacks a required scope
+ */
+export const INSUFFICIENT_SCOPE = 'INSUFFICIENT_SCOPE';
+
+/**
+ * Get all permissions granted to a role
+ */
+const getRolePermissions = (role: UserRole): readonly Permission[] => {
+    return rolePermissions[role] || [];
+};
+
+/**
+ * Check whether a role has been granted a permission
+ */
+const hasPermission = (role: UserRole, permission: Permission): boolean => {
+    return getRolePermissions(role).includes(permission);
+};
+
+/**
+ * Check whether any of the given API key scopes grants a permission
+ */
+const scopesGrantPermission = (scopes: readonly ApiKeyScope[], permission: Permission): boolean => {
+    return scopes.some(scope => (scopePermissions[scope] || []).includes(permission));
+};
+
+export {
+    Permission,
+    rolePermissions,
+    scopePermissions,
+    getRolePermissions,
+    hasPermission,
+    scopesGrantPermission,
+};
@@ -0,0 +1,638 @@
+import { Request, Response } from 'express';
+import { ApiResponse, asyncHandler } from '../utils';
+import { hasRequestPermission } from '../middleware/auth.middleware';
+import { parseCompanyFilter } from '../services/companySearch.service';
+import {
+    getActivityRatio,
+    getCompanyAnalytics,
+    getEmployeeHistogram,
+    getFoundedPerDecade,
+    getIndustryBreakdown,
+    getLocationLeaderboard,
+    getRevenueDistribution,
+} from '../services/companyAnalytics.service';
+import {
+    getCompanyMetrics,
+    getIndustryTrends,
+    parseMetricRange,
+    parseTrendIndustries,
+} from '../services/companyMetrics.service';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     IndustryBreakdown:
+ *       type: object
+ *       properties:
+ *         industry:
+ *           type: string
+ *           example: "Technology"
+ *         count:
+ *           type: integer
+ *           example: 42
+ *         share:
+ *           type: number
+ *           description: Share of the matched companies (0 to 1).
+ *           example: 0.35
+ *         activeCount:
+ *           type: integer
+ *         averageEmployees:
+ *           type: number
+ *           nullable: true
+ *         totalEmployees:
+ *           type: integer
+ *     RevenueDistribution:
+ *       type: object
+ *       description: Figures of the companies with a known revenue.
+ *       properties:
+ *         count:
+ *           type: integer
+ *         min:
+ *           type: number
+ *           nullable: true
+ *         max:
+ *           type: number
+ *           nullable: true
+ *         mean:
+ *           type: number
+ *           nullable: true
+ *         percentiles:
+ *           type: array
+ *           description: Percentiles 10, 25, 50, 75, 90, 95 and 99 (nearest-rank).
+ *           items:
+ *             type: object
+ *             properties:
+ *               percentile:
+ *                 type: integer
+ *                 example: 50
+ *               value:
+ *                 type: number
+ *                 nullable: true
+ *                 example: 2500000
+ *     EmployeeHistogram:
+ *       type: array
+ *       description: Companies per headcount range, smallest first, then `Not specified`.
+ *       items:
+ *         type: object
+ *         properties:
+ *           range:
+ *             type: string
+ *             enum: ['1-10', '11-50', '51-200', '201-1000', '1000+', 'Not specified']
+ *           count:
+ *             type: integer
+ *     FoundedPerDecade:
+ *       type: object
+ *       properties:
+ *         decades:
+ *           type: array
+ *           description: Every decade from the first to the last, including empty ones.
+ *           items:
+ *             type: object
+ *             properties:
+ *               decade:
+ *                 type: integer
+ *                 example: 1990
+ *               count:
+ *                 type: integer
+ *         unknown:
+ *           type: integer
+ *           description: Companies without a founding year.
+ *     LocationLeaderboard:
+ *       type: array
+ *       items:
+ *         type: object
+ *         properties:
+ *           rank:
+ *             type: integer
+ *             example: 1
+ *           location:
+ *             type: string
+ *             example: "Berlin"
+ *           count:
+ *             type: integer
+ *           totalEmployees:
+ *             type: integer
+ *     ActivityRatio:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *         active:
+ *           type: integer
+ *         inactive:
+ *           type: integer
+ *         activeRatio:
+ *           type: number
+ *           nullable: true
+ *           description: Share of active companies (0 to 1), null without companies.
+ *         byIndustry:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               industry:
+ *                 type: string
+ *               active:
+ *                 type: integer
+ *               inactive:
+ *                 type: integer
+ *               activeRatio:
+ *                 type: number
+ *                 nullable: true
+ *     CompanyAnalytics:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *         industries:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/IndustryBreakdown'
+ *         revenue:
+ *           $ref: '#/components/schemas/RevenueDistribution'
+ *         employees:
+ *           $ref: '#/components/schemas/EmployeeHistogram'
+ *         founded:
+ *           $ref: '#/components/schemas/FoundedPerDecade'
+ *         locations:
+ *           $ref: '#/components/schemas/LocationLeaderboard'
+ *         activity:
+ *           $ref: '#/components/schemas/ActivityRatio'
+ */
+
+/**
+ * @swagger
+ * /companies/stats:
+ *   get:
+ *     summary: Get company analytics
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: |
+ *       Every analytics figure for the companies matching the filters. All analytics endpoints
+ *       take the filters and `q` of `GET /companies/search`, e.g. `industry[in]=Technology,Retail`
+ *       or `isActive=true`; without filters they cover every company.
+ *
+ *       `revenue` is only included for callers with the `company:readSensitive` permission.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Only companies whose name or description match this full-text search.
+ *       - in: query
+ *         name: industry
+ *         schema:
+ *           type: string
+ *         description: Any filter of `GET /companies/search`.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *         description: Number of locations in the leaderboard.
+ *     responses:
+ *       200:
+ *         description: Analytics of the matched companies.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CompanyAnalytics'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getAnalyticsOverview = asyncHandler(async (req: Request, res: Response) => {
+    const locationLimit = Number(req.query.limit);
+    const filter = parseCompanyFilter(req.query, ['limit']);
+
+    const analytics = await getCompanyAnalytics(filter, {
+        includeRevenue: hasRequestPermission(req, 'company:readSensitive'),
+        locationLimit,
+    });
+
+    res.status(200).json(new ApiResponse(200, 'Analytics fetched successfully', analytics));
+});
+
+/**
+ * @swagger
+ * /companies/stats/industry:
+ *   get:
+ *     summary: Get the industry breakdown
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: >
+ *       Companies, share of the total and headcount per industry, largest first. Industries
+ *       without companies are listed with a count of 0. Takes the filters of `GET /companies/stats`.
+ *     responses:
+ *       200:
+ *         description: Industry breakdown.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/IndustryBreakdown'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getIndustryStats = asyncHandler(async (req: Request, res: Response) => {
+    const industries = await getIndustryBreakdown(parseCompanyFilter(req.query, []));
+
+    res.status(200).json(
+        new ApiResponse(200, 'Industry breakdown fetched successfully', industries)
+    );
+});
+
+/**
+ * @swagger
+ * /companies/stats/revenue:
+ *   get:
+ *     summary: Get the revenue distribution
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read, company:readSensitive]
+ *     description: >
+ *       Minimum, maximum, mean and percentiles of the revenue of the matched companies with a
+ *       known revenue. Takes the filters of `GET /companies/stats`.
+ *     responses:
+ *       200:
+ *         description: Revenue distribution.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevenueDistribution'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read or company:readSensitive permission.
+ */
+export const getRevenueStats = asyncHandler(async (req: Request, res: Response) => {
+    const revenue = await getRevenueDistribution(parseCompanyFilter(req.query, []));
+
+    res.status(200).json(
+        new ApiResponse(200, 'Revenue distribution fetched successfully', revenue)
+    );
+});
+
+/**
+ * @swagger
+ * /companies/stats/employees:
+ *   get:
+ *     summary: Get the employee-size histogram
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: >
+ *       Companies per headcount range (the `employeeRange` buckets). Takes the filters of
+ *       `GET /companies/stats`.
+ *     responses:
+ *       200:
+ *         description: Employee-size histogram.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmployeeHistogram'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getEmployeeStats = asyncHandler(async (req: Request, res: Response) => {
+    const histogram = await getEmployeeHistogram(parseCompanyFilter(req.query, []));
+
+    res.status(200).json(
+        new ApiResponse(200, 'Employee histogram fetched successfully', histogram)
+    );
+});
+
+/**
+ * @swagger
+ * /companies/stats/founded:
+ *   get:
+ *     summary: Get companies founded per decade
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: >
+ *       Number of companies founded in each decade. Takes the filters of `GET /companies/stats`.
+ *     responses:
+ *       200:
+ *         description: Companies per decade.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FoundedPerDecade'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getFoundedStats = asyncHandler(async (req: Request, res: Response) => {
+    const founded = await getFoundedPerDecade(parseCompanyFilter(req.query, []));
+
+    res.status(200).json(
+        new ApiResponse(200, 'Companies per decade fetched successfully', founded)
+    );
+});
+
+/**
+ * @swagger
+ * /companies/stats/locations:
+ *   get:
+ *     summary: Get the location leaderboard
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: >
+ *       Locations with the most companies, with their total headcount. A company with several
+ *       locations counts for each. Takes the filters of `GET /companies/stats`.
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *         description: Number of locations to return.
+ *     responses:
+ *       200:
+ *         description: Location leaderboard.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LocationLeaderboard'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getLocationStats = asyncHandler(async (req: Request, res: Response) => {
+    const limit = Number(req.query.limit);
+    const locations = await getLocationLeaderboard(parseCompanyFilter(req.query, ['limit']), limit);
+
+    res.status(200).json(
+        new ApiResponse(200, 'Location leaderboard fetched successfully', locations)
+    );
+});
+
+/**
+ * @swagger
+ * /companies/stats/activity:
+ *   get:
+ *     summary: Get active vs inactive ratios
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: >
+ *       Active and inactive companies, overall and per industry. Takes the filters of
+ *       `GET /companies/stats`.
+ *     responses:
+ *       200:
+ *         description: Activity ratios.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ActivityRatio'
+ *       400:
+ *         description: Unknown filter field or operator, or an invalid value.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getActivityStats = asyncHandler(async (req: Request, res: Response) => {
+    const activity = await getActivityRatio(parseCompanyFilter(req.query, []));
+
+    res.status(200).json(new ApiResponse(200, 'Activity ratios fetched successfully', activity));
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MetricChange:
+ *       type: object
+ *       description: How a value changed from the start to the end of the range.
+ *       properties:
+ *         start:
+ *           type: number
+ *           nullable: true
+ *         end:
+ *           type: number
+ *           nullable: true
+ *         change:
+ *           type: number
+ *           nullable: true
+ *         growthRate:
+ *           type: number
+ *           nullable: true
+ *           example: 0.2
+ *     CompanyMetricHistory:
+ *       type: object
+ *       properties:
+ *         companyId:
+ *           type: string
+ *         from:
+ *           type: string
+ *           format: date-time
+ *         to:
+ *           type: string
+ *           format: date-time
+ *         interval:
+ *           type: string
+ *           nullable: true
+ *           enum: [day, week, month, quarter, year]
+ *         points:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/CompanyMetricPoint'
+ *         summary:
+ *           type: object
+ *           description: >
+ *             Values at the start of the range (or when first recorded) and at its end. `revenue`
+ *             needs company:readSensitive.
+ *           properties:
+ *             employees:
+ *               $ref: '#/components/schemas/MetricChange'
+ *             revenue:
+ *               $ref: '#/components/schemas/MetricChange'
+ *     IndustryTrend:
+ *       type: object
+ *       properties:
+ *         industry:
+ *           type: string
+ *           example: "Technology"
+ *         points:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Start of the period.
+ *               companies:
+ *                 type: integer
+ *                 description: Companies with recorded metrics at the end of the period.
+ *               employees:
+ *                 type: integer
+ *               revenue:
+ *                 type: number
+ *                 description: Needs company:readSensitive.
+ *               employeesGrowth:
+ *                 type: number
+ *                 nullable: true
+ *               revenueGrowth:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Needs company:readSensitive.
+ */
+
+/**
+ * @swagger
+ * /companies/{id}/metrics:
+ *   get:
+ *     summary: Get the headcount and revenue history of a company
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: |
+ *       A snapshot of `employees` and `revenue` is recorded whenever either changes (and on a
+ *       schedule when `COMPANY_METRICS_SNAPSHOT_HOURS` is set). Without `interval`, every snapshot
+ *       in the range is returned; with it, one point per period (UTC, weeks start on Monday) with
+ *       the values at the end of the period. Growth is relative to the previous point.
+ *
+ *       Revenue is only included for callers with the `company:readSensitive` permission.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range. Defaults to 12 months before `to`.
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range. Defaults to now.
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month, quarter, year]
+ *     responses:
+ *       200:
+ *         description: The company's metric history.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CompanyMetricHistory'
+ *       400:
+ *         description: The range starts after it ends or has more than 1000 points.
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company not found.
+ */
+export const getCompanyMetricHistory = asyncHandler(async (req: Request, res: Response) => {
+    const history = await getCompanyMetrics(req.params.id, parseMetricRange(req.query), {
+        includeRevenue: hasRequestPermission(req, 'company:readSensitive'),
+    });
+
+    res.status(200).json(new ApiResponse(200, 'Company metrics fetched successfully', history));
+});
+
+/**
+ * @swagger
+ * /companies/stats/trends:
+ *   get:
+ *     summary: Get headcount and revenue trends per industry
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [stats:read]
+ *     description: |
+ *       Headcount and revenue summed over the companies of each industry at the end of every
+ *       period, from the recorded metric snapshots. A company counts from its first snapshot
+ *       with its latest values; companies in the trash are left out.
+ *
+ *       Revenue is only included for callers with the `company:readSensitive` permission.
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range. Defaults to 12 months before `to`.
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range. Defaults to now.
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month, quarter, year]
+ *           default: month
+ *       - in: query
+ *         name: industry
+ *         schema:
+ *           type: string
+ *         description: Comma separated industries. Defaults to every industry.
+ *         example: "Technology,Retail"
+ *     responses:
+ *       200:
+ *         description: One trend per industry.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/IndustryTrend'
+ *       400:
+ *         description: The range starts after it ends or has more than 1000 periods.
+ *       403:
+ *         description: Missing the stats:read permission.
+ */
+export const getIndustryTrendStats = asyncHandler(async (req: Request, res: Response) => {
+    const range = parseMetricRange(req.query);
+    const industries = parseTrendIndustries(req.query.industry);
+
+    const trends = await getIndustryTrends(range, industries, {
+        includeRevenue: hasRequestPermission(req, 'company:readSensitive'),
+    });
+
+    res.status(200).json(new ApiResponse(200, 'Industry trends fetched successfully', trends));
+});
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { ApiKey } from '../models/';
+import { ApiKeyScope } from '../models/apiKey.model';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+
+/**
+ * @swagger
+ * /api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [apiKey:manage]
+ *     description: >
+ *       Issue a new API key for a machine client. The plain key is only returned in this
+ *       response; store it securely. Send it in the `X-API-Key` header.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       201:
+ *         description: API key created successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 key:
+ *                   type: string
+ *                   example: "cdm_1a2b3c4d_9xQ..."
+ *                 apiKey:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: expiresAt is not in the future.
+ *       403:
+ *         description: Missing the apiKey:manage permission.
+ */
+export const createApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const { name, scopes, expiresAt } = req.body;
+
+    const expiryDate = expiresAt ? new Date(expiresAt) : undefined;
+    if (expiryDate && expiryDate.getTime() <= Date.now()) {
+        throw ApiError.badRequest('expiresAt must be a date in the future');
+    }
+
+    const { key, document } = await ApiKey.generate({
+        name,
+        scopes: Array.from(new Set<ApiKeyScope>(scopes)),
+        createdBy: req.user!._id,
+        expiresAt: expiryDate,
+    });
+    // Only the plain key is returned, never its hash
+    document.set('keyHash', undefined);
+
+    res.status(201).json(
+        new ApiResponse(201, 'API key created successfully', { key, apiKey: document })
+    );
+});
+
+/**
+ * @swagger
+ * /api-keys:
+ *   get:
+ *     summary: List API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [apiKey:manage]
+ *     description: Fetch API keys. Revoked keys are hidden unless `includeRevoked=true`.
+ *     parameters:
+ *       - in: query
+ *         name: includeRevoked
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: A list of API keys (without secrets).
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Missing the apiKey:manage permission.
+ */
+export const getAllApiKeys = asyncHandler(async (req: Request, res: Response) => {
+    const filters = req.query.includeRevoked ? {} : { revokedAt: null };
+    const apiKeys = await ApiKey.find(filters)
+        .populate('createdBy', 'firstName lastName email')
+        .sort({ createdAt: -1 });
+
+    res.status(200).json(new ApiResponse(200, 'API keys fetched successfully', apiKeys));
+});
+
+/**
+ * @swagger
+ * /api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [apiKey:manage]
+ *     description: Revoke an API key. Requests using it are rejected immediately.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Missing the apiKey:manage permission.
+ *       404:
+ *         description: API key not found.
+ *       409:
+ *         description: API key is already revoked.
+ */
+export const revokeApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const apiKey = await ApiKey.findById(id);
+    if (!apiKey) {
+        throw ApiError.notFound('API key not found');
+    }
+
+    if (apiKey.revokedAt) {
+        throw ApiError.conflict('API key is already revoked');
+    }
+
+    apiKey.revokedAt = new Date();
+    apiKey.revokedBy = req.user!._id;
+    await apiKey.save();
+
+    res.status(200).json(new ApiResponse(200, 'API key revoked successfully', apiKey));
+});
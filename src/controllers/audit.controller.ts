@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { AuditLog } from '../models/';
+import { ApiResponse, asyncHandler } from '../utils';
+
+/**
+ * Build an audit query from the shared query parameters
+ * (`action`, `actorId`, `actorType`, `field`, `requestId`, `from`, `to`),
+ * checked by the route schema
+ */
+const buildAuditFilters = (query: Request['query']) => {
+    const { action, actorId, actorType, field, requestId, from, to } = query;
+    const filters: Record<string, unknown> = {};
+
+    if (action !== undefined) filters.action = action;
+    if (actorType !== undefined) filters['actor.type'] = actorType;
+    if (actorId !== undefined) filters['actor.id'] = actorId;
+    if (typeof field === 'string' && field.trim()) filters['changes.field'] = field.trim();
+    if (typeof requestId === 'string' && requestId.trim()) filters.requestId = requestId.trim();
+
+    const createdAt: Record<string, Date> = {};
+    if (from !== undefined) createdAt.$gte = new Date(String(from));
+    if (to !== undefined) createdAt.$lte = new Date(String(to));
+    if (Object.keys(createdAt).length > 0) filters.createdAt = createdAt;
+
+    return filters;
+};
+
+/**
+ * Run a paginated audit query, newest entries first
+ */
+const findAuditPage = async (req: Request, filters: Record<string, unknown>) => {
+    // Checked, converted and defaulted by the route schema
+    const page = Number(req.query.page);
+    const limit = Number(req.query.limit);
+
+    const [entries, total] = await Promise.all([
+        AuditLog.find(filters)
+            .sort({ createdAt: -1, _id: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        AuditLog.countDocuments(filters),
+    ]);
+
+    return { entries, total, page, totalPages: Math.ceil(total / limit) };
+};
+
+/**
+ * @swagger
+ * /companies/{id}/history:
+ *   get:
+ *     summary: Get the change history of a company
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [audit:read]
+ *     description: >
+ *       List every recorded change of a company (create, update, delete, restore, purge), newest
+ *       first, with the actor, request ID and field-level changes. The history is kept after the
+ *       company is purged.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete, restore, purge]
+ *       - in: query
+ *         name: field
+ *         schema:
+ *           type: string
+ *         description: Only entries that changed this field.
+ *         example: "isActive"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: The company's audit entries.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditLog'
+ *       403:
+ *         description: Missing the audit:read permission.
+ */
+export const getCompanyHistory = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const filters = buildAuditFilters(req.query);
+
+    const history = await findAuditPage(req, { ...filters, entityType: 'Company', entityId: id });
+
+    res.status(200).json(new ApiResponse(200, 'Company history fetched successfully', history));
+});
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: Get the audit feed
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [audit:read]
+ *     description: List audit entries across all entities, newest first.
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [Company]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: company
+ *         schema:
+ *           type: string
+ *         description: Only entries belonging to this company.
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete, restore, purge]
+ *       - in: query
+ *         name: actorType
+ *         schema:
+ *           type: string
+ *           enum: [user, apiKey, system]
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: ID of the user or API key that made the change.
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *         description: Only entries recorded by this request.
+ *       - in: query
+ *         name: field
+ *         schema:
+ *           type: string
+ *         description: Only entries that changed this field.
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Matching audit entries.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditLog'
+ *       403:
+ *         description: Missing the audit:read permission.
+ */
+export const getAuditLog = asyncHandler(async (req: Request, res: Response) => {
+    const { entityType, entityId, company } = req.query;
+    const filters = buildAuditFilters(req.query);
+
+    if (entityType !== undefined) filters.entityType = entityType;
+    if (entityId !== undefined) filters.entityId = entityId;
+    if (company !== undefined) filters.company = company;
+
+    const feed = await findAuditPage(req, filters);
+
+    res.status(200).json(new ApiResponse(200, 'Audit log fetched successfully', feed));
+});
@@ -0,0 +1,248 @@
+import { Request, Response } from 'express';
+import { RefreshToken, User } from '../models/';
+import type { IRefreshTokenMeta, IUserDocument } from '../models/';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+
+/**
+ * Collect client metadata stored with refresh tokens
+ */
+const getClientMeta = (req: Request): IRefreshTokenMeta => ({
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+});
+
+/**
+ * Build the token pair returned by register, login and refresh
+ */
+const buildAuthPayload = async (user: IUserDocument, req: Request, family?: string) => {
+    const { token: refreshToken, document } = await RefreshToken.issue(
+        user._id,
+        getClientMeta(req),
+        family
+    );
+
+    return {
+        payload: {
+            user: user.getPublicProfile(),
+            tokenType: 'Bearer',
+            accessToken: user.generateAuthToken(),
+            accessTokenExpiresIn: process.env.JWT_EXPIRE || '15m',
+            refreshToken,
+            refreshTokenExpiresAt: document.expiresAt,
+        },
+        refreshTokenHash: document.tokenHash,
+    };
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuthTokens:
+ *       type: object
+ *       properties:
+ *         user:
+ *           $ref: '#/components/schemas/User'
+ *         tokenType:
+ *           type: string
+ *           example: "Bearer"
+ *         accessToken:
+ *           type: string
+ *           description: Short-lived JWT to send in the Authorization header.
+ *         accessTokenExpiresIn:
+ *           type: string
+ *           example: "15m"
+ *         refreshToken:
+ *           type: string
+ *           description: Opaque single-use token exchanged for a new token pair.
+ *         refreshTokenExpiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /auth/register:
+ *   post:
+ *     summary: Register a new user
+ *     tags: [Auth]
+ *     description: Create a user account and return an access/refresh token pair.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       201:
+ *         description: User registered successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       409:
+ *         description: Email already registered.
+ */
+export const register = asyncHandler(async (req: Request, res: Response) => {
+    const { firstName, lastName, email, password } = req.body;
+
+    const normalizedEmail = String(email).toLowerCase().trim();
+    const existingUser = await User.findOne({ email: normalizedEmail });
+    if (existingUser) {
+        throw ApiError.conflict('Email is already registered');
+    }
+
+    // The configured bootstrap address becomes an admin; everyone else starts as employee
+    const isBootstrapAdmin =
+        !!process.env.BOOTSTRAP_ADMIN_EMAIL &&
+        normalizedEmail === process.env.BOOTSTRAP_ADMIN_EMAIL.toLowerCase().trim();
+
+    const user = await User.create({
+        firstName,
+        lastName,
+        email,
+        password,
+        ...(isBootstrapAdmin && { role: 'admin' }),
+    });
+    const { payload } = await buildAuthPayload(user, req);
+
+    res.status(201).json(new ApiResponse(201, 'User registered successfully', payload));
+});
+
+/**
+ * @swagger
+ * /auth/login:
+ *   post:
+ *     summary: Log in
+ *     tags: [Auth]
+ *     description: Exchange email and password for an access/refresh token pair.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Logged in successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Invalid email or password.
+ */
+export const login = asyncHandler(async (req: Request, res: Response) => {
+    const { email, password } = req.body;
+
+    const user = await User.findByEmail(email);
+    if (!user || !(await user.comparePassword(password))) {
+        throw ApiError.unauthorized('Invalid email or password');
+    }
+
+    if (!user.isActive) {
+        throw ApiError.forbidden('This account has been deactivated');
+    }
+
+    user.lastLogin = new Date();
+    await user.save();
+
+    const { payload } = await buildAuthPayload(user, req);
+
+    res.status(200).json(new ApiResponse(200, 'Logged in successfully', payload));
+});
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Refresh the access token
+ *     tags: [Auth]
+ *     description: >
+ *       Rotate a refresh token. The presented token is revoked and a new token pair is returned.
+ *       Reusing a revoked refresh token revokes every token issued from the same login.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Refresh token is invalid, expired or revoked.
+ */
+export const refresh = asyncHandler(async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+
+    const storedToken = await RefreshToken.findByToken(refreshToken);
+    if (!storedToken) {
+        throw ApiError.unauthorized('Invalid refresh token');
+    }
+
+    if (!storedToken.revokedAt && storedToken.expiresAt.getTime() <= Date.now()) {
+        throw ApiError.unauthorized('Refresh token has expired. Please log in again.');
+    }
+
+    // Revoke the token before issuing its replacement: only one of several concurrent
+    // refreshes with the same token wins, the others count as reuse
+    const rotatedToken = await RefreshToken.rotate(refreshToken);
+    if (!rotatedToken) {
+        // A rotated token was presented again: assume it leaked and end the session family
+        await RefreshToken.revokeFamily(storedToken.family, 'Refresh token reuse detected');
+        throw ApiError.unauthorized('Refresh token has been revoked. Please log in again.');
+    }
+
+    const user = await User.findById(rotatedToken.user);
+    if (!user || !user.isActive) {
+        await RefreshToken.revokeFamily(rotatedToken.family, 'User no longer active');
+        throw ApiError.unauthorized('The user belonging to this token no longer exists.');
+    }
+
+    const { payload, refreshTokenHash } = await buildAuthPayload(user, req, rotatedToken.family);
+    await RefreshToken.updateOne(
+        { _id: rotatedToken._id },
+        { $set: { replacedByHash: refreshTokenHash } }
+    );
+
+    res.status(200).json(new ApiResponse(200, 'Token refreshed successfully', payload));
+});
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Log out
+ *     tags: [Auth]
+ *     description: Revoke the given refresh token. Succeeds even if the token is already invalid.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Logged out successfully.
+ */
+export const logout = asyncHandler(async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+
+    const storedToken = await RefreshToken.findByToken(refreshToken);
+    if (storedToken && !storedToken.revokedAt) {
+        await storedToken.revoke('Logged out');
+    }
+
+    res.status(200).json(new ApiResponse(200, 'Logged out successfully'));
+});
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out from all devices
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Revoke every refresh token belonging to the current user.
+ *     responses:
+ *       200:
+ *         description: All sessions revoked.
+ *       401:
+ *         description: Authentication required.
+ */
+export const logoutAll = asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+    await RefreshToken.revokeAllForUser(user._id, 'Logged out from all devices');
+
+    res.status(200).json(new ApiResponse(200, 'Logged out from all devices'));
+});
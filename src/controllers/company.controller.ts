@@ -1,7 +1,48 @@
-import { Company } from '../models/';
-import { ApiError, ApiResponse, asyncHandler } from '../utils';
+import { Company, Project } from '../models/';
+import {
+    ApiError,
+    ApiResponse,
+    assertIfMatch,
+    asyncHandler,
+    getDocumentETag,
+    paginate,
+    PAGINATION_PARAMS,
+    parseFilterQuery,
+} from '../utils';
+import { parseSort } from '../utils/pagination';
 import { Request, Response } from 'express';
-import { industryEnum, IndustryType } from '../models/company.model';
+import { getAuditContext, recordAudit, snapshotDocument } from '../services/audit.service';
+import {
+    COMPANY_FILTER_FIELDS,
+    COMPANY_SORT_FIELDS,
+    createCompanyRecord,
+    deleteCompanyRecord,
+    pickCompanyUpdates,
+    updateCompanyRecord,
+} from '../services/company.service';
+import { importCompanyRows, ImportFormat, ImportMode } from '../services/companyImport.service';
+import { runBulkOperation } from '../services/companyBulk.service';
+import { publishCompanyEvent } from '../services/companyEvents.service';
+import {
+    ExportFormat,
+    parseExportColumns,
+    streamCompanyExport,
+} from '../services/companyExport.service';
+import { parseStreamFilter, streamCompanyChanges } from '../services/companyStream.service';
+import { hasRequestPermission } from '../middleware/auth.middleware';
+import { PERMISSION_DENIED } from '../configs/permissions';
+import { findSuggestions, syncCompanySuggestions } from '../services/suggestion.service';
+import {
+    buildTextFilter,
+    parseCompanyFilter,
+    parseSearchText,
+    searchCompaniesByRelevance,
+} from '../services/companySearch.service';
+import {
+    getPurgeableAt,
+    getTrashRetentionDays,
+    purgeExpiredCompanies,
+} from '../services/companyTrash.service';
 
 /**
  * @swagger
@@ -9,64 +50,13 @@ import { industryEnum, IndustryType } from '../models/company.model';
  *   post:
  *     summary: Create a new company
  *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:create]
  *     description: Add a new company to the database with all required details.
  *     requestBody:
  *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               name:
- *                 type: string
- *                 description: The name of the company.
- *                 example: "Tech Corp"
- *               description:
- *                 type: string
- *                 description: A brief description of the company.
- *                 example: "A leading tech company specializing in AI."
- *               industry:
- *                 type: string
- *                 description: The industry the company belongs to.
- *                 example: "Technology"
- *               foundedYear:
- *                 type: integer
- *                 description: The year the company was founded.
- *                 example: 2010
- *               location:
- *                 type: array
- *                 items:
- *                   type: string
- *                 description: Locations where the company operates.
- *                 example: ["New York", "San Francisco"]
- *               website:
- *                 type: string
- *                 description: The company's website URL.
- *                 example: "https://www.techcorp.com"
- *               email:
- *                 type: string
- *                 description: The company's contact email.
- *                 example: "info@techcorp.com"
- *               phone:
- *                 type: string
- *                 description: The company's contact phone number.
- *                 example: "+1-800-555-1234"
- *               employees:
- *                 type: integer
- *                 description: The number of employees in the company.
- *                 example: 500
- *               logo:
- *                 type: string
- *                 description: URL of the company's logo.
- *                 example: "https://www.techcorp.com/logo.png"
- *               headquarters:
- *                 type: string
- *                 description: The headquarters of the company.
- *                 example: "Silicon Valley"
- *               revenue:
- *                 type: number
- *                 description: The company's annual revenue.
- *                 example: 1000000
  *     responses:
  *       201:
  *         description: Company created successfully.
@@ -75,139 +65,294 @@ import { industryEnum, IndustryType } from '../models/company.model';
  *             schema:
  *               $ref: '#/components/schemas/Company'
  *       400:
- *         description: Missing or invalid fields.
+ *         description: A company with the same name or email already exists.
+ *       401:
+ *         description: Authentication required.
+ *       403:
+ *         description: Missing the company:create permission.
+ *       409:
+ *         description: A deleted company with the same name or email is in the trash.
  */
 export const createCompany = asyncHandler(async (req: Request, res: Response) => {
-    const {
-        name,
-        description,
-        industry,
-        foundedYear,
-        location,
-        website,
-        email,
-        phone,
-        employees,
-        logo,
-        headquarters,
-        revenue,
-    } = req.body;
-    const errors: string[] = [];
-
-    if (!name?.trim()) errors.push('Name is required');
-    if (!email?.trim()) errors.push('Email is required');
-    if (!industry) errors.push('Industry is required');
-
-    if (!Array.isArray(location) || location.length === 0) {
-        errors.push('At least one location is required');
-    } else if (location.some(loc => typeof loc !== 'string' || loc.trim().length === 0)) {
-        errors.push('Each location must be a non-empty string');
-    }
+    const newCompany = await createCompanyRecord(req.body, getAuditContext(req));
 
-    if (errors.length > 0) {
-        throw ApiError.badRequest('Missing fields', errors);
-    }
+    res.status(201).json(new ApiResponse(201, 'Company created successfully', newCompany));
+});
 
-    const existenceOfCompany = await Company.findOne({
-        $or: [
-            {
-                name: name,
-            },
-            {
-                email: email,
-            },
-        ],
-    });
+/**
+ * @swagger
+ * /companies/import:
+ *   post:
+ *     summary: Import companies from CSV, JSON or NDJSON
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:create]
+ *     description: |
+ *       Create companies in bulk. Every row is checked with the same rules as `POST /companies`
+ *       and the result of each row is reported. At most 1000 rows can be imported at once.
+ *
+ *       Columns are matched to company fields by name, ignoring case, spaces and punctuation
+ *       (`Founded Year` maps to `foundedYear`); `mapping[Column]=field` maps a column explicitly
+ *       and `mapping[Column]=` ignores it. In CSV, several locations are separated by `;`.
+ *
+ *       Rows with the same name or email as an existing company are handled by `mode`:
+ *       - `skip` (default): the existing company is left unchanged.
+ *       - `upsert`: the existing company is updated like with `PATCH /companies/{id}`: only
+ *         the fields it accepts are changed, and the same rules apply. Requires the
+ *         company:update permission too.
+ *       - `fail-fast`: the row is rejected and the import stops at the first rejected row.
+ *         Rows are checked before any is saved, so nothing is imported.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json, ndjson]
+ *         description: Input format. Defaults to the format of the Content-Type header.
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [skip, upsert, fail-fast]
+ *           default: skip
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Check the rows and report what would happen without saving anything.
+ *       - in: query
+ *         name: mapping
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         description: Source column to company field, e.g. `mapping[Company Name]=name`.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *           example: |
+ *             Company Name,Industry,Email,Location,Founded Year
+ *             Tech Corp,Technology,info@techcorp.com,New York;Berlin,2010
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               type: object
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Import report.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 format:
+ *                   type: string
+ *                 mode:
+ *                   type: string
+ *                 dryRun:
+ *                   type: boolean
+ *                 aborted:
+ *                   type: boolean
+ *                   description: The import stopped at a rejected row (fail-fast mode).
+ *                 total:
+ *                   type: integer
+ *                 created:
+ *                   type: integer
+ *                 updated:
+ *                   type: integer
+ *                 skipped:
+ *                   type: integer
+ *                 rejected:
+ *                   type: integer
+ *                 ignoredColumns:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 rows:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       row:
+ *                         type: integer
+ *                         description: 1-based row number (not counting the CSV header).
+ *                       status:
+ *                         type: string
+ *                         enum: [created, updated, skipped, rejected]
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       errors:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *       400:
+ *         description: Unreadable input, no format for the Content-Type, an invalid mapping, no rows or too many rows.
+ *       403:
+ *         description: Missing the company:create permission, or company:update for upsert.
+ */
+export const importCompanies = asyncHandler(async (req: Request, res: Response) => {
+    // Checked, converted and defaulted by the route schema
+    const { format, mode, dryRun, mapping = {} } = req.query;
 
-    if (existenceOfCompany) {
-        throw new ApiError(400, 'Already existing company');
+    let importFormat = format as ImportFormat | undefined;
+    if (importFormat === undefined) {
+        if (req.is('text/csv')) importFormat = 'csv';
+        else if (req.is(['application/x-ndjson', 'application/ndjson'])) importFormat = 'ndjson';
+        else if (req.is('application/json')) importFormat = 'json';
+        else {
+            throw ApiError.badRequest('Invalid import options', [
+                'Send text/csv, application/json or application/x-ndjson, or set format',
+            ]);
+        }
     }
 
-    if (!industryEnum.includes(industry as IndustryType)) {
-        throw ApiError.badRequest(
-            `Invalid industry. Allowed values are: ${industryEnum.join(', ')}`
+    if (mode === 'upsert' && !hasRequestPermission(req, 'company:update')) {
+        throw ApiError.forbidden(
+            'You do not have permission to perform this action (requires company:update)',
+            PERMISSION_DENIED
         );
     }
 
-    const newCompany = await Company.create({
-        name,
-        description,
-        industry,
-        foundedYear,
-        location,
-        website,
-        email,
-        phone,
-        employees,
-        logo,
-        headquarters,
-        revenue,
+    const report = await importCompanyRows(req.body, {
+        format: importFormat,
+        mode: mode as ImportMode,
+        dryRun: Boolean(dryRun),
+        mapping: mapping as Record<string, string>,
+        context: getAuditContext(req),
     });
 
-    if (!newCompany) {
-        throw ApiError.internal('Can not create document');
-    }
+    let message = 'Import completed';
+    if (report.aborted) message = 'Import stopped at the first rejected row';
+    else if (report.dryRun) message = 'Import checked, nothing was saved';
 
-    res.status(201).json(new ApiResponse(201, 'Company created successfully', newCompany));
+    res.status(200).json(new ApiResponse(200, message, report));
 });
 
+// Fields returned by the company listing (`employees` is needed for the `employeeRange` virtual)
+const COMPANY_LIST_FIELDS =
+    'name description industry foundedYear location website isActive logo employees';
+
 /**
  * @swagger
  * /companies:
  *   get:
  *     summary: Get all companies
  *     tags: [Company]
- *     description: Fetch a paginated list of companies with selected fields.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: >
+ *       Fetch a page of companies with selected fields. Use `page` to jump to a page, or pass
+ *       `cursor` (empty for the first page, then the returned `nextCursor`) for fast, forward-only
+ *       paging over large result sets. Results always have a stable order.
  *     parameters:
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
+ *           minimum: 1
  *           default: 1
- *         description: Page number for pagination.
+ *         description: Page number (offset mode).
  *       - in: query
- *         name: limit
+ *         name: pageSize
  *         schema:
  *           type: integer
- *           default: 10
- *         description: Number of companies per page.
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of companies per page (`limit` is accepted as an alias).
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, -name, industry, -industry, createdAt, -createdAt, employees, -employees, isActive, -isActive]
+ *           default: -createdAt
+ *         description: Sort field; prefix with `-` for descending order.
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor (cursor mode). Only valid with the sort it was returned for.
  *     responses:
  *       200:
- *         description: A list of companies.
+ *         description: A page of companies.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Company'
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Company'
+ *                 total:
+ *                   type: integer
+ *                   example: 134
+ *                 page:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Current page (null in cursor mode).
+ *                   example: 2
+ *                 pageSize:
+ *                   type: integer
+ *                   example: 20
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 7
+ *                 sort:
+ *                   type: string
+ *                   example: "-createdAt"
+ *                 links:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                       example: "/api/v1/companies?page=2&pageSize=20&sort=-createdAt"
+ *                     next:
+ *                       type: string
+ *                       nullable: true
+ *                     prev:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Always null in cursor mode.
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor of the next page (cursor mode only).
+ *       400:
+ *         description: Invalid sort field or cursor.
+ *       403:
+ *         description: Missing the company:read permission.
  */
-export const getAllCompanies = async (req: Request, res: Response) => {
-    try {
-        const { page = 1, limit = 10 } = req.query;
-        const companies = await Company.aggregate([
-            {
-                $project: {
-                    _id: 1,
-                    name: 1,
-                    description: 1,
-                    industry: 1,
-                    foundedYear: 1,
-                    location: 1,
-                    website: 1,
-                    isActive: 1,
-                    logo: 1,
-                    employeeRange: 1,
-                },
-            },
-            { $skip: (Number(page) - 1) * Number(limit) },
-            { $limit: Number(limit) },
-        ]);
-        res.status(200).json(companies);
-    } catch (err) {
-        const error = err as Error;
-        res.status(500).json({ error: error.message });
-    }
-};
+export const getAllCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const companies = await paginate(
+        req,
+        Company,
+        {},
+        {
+            sortFields: COMPANY_SORT_FIELDS,
+            defaultSort: '-createdAt',
+            select: COMPANY_LIST_FIELDS,
+        }
+    );
+
+    res.status(200).json(new ApiResponse(200, 'Companies fetched successfully', companies));
+});
 
 /**
  * @swagger
@@ -215,7 +360,16 @@ export const getAllCompanies = async (req: Request, res: Response) => {
  *   get:
  *     summary: Get a company by ID
  *     tags: [Company]
- *     description: Fetch detailed information about a specific company by its ID.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: >
+ *       Fetch detailed information about a specific company by its ID. The `ETag` header holds
+ *       the version of the company: send it in `If-None-Match` to get `304` while the company is
+ *       unchanged, and in `If-Match` when updating or deleting it. With `include=projects` the
+ *       ETag covers the whole response instead and cannot be used with `If-Match`. `email` and
+ *       `revenue` are only included for callers with the `company:readSensitive` permission.
  *     parameters:
  *       - in: path
  *         name: id
@@ -223,33 +377,76 @@ export const getAllCompanies = async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: The ID of the company to fetch.
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *           enum: [projects]
+ *         description: Set to `projects` to embed a `projectSummary` with project counts by status.
+ *       - in: header
+ *         name: If-None-Match
+ *         schema:
+ *           type: string
+ *         description: ETag of a cached copy of the company.
  *     responses:
  *       200:
- *         description: Detailed information about the company.
+ *         description: >
+ *           Detailed information about the company. Without the company:readSensitive
+ *           permission, `email` and `revenue` are left out.
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: Version of the company.
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Company'
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Company'
+ *                 - type: object
+ *                   properties:
+ *                     email:
+ *                       type: string
+ *                       description: Only included with the company:readSensitive permission.
+ *                     revenue:
+ *                       type: number
+ *                       description: Only included with the company:readSensitive permission.
+ *                     projectSummary:
+ *                       $ref: '#/components/schemas/ProjectSummary'
+ *       304:
+ *         description: The company did not change since the copy sent in `If-None-Match`.
  *       404:
  *         description: Company not found.
+ *       403:
+ *         description: Missing the company:read permission.
  */
-export const getCompanyById = async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const company = await Company.findById(id);
-        if (!company) {
-            return res.status(404).json({ message: 'Company not found' });
-        }
-        const companyDetails = {
-            ...company.toObject(),
-            companyAge: company.getCompanyAge(),
-        };
-        return res.status(200).json(companyDetails);
-    } catch (err) {
-        const error = err as Error;
-        return res.status(500).json({ error: error.message });
+export const getCompanyById = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const company = await Company.findById(id);
+    if (!company) {
+        throw ApiError.notFound('Company not found');
+    }
+    // The project summary changes without the company, so responses embedding it
+    // keep the ETag Express derives from the body
+    if (req.query.include !== 'projects') {
+        res.set('ETag', getDocumentETag(company));
+        if (req.fresh) return res.status(304).end();
     }
-};
+    // email and revenue are only shown to callers allowed to read them
+    const profile = hasRequestPermission(req, 'company:readSensitive')
+        ? company.toObject()
+        : company.getPublicProfile();
+    const companyDetails = {
+        ...profile,
+        companyAge: company.getCompanyAge(),
+        ...(req.query.include === 'projects' && {
+            projectSummary: await Project.getStatusSummary(company._id),
+        }),
+    };
+    return res
+        .status(200)
+        .json(new ApiResponse(200, 'Company fetched successfully', companyDetails));
+});
 
 /**
  * @swagger
@@ -257,7 +454,15 @@ export const getCompanyById = async (req: Request, res: Response) => {
  *   patch:
  *     summary: Update a company
  *     tags: [Company]
- *     description: Update specific fields of a company by its ID.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: >
+ *       Update specific fields of a company by its ID. Setting `isActive` to false also
+ *       deactivates its departments and terminates its employees when
+ *       `COMPANY_DEPENDENTS_POLICY=cascade`. Enabling `autoHeadcount` immediately recalculates
+ *       `employees` from active employee records.
  *     parameters:
  *       - in: path
  *         name: id
@@ -265,28 +470,23 @@ export const getCompanyById = async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: The ID of the company to update.
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *         description: >
+ *           ETag from `GET /companies/{id}`. The update is refused when the company changed
+ *           since.
  *     requestBody:
  *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               logo:
- *                 type: string
- *               description:
- *                 type: string
- *               location:
- *                 type: array
- *                 items:
- *                   type: string
- *               phone:
- *                 type: string
- *               isActive:
- *                 type: boolean
  *     responses:
  *       200:
  *         description: Company updated successfully.
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: New version of the company.
  *         content:
  *           application/json:
  *             schema:
@@ -295,34 +495,32 @@ export const getCompanyById = async (req: Request, res: Response) => {
  *         description: No fields provided to update.
  *       404:
  *         description: Company not found.
+ *       409:
+ *         description: >
+ *           Deactivation refused because the company still has active dependent records and
+ *           `COMPANY_DEPENDENTS_POLICY` is `block` (`errorCode: COMPANY_HAS_DEPENDENTS`).
+ *       412:
+ *         description: >
+ *           The company changed since the version in `If-Match`, or while the update was being
+ *           applied.
+ *       403:
+ *         description: Missing the company:update permission.
  */
-export const updateCompany = async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const updates = req.body;
-        const allowedFields = ['logo', 'description', 'location', 'phone', 'isActive'];
-        const updateData: any = {};
-
-        for (const field of allowedFields) {
-            if (updates[field] !== undefined) {
-                updateData[field] = updates[field];
-            }
-        }
-
-        if (Object.keys(updateData).length === 0) {
-            return res.status(400).json({ message: 'No fields provided to update' });
-        }
+export const updateCompany = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const updateData = pickCompanyUpdates(req.body);
 
-        const company = await Company.findByIdAndUpdate(id, updateData, { new: true });
-        if (!company) {
-            return res.status(404).json({ message: 'Company not found' });
-        }
-        return res.status(200).json(company);
-    } catch (err) {
-        const error = err as Error;
-        return res.status(500).json({ error: error.message });
+    const company = await Company.findById(id);
+    if (!company) {
+        throw ApiError.notFound('Company not found');
     }
-};
+    assertIfMatch(req, getDocumentETag(company));
+
+    const updatedCompany = await updateCompanyRecord(company, updateData, getAuditContext(req));
+
+    res.set('ETag', getDocumentETag(updatedCompany));
+    res.status(200).json(new ApiResponse(200, 'Company updated successfully', updatedCompany));
+});
 
 /**
  * @swagger
@@ -330,7 +528,15 @@ export const updateCompany = async (req: Request, res: Response) => {
  *   delete:
  *     summary: Delete a company
  *     tags: [Company]
- *     description: Remove a company from the database by its ID.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:delete]
+ *     description: >
+ *       Move a company to the trash. It disappears from every listing and search but can be
+ *       restored until it is purged. With `COMPANY_DEPENDENTS_POLICY=block` the request is refused
+ *       while the company has departments, employees or projects; with `cascade` they are kept
+ *       with the company and removed when it is purged.
  *     parameters:
  *       - in: path
  *         name: id
@@ -338,25 +544,209 @@ export const updateCompany = async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: The ID of the company to delete.
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *         description: >
+ *           ETag from `GET /companies/{id}`. The deletion is refused when the company changed
+ *           since.
  *     responses:
  *       200:
- *         description: Company deleted successfully.
+ *         description: Company moved to the trash.
  *       404:
  *         description: Company not found.
+ *       409:
+ *         description: >
+ *           The company still has dependent records and `COMPANY_DEPENDENTS_POLICY` is `block`
+ *           (`errorCode: COMPANY_HAS_DEPENDENTS`).
+ *       412:
+ *         description: The company changed since the version in `If-Match`.
+ *       403:
+ *         description: Missing the company:delete permission.
  */
-export const deleteCompany = async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const company = await Company.findByIdAndDelete(id);
-        if (!company) {
-            return res.status(404).json({ message: 'Company not found' });
-        }
-        return res.status(200).json({ message: 'Company deleted successfully' });
-    } catch (err) {
-        const error = err as Error;
-        return res.status(500).json({ error: error.message });
+export const deleteCompany = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const company = await Company.findById(id);
+    if (!company) {
+        throw ApiError.notFound('Company not found');
     }
-};
+    assertIfMatch(req, getDocumentETag(company));
+
+    await deleteCompanyRecord(company, getAuditContext(req), req.user?._id ?? null);
+
+    res.status(200).json(
+        new ApiResponse(200, 'Company moved to trash', {
+            deletedAt: company.deletedAt,
+            purgeableAt: getPurgeableAt(company),
+        })
+    );
+});
+
+/**
+ * @swagger
+ * /companies/trash:
+ *   get:
+ *     summary: List deleted companies
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:delete]
+ *     description: >
+ *       Fetch the companies in the trash, most recently deleted first. Each entry includes
+ *       `purgeableAt`, the date after which it can be purged.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of companies per page.
+ *     responses:
+ *       200:
+ *         description: Companies in the trash.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Company'
+ *       403:
+ *         description: Missing the company:delete permission.
+ */
+export const getTrash = asyncHandler(async (req: Request, res: Response) => {
+    // Checked, converted and defaulted by the route schema
+    const page = Number(req.query.page);
+    const limit = Number(req.query.limit);
+
+    const [companies, total] = await Promise.all([
+        Company.findDeleted()
+            .populate('deletedBy', 'firstName lastName email')
+            .skip((page - 1) * limit)
+            .limit(limit),
+        Company.countDocuments({ deletedAt: { $ne: null } }),
+    ]);
+
+    res.status(200).json(
+        new ApiResponse(200, 'Trash fetched successfully', {
+            companies: companies.map(company => ({
+                ...company.toObject(),
+                purgeableAt: getPurgeableAt(company),
+            })),
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+            retentionDays: getTrashRetentionDays(),
+        })
+    );
+});
+
+/**
+ * @swagger
+ * /companies/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted company
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:delete]
+ *     description: Move a company out of the trash, together with its departments, employees and projects.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the deleted company.
+ *     responses:
+ *       200:
+ *         description: Company restored successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Company'
+ *       403:
+ *         description: Missing the company:delete permission.
+ *       404:
+ *         description: No deleted company with this ID.
+ */
+export const restoreCompany = asyncHandler(async (req: Request, res: Response) => {
+    const company = await Company.findOne({ _id: req.params.id, deletedAt: { $ne: null } });
+    if (!company) {
+        throw ApiError.notFound('Deleted company not found');
+    }
+
+    const before = snapshotDocument(company);
+    await company.restore();
+
+    const context = getAuditContext(req);
+    const after = snapshotDocument(company);
+    await recordAudit({
+        context,
+        entityType: 'Company',
+        entityId: company._id,
+        company: company._id,
+        action: 'restore',
+        before,
+        after,
+    });
+    await syncCompanySuggestions(company._id, company);
+    await publishCompanyEvent('company.restored', context, { before, after });
+
+    res.status(200).json(new ApiResponse(200, 'Company restored successfully', company));
+});
+
+/**
+ * @swagger
+ * /companies/trash/purge:
+ *   post:
+ *     summary: Purge expired companies from the trash
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [company:purge]
+ *     description: >
+ *       Permanently delete every company that has been in the trash for longer than
+ *       `COMPANY_TRASH_RETENTION_DAYS` (30 by default), together with its departments, employees
+ *       and projects. Their audit history is kept.
+ *     requestBody:
+ *       required: false
+ *       description: No options; the body must be empty.
+ *     responses:
+ *       200:
+ *         description: Number and IDs of the purged companies.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 retentionDays:
+ *                   type: integer
+ *                   example: 30
+ *                 purged:
+ *                   type: integer
+ *                   example: 2
+ *                 companyIds:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       403:
+ *         description: Missing the company:purge permission (admins only).
+ */
+export const purgeCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const result = await purgeExpiredCompanies(getAuditContext(req));
+
+    res.status(200).json(new ApiResponse(200, 'Trash purged successfully', result));
+});
 
 /**
  * @swagger
@@ -364,55 +754,47 @@ export const deleteCompany = async (req: Request, res: Response) => {
  *   get:
  *     summary: Get search suggestions
  *     tags: [Company]
- *     description: Fetch unique suggestions for companies based on a query.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: >
+ *       Autocomplete company names, industries and locations. Suggestions are grouped by kind and
+ *       ranked by match type (the value starts with the query, then a later word does, then a
+ *       match with typos), then by popularity. Queries of 4 to 7 characters tolerate one typo,
+ *       longer queries two. Case and accents are ignored.
  *     parameters:
  *       - in: query
  *         name: q
  *         required: true
  *         schema:
  *           type: string
- *         description: The search query.
+ *           maxLength: 100
+ *         description: The text typed so far.
+ *         example: "tehc"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 20
+ *         description: Maximum number of suggestions per kind.
  *     responses:
  *       200:
- *         description: A list of unique suggestions.
+ *         description: Suggestions per kind.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: string
+ *               $ref: '#/components/schemas/SuggestionGroups'
+ *       403:
+ *         description: Missing the company:read permission.
  */
-export const searchSuggestion = async (req: Request, res: Response) => {
-    try {
-        const { q } = req.query;
-        if (typeof q !== 'string') {
-            return res.status(400).json({ message: 'Invalid query parameter' });
-        }
+export const searchSuggestion = asyncHandler(async (req: Request, res: Response) => {
+    const { q, limit } = req.query;
+    const suggestions = await findSuggestions(q, Number(limit));
 
-        const suggestions = await Company.find({
-            $or: [
-                { name: { $regex: q, $options: 'i' } },
-                { industry: { $regex: q, $options: 'i' } },
-                { location: { $regex: q, $options: 'i' } },
-            ],
-        }).select('name industry location');
-
-        const result = new Set<string>();
-
-        suggestions.forEach(s => {
-            if (s.name.match(new RegExp(q, 'i'))) result.add(s.name);
-            if (s.industry.match(new RegExp(q, 'i'))) result.add(s.industry);
-            s.location.forEach(loc => {
-                if (loc.match(new RegExp(q, 'i'))) result.add(loc);
-            });
-        });
-
-        return res.status(200).json(Array.from(result));
-    } catch (err) {
-        const error = err as Error;
-        return res.status(500).json({ error: error.message });
-    }
-};
+    res.status(200).json(new ApiResponse(200, 'Suggestions fetched successfully', suggestions));
+});
 
 /**
  * @swagger
@@ -420,22 +802,59 @@ export const searchSuggestion = async (req: Request, res: Response) => {
  *   get:
  *     summary: Search companies with filters
  *     tags: [Company]
- *     description: Fetch companies based on various filters like name, location, industry, etc.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: |
+ *       Fetch companies matching a set of filters, paginated like `GET /companies`.
+ *
+ *       Filters use the syntax `field[operator]=value`, e.g. `employees[gte]=50&employees[lt]=500`.
+ *       List operators take comma-separated values: `industry[in]=Technology,Retail`,
+ *       `revenue[between]=1e6,5e6`. A bare `field=value` means `eq`, except `name` and `location`
+ *       (contains) and `employees` and `createdAt` (gte).
+ *
+ *       | Type | Fields | Operators |
+ *       |------|--------|-----------|
+ *       | text | name, description, industry, website, headquarters | eq, ne, in, nin, contains, exists |
+ *       | number | foundedYear, employees, revenue | eq, ne, gt, gte, lt, lte, between, in, nin, exists |
+ *       | date | createdAt, updatedAt | eq, gt, gte, lt, lte, between, exists |
+ *       | boolean | isActive, autoHeadcount | eq, ne, exists |
+ *       | list | location | eq, any, all, none, contains, exists |
+ *
+ *       All filters must match. To match any of several groups, use `or[n][field][operator]=value`,
+ *       e.g. `or[0][industry]=Retail&or[1][employees][gte]=1000`; `and[n]` groups work the same
+ *       way. Groups can be nested up to 3 levels. Unknown fields and operators are rejected with
+ *       400 and the list of allowed fields and operators.
+ *
+ *       With `q`, companies are searched by name and description and ordered by relevance: the
+ *       text score, boosted when the name equals or starts with the searched words. `q` supports
+ *       `"exact phrases"` and `-excluded` words, and each result has `score` and `highlights`
+ *       (matches wrapped in `<mark>`, with the rest HTML-escaped). Relevance results use `page`
+ *       and `pageSize` only; `sort` and `cursor` are rejected.
  *     parameters:
  *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Full-text search in name and description, ranked by relevance.
+ *         example: '"cloud platform" consulting -retail'
+ *       - in: query
  *         name: name
  *         schema:
  *           type: string
- *         description: Filter by company name.
+ *         description: Company name contains this text (case-insensitive).
  *       - in: query
  *         name: location
  *         schema:
  *           type: string
- *         description: Filter by company location.
+ *         description: One of the locations contains this text (case-insensitive).
  *       - in: query
  *         name: industry
  *         schema:
  *           type: string
+ *           enum: [Technology, Healthcare, Manufacturing, Financial Services, Retail, Education, Construction, Transportation, Entertainment, Other]
  *         description: Filter by company industry.
  *       - in: query
  *         name: isActive
@@ -452,39 +871,478 @@ export const searchSuggestion = async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *           format: date
- *         description: Filter by creation date.
+ *         description: Only companies created on or after this date.
  *       - in: query
  *         name: foundedYear
  *         schema:
  *           type: integer
  *         description: Filter by the year the company was founded.
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, -name, industry, -industry, createdAt, -createdAt, employees, -employees, isActive, -isActive]
+ *           default: name
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Use cursor pagination, as described for `GET /companies`.
+ *       - in: query
+ *         name: facets
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: >
+ *           Also return counts per industry, location (top 20), employee range, founded decade
+ *           and active status for all companies matching the filters (not just the current page).
  *     responses:
  *       200:
- *         description: A list of companies matching the filters.
+ *         description: A page of companies matching the filters.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Company'
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Company'
+ *                       - type: object
+ *                         properties:
+ *                           score:
+ *                             type: number
+ *                             description: Relevance score (with q only).
+ *                           highlights:
+ *                             type: object
+ *                             description: Matching name and description snippet (with q only).
+ *                             properties:
+ *                               name:
+ *                                 type: string
+ *                                 example: "<mark>Cloud</mark> Works"
+ *                               description:
+ *                                 type: string
+ *                                 example: "…offers a <mark>cloud platform</mark> for…"
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                   nullable: true
+ *                 pageSize:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *                 sort:
+ *                   type: string
+ *                   description: The applied sort, or `relevance` with q.
+ *                 links:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                     next:
+ *                       type: string
+ *                       nullable: true
+ *                     prev:
+ *                       type: string
+ *                       nullable: true
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 facets:
+ *                   $ref: '#/components/schemas/CompanyFacets'
+ *       400:
+ *         description: >
+ *           Unknown filter field or operator, an invalid value, or sort or cursor combined with q.
+ *       403:
+ *         description: Missing the company:read permission.
  */
-export const searchCompanies = async (req: Request, res: Response) => {
-    try {
-        const { name, location, industry, isActive, employees, createdAt, foundedYear } = req.query;
-        const filters: any = {};
-
-        if (name) filters.name = { $regex: name, $options: 'i' };
-        if (location) filters.location = { $regex: location, $options: 'i' };
-        if (industry) filters.industry = industry;
-        if (isActive !== undefined) filters.isActive = isActive === 'true';
-        if (employees) filters.employees = { $gte: Number(employees) };
-        if (createdAt) filters.createdAt = { $gte: new Date(createdAt as string) };
-        if (foundedYear) filters.foundedYear = Number(foundedYear);
-
-        const companies = await Company.find(filters).lean();
-        res.status(200).json(companies);
-    } catch (err) {
-        const error = err as Error;
-        res.status(500).json({ error: error.message });
-    }
-};
+export const searchCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const { q, facets } = req.query;
+    const search = q !== undefined ? parseSearchText(q) : null;
+    const filter = parseFilterQuery(req.query, COMPANY_FILTER_FIELDS, {
+        reserved: [...PAGINATION_PARAMS, 'facets', 'q'],
+    });
+
+    const [companies, facetCounts] = await Promise.all([
+        search
+            ? searchCompaniesByRelevance(req, search, filter, COMPANY_LIST_FIELDS)
+            : paginate(req, Company, filter, {
+                  sortFields: COMPANY_SORT_FIELDS,
+                  defaultSort: 'name',
+                  select: COMPANY_LIST_FIELDS,
+              }),
+        facets ? Company.getSearchFacets(search ? buildTextFilter(search, filter) : filter) : null,
+    ]);
+
+    const result = facetCounts ? { ...companies, facets: facetCounts } : companies;
+
+    res.status(200).json(new ApiResponse(200, 'Companies fetched successfully', result));
+});
+
+/**
+ * @swagger
+ * /companies/export:
+ *   get:
+ *     summary: Export companies as CSV, NDJSON or XLSX
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: |
+ *       Download every company matching the filters as a file. Companies are streamed from the
+ *       database, so exports of any size use the same memory.
+ *
+ *       Filters and `q` work as in `GET /companies/search`; with `q`, companies are still ordered
+ *       by `sort`. Choose columns with `columns`, e.g. `columns=name,industry,employees`. Without
+ *       it, every column the caller may read is exported. `email` and `revenue` need the
+ *       `company:readSensitive` permission; asking for them without it fails with 403.
+ *
+ *       CSV and XLSX files have a header row and write locations as one cell separated by `; `,
+ *       so a CSV export can be imported again with `POST /companies/import`. NDJSON has one JSON
+ *       object per line. If the export fails after the download has started, the download ends
+ *       early and the file is incomplete.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Comma-separated columns, in order. Allowed: id, name, description, industry,
+ *           foundedYear, location, headquarters, website, email, phone, employees, employeeRange,
+ *           revenue, isActive, autoHeadcount, logo, createdAt, updatedAt.
+ *         example: "name,industry,location,employees"
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Only companies whose name or description match this full-text search.
+ *       - in: query
+ *         name: industry
+ *         schema:
+ *           type: string
+ *         description: Any filter of `GET /companies/search`, e.g. `industry[in]=Technology,Retail`.
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, -name, industry, -industry, createdAt, -createdAt, employees, -employees, isActive, -isActive]
+ *           default: name
+ *     responses:
+ *       200:
+ *         description: The exported companies, as an attachment.
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: An invalid filter, search or sort.
+ *       403:
+ *         description: >
+ *           Missing the company:read permission, or asking for email or revenue without the
+ *           company:readSensitive permission.
+ */
+export const exportCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const { format, columns, sort } = req.query;
+
+    await streamCompanyExport(res, {
+        format: format as ExportFormat,
+        columns: parseExportColumns(
+            columns as string[] | undefined,
+            hasRequestPermission(req, 'company:readSensitive')
+        ),
+        filter: parseCompanyFilter(req.query, ['format', 'columns', 'sort']),
+        sort: parseSort(sort, COMPANY_SORT_FIELDS, 'name'),
+    });
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompanyStreamEvent:
+ *       type: object
+ *       description: The `data` of a change feed message, as JSON.
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: Event ID, also sent as the message `id`
+ *         type:
+ *           type: string
+ *           enum: [company.created, company.updated, company.deleted, company.restored, company.purged]
+ *         companyId:
+ *           type: string
+ *         industry:
+ *           type: string
+ *           nullable: true
+ *           description: Null when the industry is unknown, as for purges read from a change stream
+ *         at:
+ *           type: string
+ *           format: date-time
+ *         changedFields:
+ *           type: array
+ *           description: Fields changed by an update
+ *           items:
+ *             type: string
+ *           example: ["employees", "location"]
+ *         company:
+ *           type: object
+ *           nullable: true
+ *           description: >
+ *             The company after the change, or null once it is purged. `email` and `revenue` are
+ *             only included with the company:readSensitive permission.
+ *
+ * /companies/stream:
+ *   get:
+ *     summary: Follow company changes as Server-Sent Events
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: |
+ *       Keeps the connection open and sends a message each time a company is created, updated,
+ *       deleted (moved to the trash), restored or purged. The message `event` is the event type
+ *       and its `data` a `CompanyStreamEvent`. A comment line is sent every 25 seconds while
+ *       there is nothing to report.
+ *
+ *       When MongoDB runs as a replica set, changes are read from a change stream and include
+ *       those made by other API instances. Otherwise, only changes made through this instance
+ *       are sent.
+ *
+ *       The feed authenticates with the `Authorization` or `X-API-Key` header like every other
+ *       route, so it needs a client that can set headers: the browser `EventSource` API cannot,
+ *       use `fetch` with a streamed body or an SSE client library instead.
+ *
+ *       Reconnect with the `Last-Event-ID` header (or `lastEventId`) set to the last event
+ *       received, and missed events are sent first. When that event is too old to be known, a
+ *       `reset` event is sent instead: reload the companies you show, then keep following the
+ *       feed.
+ *     parameters:
+ *       - in: query
+ *         name: industry
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Only companies of these industries (comma-separated). Purges are sent regardless,
+ *           as the industry of a purged company may be unknown.
+ *         example: "Technology,Finance"
+ *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *         description: Only these companies (comma-separated IDs)
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *         description: Resume after this event
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: string
+ *         description: Resume after this event, like the `Last-Event-ID` header
+ *     responses:
+ *       200:
+ *         description: A stream of company change events.
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               id: lx2k1f-12
+ *               event: company.updated
+ *               data: {"id":"lx2k1f-12","type":"company.updated","companyId":"...","changedFields":["employees"],...}
+ *       403:
+ *         description: Missing the company:read permission
+ */
+export const streamCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const filter = parseStreamFilter(req.query);
+    const lastEventId = req.get('Last-Event-ID') ?? req.query.lastEventId;
+
+    streamCompanyChanges(req, res, {
+        filter,
+        lastEventId: lastEventId ? String(lastEventId) : undefined,
+        includeSensitive: hasRequestPermission(req, 'company:readSensitive'),
+    });
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BulkReport:
+ *       type: object
+ *       properties:
+ *         action:
+ *           type: string
+ *           enum: [update, delete]
+ *         preview:
+ *           type: boolean
+ *         matched:
+ *           type: integer
+ *           description: Number of companies found.
+ *         succeeded:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         results:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [matched, updated, deleted, failed]
+ *                 description: "`matched` in previews."
+ *               name:
+ *                 type: string
+ *               errors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               errorCode:
+ *                 type: string
+ *                 example: COMPANY_HAS_DEPENDENTS
+ */
+
+/**
+ * @swagger
+ * /companies/bulk:
+ *   patch:
+ *     summary: Update many companies
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: >
+ *       Apply the same update to up to 500 companies, selected by ID or by a filter. The fields
+ *       that can be updated are those of `PATCH /companies/{id}`; other fields are ignored. Each
+ *       company is updated like a single update (dependents policy, headcount, audit trail), and
+ *       a company that fails does not stop the others. Use `preview=true` to see which companies
+ *       match without changing them.
+ *     parameters:
+ *       - in: query
+ *         name: preview
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Return the matched companies without updating them.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             filter: { "location": { "any": ["Berlin"] } }
+ *             update: { "isActive": false }
+ *     responses:
+ *       200:
+ *         description: Result for each company.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkReport'
+ *       400:
+ *         description: >
+ *           Neither or both of ids and filter, an invalid filter, a filter matching more than
+ *           500 companies, or no fields to update.
+ *       403:
+ *         description: Missing the company:update permission.
+ */
+export const bulkUpdateCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const { ids, filter, update } = req.body;
+    const preview = Boolean(req.query.preview);
+
+    const report = await runBulkOperation({ ids, filter }, COMPANY_FILTER_FIELDS, {
+        action: 'update',
+        preview,
+        updateData: pickCompanyUpdates(update),
+        context: getAuditContext(req),
+    });
+
+    const message = preview ? 'Bulk update preview' : 'Bulk update completed';
+    res.status(200).json(new ApiResponse(200, message, report));
+});
+
+/**
+ * @swagger
+ * /companies/bulk-delete:
+ *   post:
+ *     summary: Delete many companies
+ *     tags: [Company]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:delete]
+ *     description: >
+ *       Move up to 500 companies, selected by ID or by a filter, to the trash. Each company is
+ *       deleted like a single delete, so with `COMPANY_DEPENDENTS_POLICY=block` companies that
+ *       still have dependents fail (`errorCode: COMPANY_HAS_DEPENDENTS`) while the others are
+ *       deleted. Use `preview=true` to see which companies match without deleting them.
+ *     parameters:
+ *       - in: query
+ *         name: preview
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Return the matched companies without deleting them.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Result for each company.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkReport'
+ *       400:
+ *         description: >
+ *           Neither or both of ids and filter, an invalid filter, or a filter matching more than
+ *           500 companies.
+ *       403:
+ *         description: Missing the company:delete permission.
+ */
+export const bulkDeleteCompanies = asyncHandler(async (req: Request, res: Response) => {
+    const { ids, filter } = req.body;
+    const preview = Boolean(req.query.preview);
+
+    const report = await runBulkOperation({ ids, filter }, COMPANY_FILTER_FIELDS, {
+        action: 'delete',
+        preview,
+        context: getAuditContext(req),
+        deletedBy: req.user?._id ?? null,
+    });
+
+    const message = preview ? 'Bulk delete preview' : 'Bulk delete completed';
+    res.status(200).json(new ApiResponse(200, message, report));
+});
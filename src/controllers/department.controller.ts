@@ -0,0 +1,338 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { Department } from '../models/';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+import { findCompanyOrFail, resolveCompanyEmployee } from '../services/company.service';
+
+/**
+ * Validate a parent department reference.
+ * The parent must belong to the same company and must not create a cycle.
+ */
+const resolveParent = async (
+    companyId: Types.ObjectId,
+    parentId: unknown,
+    departmentId?: Types.ObjectId
+): Promise<Types.ObjectId | null> => {
+    if (parentId === null || parentId === '') return null;
+
+    const parent = await Department.findOne({ _id: parentId, company: companyId });
+    if (!parent) {
+        throw ApiError.badRequest('Parent department must belong to the same company');
+    }
+
+    if (departmentId) {
+        const ancestorIds = await parent.getAncestorIds();
+        if (parent._id.equals(departmentId) || ancestorIds.some(id => id.equals(departmentId))) {
+            throw ApiError.badRequest('A department cannot be moved under itself or its children');
+        }
+    }
+
+    return parent._id;
+};
+
+/**
+ * @swagger
+ * /companies/{id}/departments:
+ *   post:
+ *     summary: Create a department
+ *     tags: [Department]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: Add a department to a company, optionally under a parent department.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       201:
+ *         description: Department created successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Department'
+ *       400:
+ *         description: The head or parent does not belong to the company.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company not found.
+ *       409:
+ *         description: A department with this name already exists in the company.
+ */
+export const createDepartment = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const { name, code, description, head, budget, parent } = req.body;
+
+    const headId =
+        head !== undefined
+            ? await resolveCompanyEmployee(company._id, head, 'Head of department')
+            : null;
+    const parentId = parent !== undefined ? await resolveParent(company._id, parent) : null;
+
+    const department = await Department.create({
+        company: company._id,
+        name,
+        code,
+        description,
+        head: headId,
+        budget,
+        parent: parentId,
+    });
+
+    res.status(201).json(new ApiResponse(201, 'Department created successfully', department));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/departments:
+ *   get:
+ *     summary: List departments of a company
+ *     tags: [Department]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: Fetch the departments of a company as a flat list or as a hierarchy.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: query
+ *         name: tree
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Return root departments with nested `children`.
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *         description: Filter by active status (flat list only).
+ *     responses:
+ *       200:
+ *         description: A list of departments.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Department'
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company not found.
+ */
+export const getDepartments = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const { tree, isActive } = req.query;
+
+    if (tree) {
+        const departments = await Department.getTree(company._id);
+        return res
+            .status(200)
+            .json(new ApiResponse(200, 'Departments fetched successfully', departments));
+    }
+
+    const filters: Record<string, unknown> = { company: company._id };
+    if (isActive !== undefined) filters.isActive = isActive;
+
+    const departments = await Department.find(filters).sort({ name: 1 });
+    return res
+        .status(200)
+        .json(new ApiResponse(200, 'Departments fetched successfully', departments));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/departments/{departmentId}:
+ *   get:
+ *     summary: Get a department by ID
+ *     tags: [Department]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: departmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the department.
+ *     responses:
+ *       200:
+ *         description: The department, with its parent and head populated.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Department'
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company or department not found.
+ */
+export const getDepartmentById = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+
+    const department = await Department.findOne({
+        _id: req.params.departmentId,
+        company: company._id,
+    })
+        .populate('parent', 'name code')
+        .populate('head', 'firstName lastName title email');
+    if (!department) {
+        throw ApiError.notFound('Department not found');
+    }
+
+    res.status(200).json(new ApiResponse(200, 'Department fetched successfully', department));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/departments/{departmentId}:
+ *   patch:
+ *     summary: Update a department
+ *     tags: [Department]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: Update a department. Moving it under one of its own sub-departments is rejected.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: departmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the department.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Department updated successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Department'
+ *       400:
+ *         description: No fields provided or invalid hierarchy.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or department not found.
+ */
+export const updateDepartment = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const updates = req.body;
+    const allowedFields = ['name', 'code', 'description', 'head', 'budget', 'parent', 'isActive'];
+    const updateData: Record<string, unknown> = {};
+
+    for (const field of allowedFields) {
+        if (updates[field] !== undefined) {
+            updateData[field] = updates[field];
+        }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+        throw ApiError.badRequest('No fields provided to update');
+    }
+
+    const department = await Department.findOne({
+        _id: req.params.departmentId,
+        company: company._id,
+    });
+    if (!department) {
+        throw ApiError.notFound('Department not found');
+    }
+
+    if (updateData.head !== undefined) {
+        updateData.head = await resolveCompanyEmployee(
+            company._id,
+            updateData.head,
+            'Head of department'
+        );
+    }
+
+    if (updateData.parent !== undefined) {
+        updateData.parent = await resolveParent(company._id, updateData.parent, department._id);
+    }
+
+    department.set(updateData);
+    await department.save();
+
+    res.status(200).json(new ApiResponse(200, 'Department updated successfully', department));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/departments/{departmentId}:
+ *   delete:
+ *     summary: Delete a department
+ *     tags: [Department]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: Delete a department. Its sub-departments are moved up to its parent.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: departmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the department.
+ *     responses:
+ *       200:
+ *         description: Department deleted successfully.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or department not found.
+ */
+export const deleteDepartment = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+
+    const department = await Department.findOne({
+        _id: req.params.departmentId,
+        company: company._id,
+    });
+    if (!department) {
+        throw ApiError.notFound('Department not found');
+    }
+
+    await Department.updateMany(
+        { company: company._id, parent: department._id },
+        { $set: { parent: department.parent ?? null } }
+    );
+    await department.deleteOne();
+
+    res.status(200).json(new ApiResponse(200, 'Department deleted successfully'));
+});
@@ -0,0 +1,398 @@
+import { Request, Response } from 'express';
+import { Department, Employee, Project } from '../models/';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+import { findCompanyOrFail, resolveCompanyDepartment } from '../services/company.service';
+
+/**
+ * Load an employee of the company or fail with 404
+ */
+const findEmployeeOrFail = async (req: Request) => {
+    const company = await findCompanyOrFail(req.params.id);
+
+    const employee = await Employee.findOne({ _id: req.params.employeeId, company: company._id });
+    if (!employee) {
+        throw ApiError.notFound('Employee not found');
+    }
+    return { company, employee };
+};
+
+/**
+ * @swagger
+ * /companies/{id}/employees:
+ *   post:
+ *     summary: Hire an employee
+ *     tags: [Employee]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: >
+ *       Add an employee to a company, optionally assigned to one of its departments. Updates the
+ *       company headcount when `autoHeadcount` is enabled.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       201:
+ *         description: Employee hired successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Employee'
+ *       400:
+ *         description: The company is inactive, or the department does not belong to it.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company not found.
+ *       409:
+ *         description: An employee with this email already exists in the company.
+ */
+export const createEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const { firstName, lastName, email, title, employmentType, startDate, department } = req.body;
+
+    if (!company.isActive) {
+        throw ApiError.badRequest('Cannot hire employees into an inactive company');
+    }
+
+    const departmentId =
+        department !== undefined ? await resolveCompanyDepartment(company._id, department) : null;
+
+    const employee = await Employee.create({
+        company: company._id,
+        department: departmentId,
+        firstName,
+        lastName,
+        email,
+        title,
+        employmentType,
+        startDate,
+    });
+
+    res.status(201).json(new ApiResponse(201, 'Employee hired successfully', employee));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/employees:
+ *   get:
+ *     summary: List employees of a company
+ *     tags: [Employee]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: Fetch a paginated list of a company's employees, sorted by name.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, terminated]
+ *         description: Filter by employment status.
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *         description: Filter by department ID.
+ *       - in: query
+ *         name: employmentType
+ *         schema:
+ *           type: string
+ *           enum: [full-time, part-time, contract, intern, temporary]
+ *         description: Filter by employment type.
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of employees per page.
+ *     responses:
+ *       200:
+ *         description: A list of employees.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Employee'
+ *       400:
+ *         description: The department does not belong to the company.
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company not found.
+ */
+export const getEmployees = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const { status, department, employmentType } = req.query;
+    // Checked, converted and defaulted by the route schema
+    const page = Number(req.query.page);
+    const limit = Number(req.query.limit);
+
+    const filters: Record<string, unknown> = { company: company._id };
+    if (status !== undefined) filters.status = status;
+    if (employmentType !== undefined) filters.employmentType = employmentType;
+
+    if (department !== undefined) {
+        filters.department = await resolveCompanyDepartment(company._id, department);
+    }
+
+    const [employees, total] = await Promise.all([
+        Employee.find(filters)
+            .sort({ lastName: 1, firstName: 1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        Employee.countDocuments(filters),
+    ]);
+
+    res.status(200).json(
+        new ApiResponse(200, 'Employees fetched successfully', {
+            employees,
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+        })
+    );
+});
+
+/**
+ * @swagger
+ * /companies/{id}/employees/{employeeId}:
+ *   get:
+ *     summary: Get an employee by ID
+ *     tags: [Employee]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee.
+ *     responses:
+ *       200:
+ *         description: The employee, with its department populated.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Employee'
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company or employee not found.
+ */
+export const getEmployeeById = asyncHandler(async (req: Request, res: Response) => {
+    const { employee } = await findEmployeeOrFail(req);
+    await employee.populate('department', 'name code');
+
+    res.status(200).json(new ApiResponse(200, 'Employee fetched successfully', employee));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/employees/{employeeId}:
+ *   patch:
+ *     summary: Update an employee
+ *     tags: [Employee]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: >
+ *       Update an employee's details or move them to another department. Use the terminate
+ *       endpoint to end employment.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Employee updated successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Employee'
+ *       400:
+ *         description: No fields provided, or the department does not belong to the company.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or employee not found.
+ */
+export const updateEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const updates = req.body;
+    const allowedFields = [
+        'firstName',
+        'lastName',
+        'email',
+        'title',
+        'employmentType',
+        'startDate',
+        'department',
+    ];
+    const updateData: Record<string, unknown> = {};
+
+    for (const field of allowedFields) {
+        if (updates[field] !== undefined) {
+            updateData[field] = updates[field];
+        }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+        throw ApiError.badRequest('No fields provided to update');
+    }
+
+    const { company, employee } = await findEmployeeOrFail(req);
+
+    if (updateData.department !== undefined) {
+        updateData.department = await resolveCompanyDepartment(company._id, updateData.department);
+    }
+
+    employee.set(updateData);
+    await employee.save();
+
+    res.status(200).json(new ApiResponse(200, 'Employee updated successfully', employee));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/employees/{employeeId}/terminate:
+ *   post:
+ *     summary: Terminate an employee
+ *     tags: [Employee]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: >
+ *       End an employee's employment. The record is kept with a `terminated` status and no
+ *       longer counts towards the company headcount. Departments headed by the employee are
+ *       left without a head.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee.
+ *     requestBody:
+ *       required: false
+ *     responses:
+ *       200:
+ *         description: Employee terminated successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Employee'
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or employee not found.
+ *       409:
+ *         description: The employee is already terminated.
+ */
+export const terminateEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const { endDate, reason } = req.body ?? {};
+    const { employee } = await findEmployeeOrFail(req);
+
+    if (employee.status === 'terminated') {
+        throw ApiError.conflict('Employee is already terminated');
+    }
+
+    const end = endDate !== undefined ? new Date(endDate) : new Date();
+    employee.set({ status: 'terminated', endDate: end, terminationReason: reason });
+    await employee.save();
+    await Department.updateMany({ head: employee._id }, { $set: { head: null } });
+
+    res.status(200).json(new ApiResponse(200, 'Employee terminated successfully', employee));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/employees/{employeeId}:
+ *   delete:
+ *     summary: Delete an employee record
+ *     tags: [Employee]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: >
+ *       Permanently remove an employee record, e.g. one created by mistake. Departments headed
+ *       by the employee are left without a head and the employee is removed from projects.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee.
+ *     responses:
+ *       200:
+ *         description: Employee deleted successfully.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or employee not found.
+ */
+export const deleteEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const { employee } = await findEmployeeOrFail(req);
+
+    await Department.updateMany({ head: employee._id }, { $set: { head: null } });
+    await Project.updateMany({ members: employee._id }, { $pull: { members: employee._id } });
+    await employee.deleteOne();
+
+    res.status(200).json(new ApiResponse(200, 'Employee deleted successfully'));
+});
@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import {
+    DocumentNode,
+    execute,
+    getOperationAST,
+    GraphQLError,
+    GraphQLFormattedError,
+    parse,
+    specifiedRules,
+    validate,
+} from 'graphql';
+import schema from '../graphql/schema';
+import { createQueryLimitRule } from '../graphql/limits';
+import { ExtendedError, normalizeError } from '../middleware/errorHandler';
+import { ApiError, asyncHandler } from '../utils';
+
+/**
+ * Read the operation of a GraphQL request: the JSON body of a POST, or the
+ * query string of a GET (with `variables` as a JSON string)
+ */
+const readGraphQLRequest = (req: Request) => {
+    const source = req.method === 'GET' ? req.query : (req.body ?? {});
+    const { query, operationName } = source;
+    let { variables } = source;
+
+    if (typeof query !== 'string' || !query.trim()) {
+        throw ApiError.badRequest('query is required');
+    }
+    if (typeof variables === 'string') {
+        try {
+            variables = JSON.parse(variables);
+        } catch {
+            throw ApiError.badRequest('variables must be a JSON object');
+        }
+    }
+    if (
+        variables !== undefined &&
+        variables !== null &&
+        (typeof variables !== 'object' || Array.isArray(variables))
+    ) {
+        throw ApiError.badRequest('variables must be a JSON object');
+    }
+
+    return {
+        query,
+        variables: (variables ?? {}) as Record<string, unknown>,
+        operationName: typeof operationName === 'string' ? operationName : undefined,
+    };
+};
+
+/**
+ * Format a GraphQL error. Errors thrown by resolvers are mapped like REST
+ * errors: `extensions` holds the HTTP status the REST API would return, the
+ * error code and details, and unexpected errors are hidden in production.
+ */
+const formatGraphQLError = (error: GraphQLError): GraphQLFormattedError => {
+    const formatted = error.toJSON();
+    const original = error.originalError;
+    if (!original || original instanceof GraphQLError) return formatted;
+
+    const mapped = normalizeError(original as ExtendedError);
+    let message = mapped.message;
+    if (!mapped.isOperational) {
+        console.error('GraphQL resolver error:', original);
+        if (process.env.NODE_ENV !== 'development') {
+            message = 'Something went wrong on our end. Please try again later.';
+        }
+    }
+
+    return {
+        ...formatted,
+        message,
+        extensions: {
+            statusCode: mapped.isOperational ? (mapped.statusCode ?? 500) : 500,
+            ...(mapped.errorCode && { errorCode: mapped.errorCode }),
+            ...(mapped.isOperational && mapped.errors && { errors: mapped.errors }),
+        },
+    };
+};
+
+/**
+ * @swagger
+ * /graphql:
+ *   post:
+ *     summary: Run a GraphQL query or mutation
+ *     tags: [GraphQL]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Read companies with exactly the fields needed, including their departments, employees,
+ *       projects and analytics, in one request; create, update and delete companies. Each query
+ *       and mutation needs the permission of the matching REST endpoint (`company:read`,
+ *       `stats:read`, `company:create`, ...), and `email` and `revenue` need
+ *       `company:readSensitive`. Inputs are checked with the same rules as the REST endpoints.
+ *
+ *       Operations deeper than `GRAPHQL_MAX_DEPTH` levels (8 by default) or more complex than
+ *       `GRAPHQL_MAX_COMPLEXITY` (2000 by default; each field costs 1 and fields below a list
+ *       count once per item) are rejected before they run.
+ *
+ *       Responses follow the GraphQL specification: `data` and `errors`, not the REST envelope.
+ *       Errors of resolvers have `extensions.statusCode` set to the status the REST endpoint
+ *       would return, with `errorCode` and `errors` when available.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [query]
+ *             properties:
+ *               query:
+ *                 type: string
+ *                 example: "query($id: ID!) { company(id: $id) { name companyAge employeeRange projects(limit: 5) { items { name status } } } }"
+ *               variables:
+ *                 type: object
+ *               operationName:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: >
+ *           The result. Errors of single fields (e.g. a missing permission) are listed in
+ *           `errors` next to the other fields.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   nullable: true
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       message:
+ *                         type: string
+ *                       path:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       extensions:
+ *                         type: object
+ *                         properties:
+ *                           statusCode:
+ *                             type: integer
+ *                             example: 403
+ *                           errorCode:
+ *                             type: string
+ *                             example: PERMISSION_DENIED
+ *                           errors:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *       400:
+ *         description: >
+ *           Missing query, a syntax error, an invalid operation, invalid variables, or an
+ *           operation over the depth or complexity limit.
+ *       401:
+ *         description: Authentication required.
+ *   get:
+ *     summary: Run a GraphQL query
+ *     tags: [GraphQL]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: Same as `POST /graphql`, for queries only. Mutations must be sent with POST.
+ *     parameters:
+ *       - in: query
+ *         name: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: variables
+ *         schema:
+ *           type: string
+ *         description: Variables as a JSON object.
+ *       - in: query
+ *         name: operationName
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The result, as for `POST /graphql`.
+ *       400:
+ *         description: Invalid query, variables or operation.
+ *       401:
+ *         description: Authentication required.
+ *       405:
+ *         description: A mutation was sent with GET.
+ */
+export const executeGraphQL = asyncHandler(async (req: Request, res: Response) => {
+    const { query, variables, operationName } = readGraphQLRequest(req);
+
+    let document: DocumentNode;
+    try {
+        document = parse(query);
+    } catch (error) {
+        return res.status(400).json({ errors: [formatGraphQLError(error as GraphQLError)] });
+    }
+
+    const validationErrors = validate(schema, document, [
+        ...specifiedRules,
+        createQueryLimitRule(variables),
+    ]);
+    if (validationErrors.length > 0) {
+        return res.status(400).json({ errors: validationErrors.map(formatGraphQLError) });
+    }
+
+    const operation = getOperationAST(document, operationName);
+    if (req.method === 'GET' && operation?.operation !== 'query') {
+        throw ApiError.methodNotAllowed('Mutations must be sent with POST');
+    }
+
+    const result = await execute({
+        schema,
+        document,
+        variableValues: variables,
+        operationName,
+        contextValue: { req },
+    });
+
+    // Without data, the operation could not run at all (e.g. invalid variables)
+    return res.status('data' in result ? 200 : 400).json({
+        ...result,
+        ...(result.errors && { errors: result.errors.map(formatGraphQLError) }),
+    });
+});
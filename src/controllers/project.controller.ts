@@ -0,0 +1,532 @@
+import { Request, Response } from 'express';
+import { Project } from '../models/';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+import { findCompanyOrFail, resolveCompanyEmployees } from '../services/company.service';
+
+/**
+ * Load a project of the company or fail with 404
+ */
+const findProjectOrFail = async (req: Request) => {
+    const company = await findCompanyOrFail(req.params.id);
+
+    const project = await Project.findOne({ _id: req.params.projectId, company: company._id });
+    if (!project) {
+        throw ApiError.notFound('Project not found');
+    }
+    return { company, project };
+};
+
+/**
+ * Read `page` and `limit` from the query string, checked and defaulted by the route schema
+ */
+const parsePagination = (req: Request) => {
+    const page = Number(req.query.page);
+    const limit = Number(req.query.limit);
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+/**
+ * @swagger
+ * /companies/{id}/projects:
+ *   post:
+ *     summary: Create a project
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: Add a project to a company. Members must be active employees of the company.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       201:
+ *         description: Project created successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: The company is inactive, or members are not its active employees.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company not found.
+ *       409:
+ *         description: A project with this name already exists in the company.
+ */
+export const createProject = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const { name, code, description, status, startDate, endDate, budget, members } = req.body;
+
+    if (!company.isActive) {
+        throw ApiError.badRequest('Cannot create projects for an inactive company');
+    }
+
+    const memberIds =
+        members !== undefined ? await resolveCompanyEmployees(company._id, members) : [];
+
+    const project = await Project.create({
+        company: company._id,
+        name,
+        code,
+        description,
+        status,
+        startDate,
+        endDate,
+        budget,
+        members: memberIds,
+    });
+
+    res.status(201).json(new ApiResponse(201, 'Project created successfully', project));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/projects:
+ *   get:
+ *     summary: List projects of a company
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: Fetch a paginated list of a company's projects, most recently started first.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Comma-separated list of statuses to include.
+ *         example: "planned,active"
+ *       - in: query
+ *         name: member
+ *         schema:
+ *           type: string
+ *         description: Only projects this employee is a member of.
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of projects per page.
+ *     responses:
+ *       200:
+ *         description: A list of projects.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Project'
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company not found.
+ */
+export const getProjects = asyncHandler(async (req: Request, res: Response) => {
+    const company = await findCompanyOrFail(req.params.id);
+    const { status, member } = req.query;
+    const { page, limit, skip } = parsePagination(req);
+
+    const filters: Record<string, unknown> = { company: company._id };
+    if (status !== undefined) filters.status = { $in: status };
+    if (member !== undefined) filters.members = member;
+
+    const [projects, total] = await Promise.all([
+        Project.find(filters).sort({ startDate: -1, name: 1 }).skip(skip).limit(limit),
+        Project.countDocuments(filters),
+    ]);
+
+    res.status(200).json(
+        new ApiResponse(200, 'Projects fetched successfully', {
+            projects,
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+        })
+    );
+});
+
+/**
+ * @swagger
+ * /companies/{id}/projects/{projectId}:
+ *   get:
+ *     summary: Get a project by ID
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the project.
+ *     responses:
+ *       200:
+ *         description: The project, with its members populated.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       403:
+ *         description: Missing the company:read permission.
+ *       404:
+ *         description: Company or project not found.
+ */
+export const getProjectById = asyncHandler(async (req: Request, res: Response) => {
+    const { project } = await findProjectOrFail(req);
+    await project.populate('members', 'firstName lastName title email status');
+
+    res.status(200).json(new ApiResponse(200, 'Project fetched successfully', project));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/projects/{projectId}:
+ *   patch:
+ *     summary: Update a project
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: Update a project. Passing `members` replaces the whole member list.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the project.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Project updated successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: No fields provided, or members are not active employees of the company.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or project not found.
+ */
+export const updateProject = asyncHandler(async (req: Request, res: Response) => {
+    const updates = req.body;
+    const allowedFields = [
+        'name',
+        'code',
+        'description',
+        'status',
+        'startDate',
+        'endDate',
+        'budget',
+        'members',
+    ];
+    const updateData: Record<string, unknown> = {};
+
+    for (const field of allowedFields) {
+        if (updates[field] !== undefined) {
+            updateData[field] = updates[field];
+        }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+        throw ApiError.badRequest('No fields provided to update');
+    }
+
+    const { company, project } = await findProjectOrFail(req);
+
+    if (updateData.members !== undefined) {
+        updateData.members = await resolveCompanyEmployees(company._id, updateData.members);
+    }
+
+    project.set(updateData);
+    await project.save();
+
+    res.status(200).json(new ApiResponse(200, 'Project updated successfully', project));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/projects/{projectId}:
+ *   delete:
+ *     summary: Delete a project
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the project.
+ *     responses:
+ *       200:
+ *         description: Project deleted successfully.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or project not found.
+ */
+export const deleteProject = asyncHandler(async (req: Request, res: Response) => {
+    const { project } = await findProjectOrFail(req);
+    await project.deleteOne();
+
+    res.status(200).json(new ApiResponse(200, 'Project deleted successfully'));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/projects/{projectId}/members:
+ *   post:
+ *     summary: Add project members
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     description: Add employees to a project. Employees who are already members are ignored.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the project.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Members added successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Employees of another company, or employees who are not active.
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company or project not found.
+ */
+export const addProjectMembers = asyncHandler(async (req: Request, res: Response) => {
+    const { employeeIds } = req.body;
+    const { company, project } = await findProjectOrFail(req);
+    const memberIds = await resolveCompanyEmployees(company._id, employeeIds);
+
+    project.set({
+        members: [
+            ...project.members,
+            ...memberIds.filter(id => !project.members.some(member => member.equals(id))),
+        ],
+    });
+    await project.save();
+
+    res.status(200).json(new ApiResponse(200, 'Members added successfully', project));
+});
+
+/**
+ * @swagger
+ * /companies/{id}/projects/{projectId}/members/{employeeId}:
+ *   delete:
+ *     summary: Remove a project member
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:update]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the company.
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the project.
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee to remove.
+ *     responses:
+ *       200:
+ *         description: Member removed successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       403:
+ *         description: Missing the company:update permission.
+ *       404:
+ *         description: Company, project or member not found.
+ */
+export const removeProjectMember = asyncHandler(async (req: Request, res: Response) => {
+    const { project } = await findProjectOrFail(req);
+    const { employeeId } = req.params;
+
+    const remaining = project.members.filter(member => member.toString() !== employeeId);
+    if (remaining.length === project.members.length) {
+        throw ApiError.notFound('Employee is not a member of this project');
+    }
+
+    project.set({ members: remaining });
+    await project.save();
+
+    res.status(200).json(new ApiResponse(200, 'Member removed successfully', project));
+});
+
+/**
+ * @swagger
+ * /projects:
+ *   get:
+ *     summary: Search projects across companies
+ *     tags: [Project]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     x-permissions: [company:read]
+ *     description: >
+ *       Search the projects of every company. `q` matches words in the project name and
+ *       description. Each result includes the owning company's name and industry.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Words to search for in the name and description.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Comma-separated list of statuses to include.
+ *       - in: query
+ *         name: company
+ *         schema:
+ *           type: string
+ *         description: Restrict the search to one company.
+ *       - in: query
+ *         name: minBudget
+ *         schema:
+ *           type: number
+ *         description: Minimum budget.
+ *       - in: query
+ *         name: maxBudget
+ *         schema:
+ *           type: number
+ *         description: Maximum budget.
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of projects per page.
+ *     responses:
+ *       200:
+ *         description: Matching projects.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Project'
+ *       403:
+ *         description: Missing the company:read permission.
+ */
+export const searchProjects = asyncHandler(async (req: Request, res: Response) => {
+    const { q, status, company, minBudget, maxBudget } = req.query;
+    const { page, limit, skip } = parsePagination(req);
+
+    const filters: Record<string, unknown> = {};
+    if (typeof q === 'string' && q.trim()) filters.$text = { $search: q.trim() };
+    if (status !== undefined) filters.status = { $in: status };
+    if (company !== undefined) filters.company = company;
+
+    const budget: Record<string, number> = {};
+    if (minBudget !== undefined) budget.$gte = Number(minBudget);
+    if (maxBudget !== undefined) budget.$lte = Number(maxBudget);
+    if (Object.keys(budget).length > 0) filters.budget = budget;
+
+    const [projects, total] = await Promise.all([
+        Project.find(filters)
+            .populate('company', 'name industry')
+            .sort({ startDate: -1, name: 1 })
+            .skip(skip)
+            .limit(limit),
+        Project.countDocuments(filters),
+    ]);
+
+    res.status(200).json(
+        new ApiResponse(200, 'Projects fetched successfully', {
+            projects,
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+        })
+    );
+});
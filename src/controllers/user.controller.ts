@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { RefreshToken, User } from '../models/';
+import { UserRole } from '../models/user.model';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+
+/**
+ * @swagger
+ * /users/me:
+ *   get:
+ *     summary: Get the current user
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Fetch the profile of the authenticated user.
+ *     responses:
+ *       200:
+ *         description: The authenticated user's profile.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Authentication required.
+ */
+export const getCurrentUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+    res.status(200).json(
+        new ApiResponse(200, 'User fetched successfully', user.getPublicProfile())
+    );
+});
+
+/**
+ * @swagger
+ * /users:
+ *   get:
+ *     summary: List users
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [user:read]
+ *     description: Fetch users, optionally filtered by role or active status.
+ *     parameters:
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [admin, manager, employee]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: A list of users.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Authentication required.
+ *       403:
+ *         description: Missing the user:read permission.
+ */
+export const getAllUsers = asyncHandler(async (req: Request, res: Response) => {
+    const { role, isActive } = req.query;
+    const filters: Record<string, unknown> = {};
+
+    if (role !== undefined) filters.role = role;
+    if (isActive !== undefined) filters.isActive = isActive;
+
+    const users = await User.find(filters).sort({ createdAt: -1 });
+    res.status(200).json(new ApiResponse(200, 'Users fetched successfully', users));
+});
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   patch:
+ *     summary: Change a user's role or status
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [user:manage]
+ *     description: >
+ *       Assign a role or (de)activate a user account. Deactivating a user revokes all of
+ *       their refresh tokens. Admins cannot change their own role or status.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: User updated successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         description: No fields provided to update, or the user is the caller.
+ *       403:
+ *         description: Missing the user:manage permission.
+ *       404:
+ *         description: User not found.
+ */
+export const updateUser = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { role, isActive } = req.body;
+    const updateData: { role?: UserRole; isActive?: boolean } = {};
+
+    if (role !== undefined) updateData.role = role;
+    if (isActive !== undefined) updateData.isActive = isActive;
+
+    if (Object.keys(updateData).length === 0) {
+        throw ApiError.badRequest('No fields provided to update');
+    }
+
+    if (req.user!._id.equals(id)) {
+        throw ApiError.badRequest('You cannot change your own role or status');
+    }
+
+    const user = await User.findByIdAndUpdate(id, updateData, { new: true, runValidators: true });
+    if (!user) {
+        throw ApiError.notFound('User not found');
+    }
+
+    if (updateData.isActive === false) {
+        await RefreshToken.revokeAllForUser(user._id, 'User deactivated');
+    }
+
+    res.status(200).json(new ApiResponse(200, 'User updated successfully', user));
+});
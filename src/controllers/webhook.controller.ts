@@ -0,0 +1,417 @@
+import { Request, Response } from 'express';
+import { Webhook, WebhookDelivery } from '../models/';
+import { WebhookEvent } from '../models/webhook.model';
+import { ApiError, ApiResponse, asyncHandler } from '../utils';
+import { replayDelivery } from '../services/webhook.service';
+
+// Fields that can be changed after a webhook is created
+const WEBHOOK_UPDATE_FIELDS = [
+    'name',
+    'url',
+    'events',
+    'secret',
+    'description',
+    'isActive',
+] as const;
+
+/**
+ * Return the events of a subscription without duplicates
+ */
+const uniqueEvents = (events: WebhookEvent[]): WebhookEvent[] => Array.from(new Set(events));
+
+/**
+ * Load a webhook by ID or fail with 404
+ */
+const findWebhookOrFail = async (id: string) => {
+    const webhook = await Webhook.findById(id);
+    if (!webhook) {
+        throw ApiError.notFound('Webhook not found');
+    }
+    return webhook;
+};
+
+/**
+ * Run a paginated delivery query, newest deliveries first
+ */
+const findDeliveryPage = async (req: Request, filters: Record<string, unknown>) => {
+    // Checked, converted and defaulted by the route schema
+    const page = Number(req.query.page);
+    const limit = Number(req.query.limit);
+
+    const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(filters)
+            .select('-lockedUntil')
+            .sort({ createdAt: -1, _id: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        WebhookDelivery.countDocuments(filters),
+    ]);
+
+    return { deliveries, total, page, totalPages: Math.ceil(total / limit) };
+};
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     summary: Create a webhook subscription
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: |
+ *       Subscribe a URL to company lifecycle events. Each event is POSTed as JSON with the
+ *       headers `X-Webhook-Event`, `X-Webhook-Event-Id`, `X-Webhook-Delivery` and
+ *       `X-Webhook-Signature: t=<unix seconds>,v1=<signature>`, where the signature is the hex
+ *       HMAC-SHA256 of `<t>.<body>` keyed with the secret.
+ *
+ *       Without a `secret`, one is generated. The secret is only returned in this response.
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       201:
+ *         description: Webhook created successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                   example: "whsec_9xQ..."
+ *                 webhook:
+ *                   $ref: '#/components/schemas/Webhook'
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ */
+export const createWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { name, url, events, secret, description } = req.body;
+
+    const signingSecret = secret ?? Webhook.generateSecret();
+    const webhook = await Webhook.create({
+        name,
+        url,
+        events: uniqueEvents(events),
+        secret: signingSecret,
+        description,
+        createdBy: req.user!._id,
+    });
+    // The secret is returned next to the webhook, only this once
+    webhook.set('secret', undefined);
+
+    res.status(201).json(
+        new ApiResponse(201, 'Webhook created successfully', { secret: signingSecret, webhook })
+    );
+});
+
+/**
+ * @swagger
+ * /webhooks:
+ *   get:
+ *     summary: List webhook subscriptions
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: Fetch every webhook subscription (without secrets).
+ *     responses:
+ *       200:
+ *         description: A list of webhooks.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Webhook'
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ */
+export const getAllWebhooks = asyncHandler(async (req: Request, res: Response) => {
+    const webhooks = await Webhook.find()
+        .populate('createdBy', 'firstName lastName email')
+        .sort({ createdAt: -1 });
+
+    res.status(200).json(new ApiResponse(200, 'Webhooks fetched successfully', webhooks));
+});
+
+/**
+ * @swagger
+ * /webhooks/dead-letters:
+ *   get:
+ *     summary: List dead-lettered deliveries
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: >
+ *       Deliveries of every webhook that failed on each attempt, most recent first. Replay them
+ *       with `POST /webhooks/{id}/deliveries/{deliveryId}/replay`.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Dead-lettered deliveries.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookDelivery'
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ */
+export const getDeadLetters = asyncHandler(async (req: Request, res: Response) => {
+    const deliveries = await findDeliveryPage(req, { status: 'dead' });
+
+    res.status(200).json(
+        new ApiResponse(200, 'Dead-lettered deliveries fetched successfully', deliveries)
+    );
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook subscription
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The webhook.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ *       404:
+ *         description: Webhook not found.
+ */
+export const getWebhookById = asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await findWebhookOrFail(req.params.id);
+
+    res.status(200).json(new ApiResponse(200, 'Webhook fetched successfully', webhook));
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   patch:
+ *     summary: Update a webhook subscription
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: >
+ *       Change the URL, events, secret, description or status of a webhook. Setting `isActive`
+ *       to false pauses it: no new events are queued and pending retries wait until it is active
+ *       again.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: No fields provided to update.
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ *       404:
+ *         description: Webhook not found.
+ */
+export const updateWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await findWebhookOrFail(req.params.id);
+    const updateData: Record<string, unknown> = {};
+
+    for (const field of WEBHOOK_UPDATE_FIELDS) {
+        if (req.body[field] !== undefined) {
+            updateData[field] = req.body[field];
+        }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+        throw ApiError.badRequest('No fields provided to update', [
+            `Fields that can be updated: ${WEBHOOK_UPDATE_FIELDS.join(', ')}`,
+        ]);
+    }
+
+    if (updateData.events !== undefined) {
+        updateData.events = uniqueEvents(updateData.events as WebhookEvent[]);
+    }
+
+    webhook.set(updateData);
+    await webhook.save();
+    webhook.set('secret', undefined);
+
+    res.status(200).json(new ApiResponse(200, 'Webhook updated successfully', webhook));
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook subscription
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: Delete a webhook together with its delivery log. Pending deliveries are dropped.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully.
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ *       404:
+ *         description: Webhook not found.
+ */
+export const deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await findWebhookOrFail(req.params.id);
+
+    await webhook.deleteOne();
+    await WebhookDelivery.deleteMany({ webhook: webhook._id });
+
+    res.status(200).json(new ApiResponse(200, 'Webhook deleted successfully', null));
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Get the delivery log of a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: Deliveries of a webhook with every attempt made, newest first.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, succeeded, dead]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: The webhook's deliveries.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookDelivery'
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ *       404:
+ *         description: Webhook not found.
+ */
+export const getWebhookDeliveries = asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await findWebhookOrFail(req.params.id);
+    const deliveries = await findDeliveryPage(req, {
+        webhook: webhook._id,
+        ...(req.query.status !== undefined && { status: req.query.status }),
+    });
+
+    res.status(200).json(
+        new ApiResponse(200, 'Webhook deliveries fetched successfully', deliveries)
+    );
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries/{deliveryId}/replay:
+ *   post:
+ *     summary: Replay a webhook delivery
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     x-permissions: [webhook:manage]
+ *     description: >
+ *       Send the payload of a succeeded or dead-lettered delivery again, as a new delivery with
+ *       the same event ID and a fresh set of attempts. The original delivery is kept.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Replay queued.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       403:
+ *         description: Missing the webhook:manage permission.
+ *       404:
+ *         description: Webhook or delivery not found.
+ *       409:
+ *         description: The delivery is still pending.
+ */
+export const replayWebhookDelivery = asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await findWebhookOrFail(req.params.id);
+    const { deliveryId } = req.params;
+
+    const delivery = await WebhookDelivery.findOne({ _id: deliveryId, webhook: webhook._id });
+    if (!delivery) {
+        throw ApiError.notFound('Delivery not found');
+    }
+    if (delivery.status === 'pending') {
+        throw ApiError.conflict('Delivery is still pending');
+    }
+
+    const replay = await replayDelivery(delivery);
+
+    res.status(202).json(new ApiResponse(202, 'Delivery replay queued', replay));
+});
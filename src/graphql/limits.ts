@@ -0,0 +1,184 @@
+import {
+    ASTVisitor,
+    getNamedType,
+    getNullableType,
+    GraphQLError,
+    isListType,
+    isObjectType,
+    GraphQLObjectType,
+    Kind,
+    SelectionSetNode,
+    ValidationContext,
+    ValidationRule,
+    ValueNode,
+} from 'graphql';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../utils/pagination';
+
+/**
+ * GraphQL Query Limits
+ *
+ * A single GraphQL query can ask for a company, its projects, their members,
+ * their departments and so on, so queries are measured before they run:
+ *
+ * - Depth: the number of nested fields, at most `GRAPHQL_MAX_DEPTH`.
+ * - Complexity: every field costs 1, and the fields below a list count once
+ *   per item it may return (its `pageSize` or `limit` argument, or the default
+ *   page size). The total is at most `GRAPHQL_MAX_COMPLEXITY`.
+ *
+ * Introspection fields (`__schema`, `__type`, ...) are not counted.
+ */
+
+const DEFAULT_MAX_DEPTH = 8;
+const DEFAULT_MAX_COMPLEXITY = 2000;
+
+// Arguments holding the number of items a list field returns
+const LIST_SIZE_ARGUMENTS = ['pageSize', 'limit'];
+
+/**
+ * Read a positive integer limit from the environment
+ */
+const readLimit = (value: string | undefined, fallback: number): number => {
+    const limit = parseInt(value || '', 10);
+    return Number.isFinite(limit) && limit >= 1 ? limit : fallback;
+};
+
+const getMaxQueryDepth = (): number => readLimit(process.env.GRAPHQL_MAX_DEPTH, DEFAULT_MAX_DEPTH);
+
+const getMaxQueryComplexity = (): number =>
+    readLimit(process.env.GRAPHQL_MAX_COMPLEXITY, DEFAULT_MAX_COMPLEXITY);
+
+interface IQueryMeasure {
+    depth: number;
+    complexity: number;
+}
+
+/**
+ * Measure a selection set of fields of `parentType`. Fragments are measured
+ * where they are spread; a fragment spread inside itself is skipped (the
+ * spec rules report the cycle).
+ */
+const measureSelectionSet = (
+    context: ValidationContext,
+    variables: Record<string, unknown>,
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLObjectType,
+    fragments: Set<string>
+): IQueryMeasure => {
+    const total: IQueryMeasure = { depth: 0, complexity: 0 };
+
+    for (const selection of selectionSet.selections) {
+        let measure: IQueryMeasure = { depth: 0, complexity: 0 };
+
+        if (selection.kind === Kind.FIELD) {
+            if (selection.name.value.startsWith('__')) continue;
+
+            const field = parentType.getFields()[selection.name.value];
+            // Unknown fields are reported by the spec rules
+            if (!field) continue;
+
+            const childType = getNamedType(field.type);
+            const child =
+                selection.selectionSet && isObjectType(childType)
+                    ? measureSelectionSet(
+                          context,
+                          variables,
+                          selection.selectionSet,
+                          childType,
+                          fragments
+                      )
+                    : { depth: 0, complexity: 0 };
+
+            const sizeArgument = selection.arguments?.find(argument =>
+                LIST_SIZE_ARGUMENTS.includes(argument.name.value)
+            );
+            const isList = isListType(getNullableType(field.type));
+            const items = sizeArgument || isList ? readListSize(sizeArgument?.value, variables) : 1;
+
+            measure = { depth: child.depth + 1, complexity: 1 + items * child.complexity };
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+            const typeName = selection.typeCondition?.name.value;
+            const type = typeName ? context.getSchema().getType(typeName) : parentType;
+            if (!isObjectType(type)) continue;
+            measure = measureSelectionSet(
+                context,
+                variables,
+                selection.selectionSet,
+                type,
+                fragments
+            );
+        } else {
+            const name = selection.name.value;
+            const fragment = context.getFragment(name);
+            const type = fragment && context.getSchema().getType(fragment.typeCondition.name.value);
+            if (!fragment || !isObjectType(type) || fragments.has(name)) continue;
+            measure = measureSelectionSet(
+                context,
+                variables,
+                fragment.selectionSet,
+                type,
+                new Set([...fragments, name])
+            );
+        }
+
+        total.depth = Math.max(total.depth, measure.depth);
+        total.complexity += measure.complexity;
+    }
+
+    return total;
+};
+
+/**
+ * Number of items a list field may return, from its size argument
+ */
+const readListSize = (value: ValueNode | undefined, variables: Record<string, unknown>): number => {
+    let size: unknown = DEFAULT_PAGE_SIZE;
+    if (value?.kind === Kind.INT) size = Number(value.value);
+    if (value?.kind === Kind.VARIABLE) size = variables[value.name.value] ?? DEFAULT_PAGE_SIZE;
+
+    return typeof size === 'number' && Number.isInteger(size) && size >= 1
+        ? Math.min(size, MAX_PAGE_SIZE)
+        : DEFAULT_PAGE_SIZE;
+};
+
+/**
+ * Validation rule rejecting operations deeper or more complex than allowed.
+ * List sizes passed as variables are read from `variables`.
+ */
+const createQueryLimitRule =
+    (variables: Record<string, unknown> = {}): ValidationRule =>
+    (context: ValidationContext): ASTVisitor => ({
+        OperationDefinition(operation) {
+            const rootType = context.getSchema().getRootType(operation.operation);
+            if (!rootType) return;
+
+            const { depth, complexity } = measureSelectionSet(
+                context,
+                variables,
+                operation.selectionSet,
+                rootType,
+                new Set()
+            );
+
+            const maxDepth = getMaxQueryDepth();
+            if (depth > maxDepth) {
+                context.reportError(
+                    new GraphQLError(`Query depth of ${depth} exceeds the maximum of ${maxDepth}`, {
+                        nodes: [operation],
+                        extensions: { code: 'QUERY_TOO_DEEP' },
+                    })
+                );
+            }
+
+            const maxComplexity = getMaxQueryComplexity();
+            if (complexity > maxComplexity) {
+                context.reportError(
+                    new GraphQLError(
+                        `Query complexity of ${complexity} exceeds the maximum of ${maxComplexity}`,
+                        { nodes: [operation], extensions: { code: 'QUERY_TOO_COMPLEX' } }
+                    )
+                );
+            }
+        },
+    });
+
+export { IQueryMeasure, getMaxQueryDepth, getMaxQueryComplexity, createQueryLimitRule };
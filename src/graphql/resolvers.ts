@@ -0,0 +1,317 @@
+import { Request } from 'express';
+import { FilterQuery, Types } from 'mongoose';
+import { Company, Department, Employee, Project } from '../models';
+import type {
+    ICompanyDocument,
+    IDepartmentDocument,
+    IEmployeeDocument,
+    IProjectDocument,
+} from '../models';
+import { employeeStatusEnum, employmentTypeEnum } from '../models/employee.model';
+import type { EmployeeStatus, EmploymentType } from '../models/employee.model';
+import { projectStatusEnum } from '../models/project.model';
+import type { ProjectStatus } from '../models/project.model';
+import { Permission } from '../configs/permissions';
+import { getPermissionError } from '../middleware/auth.middleware';
+import { paginate } from '../utils';
+import { getAuditContext } from '../services/audit.service';
+import {
+    COMPANY_SORT_FIELDS,
+    createCompanyRecord,
+    deleteCompanyRecord,
+    findCompanyOrFail,
+    pickCompanyUpdates,
+    resolveCompanyDepartment,
+    updateCompanyRecord,
+} from '../services/company.service';
+import {
+    parseCompanyFilter,
+    parseSearchText,
+    searchCompaniesByRelevance,
+} from '../services/companySearch.service';
+import {
+    getActivityRatio,
+    getEmployeeHistogram,
+    getFoundedPerDecade,
+    getIndustryBreakdown,
+    getLocationLeaderboard,
+    getRevenueDistribution,
+    parseLocationLimit,
+} from '../services/companyAnalytics.service';
+import { getPurgeableAt } from '../services/companyTrash.service';
+import { ApiError } from '../utils/apiResponse';
+
+/**
+ * GraphQL Resolvers
+ *
+ * Resolvers check permissions like `authorize()` does for the matching REST
+ * routes and call the same services, so validation, side effects (audit
+ * trail, suggestions, webhooks) and errors are the same over both APIs.
+ * Fields without a resolver are read from the document as they are.
+ */
+
+/**
+ * Context of every resolver: the HTTP request, already authenticated
+ */
+interface IGraphQLContext {
+    req: Request;
+}
+
+type Args = Record<string, unknown>;
+
+type Resolver<TSource = unknown> = (
+    source: TSource,
+    args: Args,
+    context: IGraphQLContext
+) => unknown;
+
+// A company document, or a plain company returned by the relevance search
+type CompanySource = Pick<ICompanyDocument, '_id' | 'email' | 'revenue'>;
+
+// Fields selected by the relevance search, so every company field can be queried
+const COMPANY_SEARCH_FIELDS = Object.keys(Company.schema.paths)
+    .filter(path => !['_id', '__v', 'deletedAt', 'deletedBy'].includes(path))
+    .join(' ');
+
+/**
+ * Fail with the error `authorize()` would return when a permission is missing
+ */
+const requirePermissions = (req: Request, ...permissions: Permission[]): void => {
+    const error = getPermissionError(req, permissions);
+    if (error) throw error;
+};
+
+/**
+ * Arguments that were given, as a query string would hold them
+ */
+const toQuery = (args: Args): Request['query'] =>
+    Object.fromEntries(
+        Object.entries(args).filter(([, value]) => value !== undefined && value !== null)
+    ) as Request['query'];
+
+/**
+ * A view of the request with other query parameters, for helpers that read
+ * them from the request (pagination)
+ */
+const withQuery = (req: Request, query: Request['query']): Request =>
+    Object.create(req, { query: { value: query, enumerable: true } });
+
+/**
+ * Build the company filter from `filter` (the JSON form of the search
+ * filters) and an optional full-text `q`
+ */
+const buildCompanyFilter = (args: Args): FilterQuery<ICompanyDocument> => {
+    const filter = args.filter ?? {};
+    if (typeof filter !== 'object' || Array.isArray(filter)) {
+        throw ApiError.badRequest('filter must be an object');
+    }
+    return parseCompanyFilter(toQuery({ ...filter, q: args.q }), []);
+};
+
+/**
+ * Page and page size of nested lists, read like the REST `page` and `limit`
+ */
+const parseNestedPage = (args: Args) => {
+    const page = Math.max(1, Number(args.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(args.limit) || 20));
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+const Query: Record<string, Resolver> = {
+    company: (_source, { id }, { req }) => {
+        requirePermissions(req, 'company:read');
+        return Company.findById(id);
+    },
+
+    companies: (_source, args, { req }) => {
+        requirePermissions(req, 'company:read');
+        const { filter, ...pagination } = args;
+
+        return paginate(
+            withQuery(req, toQuery(pagination)),
+            Company,
+            buildCompanyFilter({ filter }),
+            {
+                sortFields: COMPANY_SORT_FIELDS,
+                defaultSort: '-createdAt',
+            }
+        );
+    },
+
+    searchCompanies: (_source, args, { req }) => {
+        requirePermissions(req, 'company:read');
+        const { q, filter, ...pagination } = args;
+
+        return searchCompaniesByRelevance(
+            withQuery(req, toQuery(pagination)),
+            parseSearchText(q),
+            buildCompanyFilter({ filter }),
+            COMPANY_SEARCH_FIELDS
+        );
+    },
+
+    companyStats: (_source, args, { req }) => {
+        requirePermissions(req, 'stats:read');
+        return { filter: buildCompanyFilter(args) };
+    },
+};
+
+const Mutation: Record<string, Resolver> = {
+    createCompany: (_source, { input }, { req }) => {
+        requirePermissions(req, 'company:create');
+        return createCompanyRecord({ ...(input as Args) }, getAuditContext(req));
+    },
+
+    updateCompany: async (_source, { id, input }, { req }) => {
+        requirePermissions(req, 'company:update');
+        const updateData = pickCompanyUpdates({ ...(input as Args) });
+        const company = await findCompanyOrFail(String(id));
+
+        return updateCompanyRecord(company, updateData, getAuditContext(req));
+    },
+
+    deleteCompany: async (_source, { id }, { req }) => {
+        requirePermissions(req, 'company:delete');
+        const company = await findCompanyOrFail(String(id));
+        await deleteCompanyRecord(company, getAuditContext(req), req.user?._id ?? null);
+
+        return {
+            id: company._id,
+            deletedAt: company.deletedAt,
+            purgeableAt: getPurgeableAt(company),
+        };
+    },
+};
+
+const CompanyResolvers: Record<string, Resolver<CompanySource>> = {
+    email: (company, _args, { req }) => {
+        requirePermissions(req, 'company:readSensitive');
+        return company.email;
+    },
+
+    revenue: (company, _args, { req }) => {
+        requirePermissions(req, 'company:readSensitive');
+        return company.revenue;
+    },
+
+    departments: async (company, args) => {
+        const { page, limit, skip } = parseNestedPage(args);
+        const filters: Record<string, unknown> = { company: company._id };
+        if (typeof args.isActive === 'boolean') filters.isActive = args.isActive;
+
+        const [items, total] = await Promise.all([
+            Department.find(filters).sort({ name: 1 }).skip(skip).limit(limit),
+            Department.countDocuments(filters),
+        ]);
+        return { items, total, page, totalPages: Math.ceil(total / limit) };
+    },
+
+    employeeRecords: async (company, args) => {
+        const { status, employmentType, department } = args;
+        const { page, limit, skip } = parseNestedPage(args);
+        const filters: Record<string, unknown> = { company: company._id };
+
+        if (status !== undefined && status !== null) {
+            if (!employeeStatusEnum.includes(status as EmployeeStatus)) {
+                throw ApiError.badRequest(
+                    `Invalid status. Allowed values are: ${employeeStatusEnum.join(', ')}`
+                );
+            }
+            filters.status = status;
+        }
+
+        if (employmentType !== undefined && employmentType !== null) {
+            if (!employmentTypeEnum.includes(employmentType as EmploymentType)) {
+                throw ApiError.badRequest(
+                    `Invalid employment type. Allowed values are: ${employmentTypeEnum.join(', ')}`
+                );
+            }
+            filters.employmentType = employmentType;
+        }
+
+        if (department !== undefined) {
+            filters.department = await resolveCompanyDepartment(company._id, department);
+        }
+
+        const [items, total] = await Promise.all([
+            Employee.find(filters).sort({ lastName: 1, firstName: 1 }).skip(skip).limit(limit),
+            Employee.countDocuments(filters),
+        ]);
+        return { items, total, page, totalPages: Math.ceil(total / limit) };
+    },
+
+    projects: async (company, args) => {
+        const { page, limit, skip } = parseNestedPage(args);
+        const filters: Record<string, unknown> = { company: company._id };
+
+        if (args.status !== undefined && args.status !== null) {
+            const statuses = String(args.status)
+                .split(',')
+                .map(status => status.trim())
+                .filter(Boolean);
+            if (
+                statuses.length === 0 ||
+                statuses.some(status => !projectStatusEnum.includes(status as ProjectStatus))
+            ) {
+                throw ApiError.badRequest(
+                    `Invalid status. Allowed values are: ${projectStatusEnum.join(', ')}`
+                );
+            }
+            filters.status = { $in: statuses };
+        }
+
+        const [items, total] = await Promise.all([
+            Project.find(filters).sort({ startDate: -1, name: 1 }).skip(skip).limit(limit),
+            Project.countDocuments(filters),
+        ]);
+        return { items, total, page, totalPages: Math.ceil(total / limit) };
+    },
+
+    projectSummary: company => Project.getStatusSummary(company._id),
+};
+
+const DepartmentResolvers: Record<string, Resolver<IDepartmentDocument>> = {
+    head: department => (department.head ? Employee.findById(department.head) : null),
+    parent: department => (department.parent ? Department.findById(department.parent) : null),
+};
+
+const EmployeeResolvers: Record<string, Resolver<IEmployeeDocument>> = {
+    department: employee => (employee.department ? Department.findById(employee.department) : null),
+};
+
+const ProjectResolvers: Record<string, Resolver<IProjectDocument>> = {
+    members: project =>
+        Employee.find({ _id: { $in: project.members as Types.ObjectId[] } }).sort({
+            lastName: 1,
+            firstName: 1,
+        }),
+};
+
+const CompanyStatsResolvers: Record<string, Resolver<{ filter: FilterQuery<ICompanyDocument> }>> = {
+    total: async ({ filter }) => (await getActivityRatio(filter)).total,
+    industries: ({ filter }) => getIndustryBreakdown(filter),
+    revenue: ({ filter }, _args, { req }) => {
+        requirePermissions(req, 'company:readSensitive');
+        return getRevenueDistribution(filter);
+    },
+    employees: ({ filter }) => getEmployeeHistogram(filter),
+    founded: ({ filter }) => getFoundedPerDecade(filter),
+    locations: ({ filter }, { limit }) =>
+        getLocationLeaderboard(filter, parseLocationLimit(limit ?? undefined)),
+    activity: ({ filter }) => getActivityRatio(filter),
+};
+
+/**
+ * Resolvers of each type, by field
+ */
+const resolvers: Record<string, Record<string, Resolver<never>>> = {
+    Query,
+    Mutation,
+    Company: CompanyResolvers,
+    Department: DepartmentResolvers,
+    Employee: EmployeeResolvers,
+    Project: ProjectResolvers,
+    CompanyStats: CompanyStatsResolvers,
+};
+
+export { IGraphQLContext, Resolver, resolvers };
@@ -0,0 +1,38 @@
+import { buildSchema, GraphQLFieldResolver, GraphQLSchema, isObjectType } from 'graphql';
+import typeDefs from './typeDefs';
+import { IGraphQLContext, resolvers } from './resolvers';
+
+/**
+ * Build the executable schema: the type definitions with the resolvers
+ * attached to their fields. Fails on startup when a resolver does not match
+ * a field, so the two cannot drift apart silently.
+ */
+const buildCompanySchema = (): GraphQLSchema => {
+    const schema = buildSchema(typeDefs);
+
+    for (const [typeName, fieldResolvers] of Object.entries(resolvers)) {
+        const type = schema.getType(typeName);
+        if (!isObjectType(type)) {
+            throw new Error(`GraphQL resolvers defined for unknown type ${typeName}`);
+        }
+
+        const fields = type.getFields();
+        for (const [fieldName, resolve] of Object.entries(fieldResolvers)) {
+            if (!fields[fieldName]) {
+                throw new Error(
+                    `GraphQL resolver defined for unknown field ${typeName}.${fieldName}`
+                );
+            }
+            fields[fieldName].resolve = resolve as unknown as GraphQLFieldResolver<
+                unknown,
+                IGraphQLContext
+            >;
+        }
+    }
+
+    return schema;
+};
+
+const schema = buildCompanySchema();
+
+export default schema;
@@ -0,0 +1,276 @@
+/**
+ * GraphQL Type Definitions
+ *
+ * The schema served at `/graphql`. Companies can be read with their
+ * departments, employees and projects in one request, and created, updated
+ * and deleted with the same rules as the REST endpoints.
+ *
+ * `JSON` values are passed through as they are, and `DateTime` values are
+ * serialized as ISO 8601 strings. `filter` arguments take the JSON form of
+ * the search filters, e.g. `{ "employees": { "gte": 50 }, "industry": "Technology" }`.
+ */
+const typeDefs = /* GraphQL */ `
+    scalar JSON
+    scalar DateTime
+
+    type Query {
+        "A company by ID, or null when it does not exist. Needs company:read."
+        company(id: ID!): Company
+
+        "A page of companies matching the filter. Needs company:read."
+        companies(
+            filter: JSON
+            page: Int
+            pageSize: Int
+            sort: String = "-createdAt"
+            "Use cursor pagination; pass an empty string for the first page."
+            cursor: String
+        ): CompanyPage!
+
+        "Full-text search ordered by relevance. Needs company:read."
+        searchCompanies(q: String!, filter: JSON, page: Int, pageSize: Int): CompanyPage!
+
+        "Analytics of the companies matching the filter. Needs stats:read."
+        companyStats(q: String, filter: JSON): CompanyStats!
+    }
+
+    type Mutation {
+        "Create a company. Needs company:create."
+        createCompany(input: CompanyInput!): Company!
+
+        "Update a company. Needs company:update."
+        updateCompany(id: ID!, input: CompanyUpdateInput!): Company!
+
+        "Move a company to the trash. Needs company:delete."
+        deleteCompany(id: ID!): DeletedCompany!
+    }
+
+    type Company {
+        id: ID!
+        name: String!
+        description: String
+        industry: String!
+        foundedYear: Int
+        location: [String!]!
+        website: String
+        "Needs company:readSensitive."
+        email: String
+        phone: String
+        employees: Int
+        autoHeadcount: Boolean!
+        isActive: Boolean!
+        logo: String
+        headquarters: String
+        "Needs company:readSensitive."
+        revenue: Float
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        "Years since the company was founded, null when unknown."
+        companyAge: Int
+        employeeRange: String!
+        "Relevance score (searchCompanies only)."
+        score: Float
+        "Matching name and description snippet (searchCompanies only)."
+        highlights: SearchHighlights
+        departments(isActive: Boolean, page: Int, limit: Int): DepartmentPage!
+        "Employee records (\`employees\` is the headcount)."
+        employeeRecords(
+            status: String
+            employmentType: String
+            department: ID
+            page: Int
+            limit: Int
+        ): EmployeePage!
+        projects(status: String, page: Int, limit: Int): ProjectPage!
+        projectSummary: ProjectSummary!
+    }
+
+    type SearchHighlights {
+        name: String
+        description: String
+    }
+
+    type CompanyPage {
+        items: [Company!]!
+        total: Int!
+        "Null in cursor mode."
+        page: Int
+        pageSize: Int!
+        totalPages: Int!
+        sort: String!
+        nextCursor: String
+    }
+
+    type DeletedCompany {
+        id: ID!
+        deletedAt: DateTime!
+        purgeableAt: DateTime!
+    }
+
+    input CompanyInput {
+        name: String!
+        description: String
+        industry: String!
+        foundedYear: Int
+        location: [String!]!
+        website: String
+        email: String!
+        phone: String
+        employees: Int
+        autoHeadcount: Boolean
+        logo: String
+        headquarters: String
+        revenue: Float
+    }
+
+    input CompanyUpdateInput {
+        logo: String
+        description: String
+        location: [String!]
+        phone: String
+        isActive: Boolean
+        autoHeadcount: Boolean
+    }
+
+    type Department {
+        id: ID!
+        name: String!
+        code: String
+        description: String
+        budget: Float
+        isActive: Boolean!
+        head: Employee
+        parent: Department
+        createdAt: DateTime!
+        updatedAt: DateTime!
+    }
+
+    type DepartmentPage {
+        items: [Department!]!
+        total: Int!
+        page: Int!
+        totalPages: Int!
+    }
+
+    type Employee {
+        id: ID!
+        firstName: String!
+        lastName: String!
+        email: String
+        title: String!
+        employmentType: String!
+        status: String!
+        startDate: DateTime!
+        endDate: DateTime
+        terminationReason: String
+        department: Department
+        createdAt: DateTime!
+        updatedAt: DateTime!
+    }
+
+    type EmployeePage {
+        items: [Employee!]!
+        total: Int!
+        page: Int!
+        totalPages: Int!
+    }
+
+    type Project {
+        id: ID!
+        name: String!
+        code: String
+        description: String
+        status: String!
+        startDate: DateTime
+        endDate: DateTime
+        budget: Float
+        members: [Employee!]!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+    }
+
+    type ProjectPage {
+        items: [Project!]!
+        total: Int!
+        page: Int!
+        totalPages: Int!
+    }
+
+    type ProjectSummary {
+        total: Int!
+        "Number of projects per status."
+        byStatus: JSON!
+    }
+
+    type CompanyStats {
+        total: Int!
+        industries: [IndustryBreakdown!]!
+        "Needs company:readSensitive."
+        revenue: RevenueDistribution
+        employees: [EmployeeRangeCount!]!
+        founded: FoundedPerDecade!
+        locations(limit: Int = 10): [LocationRank!]!
+        activity: ActivityRatio!
+    }
+
+    type IndustryBreakdown {
+        industry: String!
+        count: Int!
+        share: Float!
+        activeCount: Int!
+        averageEmployees: Float
+        totalEmployees: Int!
+    }
+
+    type RevenueDistribution {
+        count: Int!
+        min: Float
+        max: Float
+        mean: Float
+        percentiles: [RevenuePercentile!]!
+    }
+
+    type RevenuePercentile {
+        percentile: Int!
+        value: Float
+    }
+
+    type EmployeeRangeCount {
+        range: String!
+        count: Int!
+    }
+
+    type FoundedPerDecade {
+        decades: [DecadeCount!]!
+        unknown: Int!
+    }
+
+    type DecadeCount {
+        decade: Int!
+        count: Int!
+    }
+
+    type LocationRank {
+        rank: Int!
+        location: String!
+        count: Int!
+        totalEmployees: Int!
+    }
+
+    type ActivityRatio {
+        total: Int!
+        active: Int!
+        inactive: Int!
+        activeRatio: Float
+        byIndustry: [IndustryActivity!]!
+    }
+
+    type IndustryActivity {
+        industry: String!
+        active: Int!
+        inactive: Int!
+        activeRatio: Float
+    }
+`;
+
+export default typeDefs;
@@ -0,0 +1,188 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { ApiKey, User } from '../models';
+import type { IApiKeyDocument, IAuthTokenPayload, IUserDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import asyncHandler from '../utils/asyncHandler';
+import {
+    Permission,
+    INSUFFICIENT_SCOPE,
+    PERMISSION_DENIED,
+    hasPermission,
+    scopesGrantPermission,
+} from '../configs/permissions';
+
+/**
+ * Authentication & Authorization Middleware
+ *
+ * Two kinds of callers are supported:
+ * - Users, identified by a JWT access token in `Authorization: Bearer <token>`
+ * - Machine clients, identified by an API key in the `X-API-Key` header
+ *
+ * `authenticate` accepts either credential and attaches `req.user` or
+ * `req.apiKey`. `authenticateUser` only accepts a user token and is used for
+ * account-level routes (profile, sessions, key management). Token verification
+ * errors (`JsonWebTokenError`, `TokenExpiredError`) are passed on untouched so
+ * that `globalErrorHandler` maps them to 401 responses.
+ *
+ * `authorize` checks the permissions granted to the user's role, or to the
+ * API key's scopes (see `configs/permissions.ts`), and must run after one of
+ * the authentication middleware.
+ */
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace Express {
+        interface Request {
+            user?: IUserDocument;
+            apiKey?: IApiKeyDocument;
+        }
+    }
+}
+
+const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+const extractBearerToken = (req: Request): string | null => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) return null;
+    const token = header.slice('Bearer '.length).trim();
+    return token || null;
+};
+
+/**
+ * Extract the API key from the X-API-Key header
+ */
+const extractApiKey = (req: Request): string | null => {
+    const header = req.headers[API_KEY_HEADER];
+    if (typeof header !== 'string') return null;
+    return header.trim() || null;
+};
+
+/**
+ * Resolve the active user behind an access token
+ */
+const resolveUser = async (token: string): Promise<IUserDocument> => {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as IAuthTokenPayload;
+
+    const user = await User.findById(payload.id);
+    if (!user || !user.isActive) {
+        throw ApiError.unauthorized('The user belonging to this token no longer exists.');
+    }
+    return user;
+};
+
+/**
+ * Resolve a usable API key and record that it was used
+ */
+const resolveApiKey = async (key: string, req: Request): Promise<IApiKeyDocument> => {
+    const apiKey = await ApiKey.findByKey(key);
+    if (!apiKey || !apiKey.isUsable()) {
+        throw ApiError.unauthorized('Invalid, expired or revoked API key.');
+    }
+
+    await apiKey.recordUsage(req.ip);
+    return apiKey;
+};
+
+/**
+ * Require a valid access token or API key
+ */
+const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const token = extractBearerToken(req);
+    const key = extractApiKey(req);
+
+    if (token) {
+        req.user = await resolveUser(token);
+    } else if (key) {
+        req.apiKey = await resolveApiKey(key, req);
+    } else {
+        throw ApiError.unauthorized(
+            'Authentication required. Please log in or provide an API key.'
+        );
+    }
+
+    next();
+});
+
+/**
+ * Require a valid access token (API keys are rejected)
+ */
+const authenticateUser = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const token = extractBearerToken(req);
+    if (!token) {
+        throw ApiError.unauthorized('Authentication required. Please log in.');
+    }
+
+    req.user = await resolveUser(token);
+    next();
+});
+
+/**
+ * Check a permission of the authenticated caller, for checks that depend on
+ * the request (e.g. a mode that needs an extra permission)
+ */
+const hasRequestPermission = (req: Request, permission: Permission): boolean => {
+    if (req.user) return hasPermission(req.user.role, permission);
+    if (req.apiKey) return scopesGrantPermission(req.apiKey.scopes, permission);
+    return false;
+};
+
+/**
+ * Get the error refusing a caller that lacks one of the permissions, or null
+ * when every permission is granted
+ */
+const getPermissionError = (req: Request, permissions: Permission[]): ApiError | null => {
+    if (req.user) {
+        const role = req.user.role;
+        const missing = permissions.filter(permission => !hasPermission(role, permission));
+        if (missing.length > 0) {
+            return ApiError.forbidden(
+                `You do not have permission to perform this action (requires ${missing.join(', ')})`,
+                PERMISSION_DENIED
+            );
+        }
+        return null;
+    }
+
+    if (req.apiKey) {
+        const scopes = req.apiKey.scopes;
+        const missing = permissions.filter(
+            permission => !scopesGrantPermission(scopes, permission)
+        );
+        if (missing.length > 0) {
+            return ApiError.forbidden(
+                `This API key's scopes do not allow this action (requires ${missing.join(', ')})`,
+                INSUFFICIENT_SCOPE
+            );
+        }
+        return null;
+    }
+
+    return ApiError.unauthorized('Authentication required. Please log in.');
+};
+
+/**
+ * Require every listed permission
+ *
+ * @example
+ * router.delete('/:id', authorize('company:delete'), deleteCompany);
+ */
+const authorize = (...permissions: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        next(getPermissionError(req, permissions) ?? undefined);
+    };
+};
+
+export {
+    authenticate,
+    authenticateUser,
+    authorize,
+    getPermissionError,
+    hasRequestPermission,
+    extractBearerToken,
+    extractApiKey,
+};
+export default authenticate;
@@ -31,6 +31,7 @@ interface ExtendedError extends Error {
     status?: string;
     isOperational?: boolean;
     code?: number;
+    errorCode?: string;
     path?: string;
     value?: any;
     keyValue?: Record<string, any>;
@@ -48,6 +49,7 @@ const sendErrorDev = (err: ExtendedError, req: Request, res: Response): void =>
         success: false,
         statusCode,
         message: err.message,
+        errorCode: err.errorCode,
         error: err,
         stack: err.stack,
         path: req.path,
@@ -69,6 +71,8 @@ const sendErrorProd = (err: ExtendedError, req: Request, res: Response): void =>
             success: false,
             statusCode,
             message: err.message,
+            errors: err.errors,
+            errorCode: err.errorCode,
             timestamp: new Date().toISOString(),
             path: req.path,
         });
@@ -113,6 +117,16 @@ const handleValidationErrorDB = (err: MongooseError.ValidationError): ApiError =
     return ApiError.unprocessableEntity(message, errors);
 };
 
+/**
+ * Handle Mongoose Version Error: the document was changed by another request
+ * between loading and saving it
+ */
+const handleVersionErrorDB = (): ApiError => {
+    return ApiError.preconditionFailed(
+        'The resource was modified by another request. Fetch it again and retry.'
+    );
+};
+
 /**
  * Handle JWT Error
  */
@@ -199,29 +213,13 @@ const notFoundHandler = (req: Request, res: Response, next: NextFunction): void
 };
 
 /**
- * Global Error Handler Middleware
- * Must be the last middleware in the application
+ * Map an error to the API error sent to clients. Errors that are not
+ * recognised are returned as they are.
  */
-const globalErrorHandler = (
-    err: ExtendedError,
-    req: Request,
-    res: Response,
-    next: NextFunction
-): void => {
+const normalizeError = (err: ExtendedError): ExtendedError => {
     let error = { ...err };
     error.message = err.message;
 
-    // Log error for monitoring
-    console.error('Error occurred:', {
-        message: err.message,
-        stack: err.stack,
-        url: req.url,
-        method: req.method,
-        ip: req.ip,
-        timestamp: new Date().toISOString(),
-    });
-
-    // Handle different error types
     if (err.name === 'CastError') {
         error = handleCastErrorDB(err);
     }
@@ -234,6 +232,10 @@ const globalErrorHandler = (
         error = handleValidationErrorDB(err as MongooseError.ValidationError);
     }
 
+    if (err.name === 'VersionError') {
+        error = handleVersionErrorDB();
+    }
+
     if (err.name === 'JsonWebTokenError') {
         error = handleJWTError();
     }
@@ -270,6 +272,31 @@ const globalErrorHandler = (
         error = handleSyntaxError(err);
     }
 
+    return error;
+};
+
+/**
+ * Global Error Handler Middleware
+ * Must be the last middleware in the application
+ */
+const globalErrorHandler = (
+    err: ExtendedError,
+    req: Request,
+    res: Response,
+    next: NextFunction
+): void => {
+    // Log error for monitoring
+    console.error('Error occurred:', {
+        message: err.message,
+        stack: err.stack,
+        url: req.url,
+        method: req.method,
+        ip: req.ip,
+        timestamp: new Date().toISOString(),
+    });
+
+    const error = normalizeError(err);
+
     // Send error response based on environment
     if (process.env.NODE_ENV === 'development') {
         sendErrorDev(error, req, res);
@@ -288,21 +315,6 @@ const asyncErrorHandler = (fn: Function) => {
     };
 };
 
-/**
- * Validation Error Handler
- * Handles request validation errors from middleware like express-validator
- */
-const validationErrorHandler = (req: Request, res: Response, next: NextFunction): void => {
-    // This would typically be used with express-validator
-    // const errors = validationResult(req);
-    // if (!errors.isEmpty()) {
-    //   const errorMessages = errors.array().map(error => error.msg);
-    //   const error = ApiError.unprocessableEntity('Validation failed', errorMessages);
-    //   return next(error);
-    // }
-    next();
-};
-
 /**
  * Request Timeout Handler
  * Handles requests that take too long to process
@@ -340,10 +352,11 @@ const corsErrorHandler = (err: any, req: Request, res: Response, next: NextFunct
  * Export all error handling middleware
  */
 export {
+    ExtendedError,
     globalErrorHandler,
+    normalizeError,
     notFoundHandler,
     asyncErrorHandler,
-    validationErrorHandler,
     timeoutHandler,
     corsErrorHandler,
     sendErrorDev,
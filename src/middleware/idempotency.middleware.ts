@@ -0,0 +1,182 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { IdempotencyKey } from '../models';
+import type { IIdempotencyKeyDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import asyncHandler from '../utils/asyncHandler';
+
+/**
+ * Idempotency Middleware
+ *
+ * Makes write requests safe to retry. A client sends a unique
+ * `Idempotency-Key` header (e.g. a UUID) with a POST, PUT, PATCH or DELETE
+ * and reuses it when retrying the same request, for instance after a
+ * network timeout:
+ * - the first request runs, and its response is stored for
+ *   `IDEMPOTENCY_KEY_TTL_HOURS`;
+ * - a retry with the same key, route and body gets the stored response with
+ *   `Idempotent-Replayed: true`, without running again;
+ * - a retry while the first request still runs gets 409;
+ * - the same key with another route or body gets 422.
+ *
+ * Server errors, and refusals that may not hold on a retry (missing
+ * permission, rate limit), are not stored, so a retry runs again. Keys are
+ * scoped to the caller, so this must run after one of the authentication
+ * middleware. Requests without the header are not affected.
+ */
+
+const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Error codes of refused requests
+const IDEMPOTENCY_KEY_IN_USE = 'IDEMPOTENCY_KEY_IN_USE';
+const IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED';
+
+// Accept keys made of safe characters only, so they can be logged and stored as-is
+const IDEMPOTENCY_KEY_PATTERN = /^[\w.:-]{1,255}$/;
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Client errors a retry may not get again
+const RELEASED_STATUSES = [401, 403, 429];
+
+// Response headers replayed with the stored body
+const REPLAYED_RESPONSE_HEADERS = ['ETag', 'Location'];
+
+/**
+ * Identify the caller a key belongs to
+ */
+const getKeyOwner = (req: Request): string | null => {
+    if (req.user) return `user:${req.user._id}`;
+    if (req.apiKey) return `apiKey:${req.apiKey._id}`;
+    return null;
+};
+
+/**
+ * Fingerprint of the request a key was first used for
+ */
+const hashRequest = (req: Request): string =>
+    crypto
+        .createHash('sha256')
+        .update(JSON.stringify([req.method, req.originalUrl, req.body ?? null]))
+        .digest('hex');
+
+/**
+ * Store the response of the request that claimed the key
+ */
+const storeResponse = (record: IIdempotencyKeyDocument, res: Response, body: string) => {
+    const status = res.statusCode;
+
+    // After a gateway timeout the handler may still finish: keep the key locked until it does
+    if (status === 504) return Promise.resolve();
+    if (status >= 500 || RELEASED_STATUSES.includes(status)) return record.deleteOne();
+
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_RESPONSE_HEADERS) {
+        const value = res.get(name);
+        if (value) headers[name] = value;
+    }
+    return record.complete(status, headers, body);
+};
+
+/**
+ * Record the JSON response of the request before it is sent. Responses
+ * without a JSON body are not stored, and the key is released.
+ */
+const captureResponse = (res: Response, record: IIdempotencyKeyDocument): void => {
+    const sendJson = res.json.bind(res);
+    let captured = false;
+
+    res.json = (body?: unknown) => {
+        captured = true;
+        const json = JSON.stringify(body);
+
+        storeResponse(record, res, json)
+            .catch(error =>
+                console.error(
+                    `Failed to store the response of idempotency key ${record.key}:`,
+                    error
+                )
+            )
+            .then(() => {
+                // Still stored when the request timed out, for the retries to get the result
+                if (!res.headersSent) sendJson(body);
+            });
+        return res;
+    };
+
+    res.on('finish', () => {
+        if (captured) return;
+        record
+            .deleteOne()
+            .catch(error =>
+                console.error(`Failed to release idempotency key ${record.key}:`, error)
+            );
+    });
+};
+
+/**
+ * Send the stored response of a completed request again
+ */
+const replayResponse = (res: Response, record: IIdempotencyKeyDocument): void => {
+    res.set(record.responseHeaders ?? {});
+    res.set(REPLAYED_HEADER, 'true');
+    res.status(record.responseStatus ?? 200)
+        .type('json')
+        .send(record.responseBody);
+};
+
+/**
+ * Replay or refuse retried write requests with an `Idempotency-Key` header
+ */
+const idempotency = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers[IDEMPOTENCY_KEY_HEADER];
+    const owner = getKeyOwner(req);
+    if (!WRITE_METHODS.includes(req.method) || header === undefined || !owner) {
+        return next();
+    }
+
+    const key = typeof header === 'string' ? header.trim() : '';
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+        throw ApiError.badRequest(
+            'Idempotency-Key must be 1 to 255 letters, digits, dots, colons, dashes or underscores'
+        );
+    }
+
+    const requestHash = hashRequest(req);
+    const { record, claimed } = await IdempotencyKey.claim({
+        owner,
+        key,
+        requestHash,
+        method: req.method,
+        path: req.originalUrl,
+    });
+
+    if (claimed) {
+        captureResponse(res, record);
+        return next();
+    }
+
+    if (record.requestHash !== requestHash) {
+        throw ApiError.unprocessableEntity(
+            'This Idempotency-Key was already used for a different request',
+            [`The key was first used for ${record.method} ${record.path}`]
+        ).withCode(IDEMPOTENCY_KEY_REUSED);
+    }
+    if (record.status === 'processing') {
+        throw ApiError.conflict(
+            'A request with this Idempotency-Key is still being processed. Retry later.'
+        ).withCode(IDEMPOTENCY_KEY_IN_USE);
+    }
+
+    replayResponse(res, record);
+});
+
+export {
+    idempotency,
+    IDEMPOTENCY_KEY_HEADER,
+    REPLAYED_HEADER,
+    IDEMPOTENCY_KEY_IN_USE,
+    IDEMPOTENCY_KEY_REUSED,
+};
+export default idempotency;
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+/**
+ * Request ID Middleware
+ *
+ * Gives every request an ID that is echoed back in the `X-Request-Id`
+ * response header and recorded with audit entries, so a change can be traced
+ * back to the request (and log lines) that made it. A well-formed ID sent by
+ * the client or an upstream proxy is reused; otherwise a new UUID is generated.
+ */
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace Express {
+        interface Request {
+            id?: string;
+        }
+    }
+}
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+// Accept IDs made of safe characters only, so they can be logged and stored as-is
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Attach `req.id` and the `X-Request-Id` response header
+ */
+const requestId = (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.headers[REQUEST_ID_HEADER];
+    const incoming = typeof header === 'string' ? header.trim() : '';
+
+    req.id = REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+    res.setHeader('X-Request-Id', req.id);
+    next();
+};
+
+export { requestId, REQUEST_ID_HEADER };
+export default requestId;
@@ -0,0 +1,61 @@
+import express from 'express';
+import request from 'supertest';
+import { globalErrorHandler } from './errorHandler';
+import rejectOperatorKeys from './sanitize.middleware';
+
+const app = express();
+app.use(express.json());
+app.use(rejectOperatorKeys);
+app.all('/companies', (req, res) => {
+    res.status(200).json({ query: req.query, body: req.body });
+});
+app.use(globalErrorHandler);
+
+beforeAll(() => {
+    // The error handler logs every error it handles
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+    jest.restoreAllMocks();
+});
+
+describe('rejectOperatorKeys', () => {
+    it('rejects operators in the query string, e.g. name[$ne]=', async () => {
+        const response = await request(app).get('/companies?name[$ne]=');
+
+        expect(response.status).toBe(400);
+        expect(response.body.message).toBe('Keys starting with "$" are not allowed');
+        expect(response.body.errors).toEqual(['query.name.$ne']);
+    });
+
+    it('rejects $where in a JSON body', async () => {
+        const response = await request(app)
+            .post('/companies')
+            .send({ name: 'Acme', $where: 'sleep(1000)' });
+
+        expect(response.status).toBe(400);
+        expect(response.body.errors).toEqual(['body.$where']);
+    });
+
+    it('rejects operators nested in a JSON body', async () => {
+        const response = await request(app)
+            .post('/companies')
+            .send({ contact: { email: { $gt: '' } }, location: [{ $regex: '.*' }] });
+
+        expect(response.status).toBe(400);
+        expect(response.body.errors).toEqual(['body.contact.email.$gt', 'body.location.0.$regex']);
+    });
+
+    it('lets requests without operator keys through', async () => {
+        const response = await request(app)
+            .post('/companies?name=Acme%20%24%20Co')
+            .send({ name: 'Acme', price: '$5' });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({
+            query: { name: 'Acme $ Co' },
+            body: { name: 'Acme', price: '$5' },
+        });
+    });
+});
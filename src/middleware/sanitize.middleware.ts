@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/apiResponse';
+import { findOperatorKeys } from '../utils/sanitize';
+
+/**
+ * Sanitize Middleware
+ *
+ * Rejects requests whose query string or body contains keys starting with `$`.
+ * Express' extended query parser turns `?name[$ne]=` into `{ name: { $ne: '' } }`
+ * and JSON bodies can carry the same shape, so without this check a value
+ * passed to a MongoDB filter could smuggle in query operators.
+ *
+ * Requests are rejected rather than silently cleaned, so clients learn about
+ * the problem instead of getting unexpected results.
+ */
+
+/**
+ * Fail with 400 when the query or body contains MongoDB operator keys
+ */
+const rejectOperatorKeys = (req: Request, res: Response, next: NextFunction): void => {
+    const keys = [
+        ...findOperatorKeys(req.query).map(key => `query.${key}`),
+        ...findOperatorKeys(req.body).map(key => `body.${key}`),
+    ];
+
+    if (keys.length > 0) {
+        return next(ApiError.badRequest('Keys starting with "$" are not allowed', keys));
+    }
+
+    next();
+};
+
+export { rejectOperatorKeys };
+export default rejectOperatorKeys;
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiError } from '../utils/apiResponse';
+import { ISchema, validateSchema } from '../utils/schema';
+
+/**
+ * Request Validation Middleware
+ *
+ * `validateRequest` checks the path parameters, query string and body of a
+ * request against the schemas of its route before the handler runs (see
+ * `utils/schema.ts` for the supported rules). Invalid requests fail with 422
+ * and one error per problem, named by its path:
+ *
+ * ```json
+ * { "statusCode": 422, "message": "Validation failed",
+ *   "errors": ["params.id must be a valid ID", "body.email is required"] }
+ * ```
+ *
+ * Query and path values are converted to the types of their schemas, and
+ * defaults are applied, so handlers read `req.query.page` as a number.
+ *
+ * Route schemas also carry the method and OpenAPI path of their route, and
+ * are added to the API documentation (see `utils/swagger.ts`).
+ */
+
+const REQUEST_PARTS = ['params', 'query', 'body'] as const;
+
+type RequestPart = (typeof REQUEST_PARTS)[number];
+
+type RouteMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Schemas of the parts of a request
+ */
+type IRequestSchema = Partial<Record<RequestPart, ISchema>>;
+
+/**
+ * Schemas of a route, with the route as it appears in the API documentation
+ * (e.g. `get` and `/companies/{id}`). Method `use` applies the path
+ * parameters to every operation under the path.
+ */
+interface IRouteSchema extends IRequestSchema {
+    method: RouteMethod | 'use';
+    path: string;
+}
+
+/**
+ * Validate the parts of a request that have a schema, replacing them with
+ * their coerced values
+ */
+const validateRequest = (schema: IRequestSchema): RequestHandler => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const errors: string[] = [];
+        const values: Partial<Record<RequestPart, unknown>> = {};
+
+        for (const part of REQUEST_PARTS) {
+            const partSchema = schema[part];
+            if (!partSchema) continue;
+
+            const result = validateSchema(partSchema, req[part] ?? {}, part, {
+                coerce: part !== 'body',
+            });
+            errors.push(...result.errors);
+            values[part] = result.value;
+        }
+
+        if (errors.length > 0) {
+            return next(ApiError.unprocessableEntity('Validation failed', errors));
+        }
+
+        Object.assign(req, values);
+        next();
+    };
+};
+
+export { IRequestSchema, IRouteSchema, RequestPart, RouteMethod, validateRequest };
+export default validateRequest;
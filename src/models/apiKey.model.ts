@@ -0,0 +1,268 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import crypto from 'crypto';
+
+/**
+ * API Key Model
+ *
+ * This model represents credentials for machine-to-machine clients such as
+ * ETL jobs and partner integrations. Only a SHA-256 hash of each key is
+ * stored; the plain key is returned once, when it is created.
+ */
+
+// Scope enum for validation
+export const apiKeyScopeEnum = [
+    'companies:read',
+    'companies:write',
+    'stats:read',
+    'audit:read',
+    'companies:sensitive',
+] as const;
+
+type ApiKeyScope = (typeof apiKeyScopeEnum)[number];
+
+/**
+ * Base API Key Interface
+ */
+interface IApiKey {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    createdBy: Types.ObjectId;
+    expiresAt?: Date;
+    lastUsedAt?: Date;
+    lastUsedIp?: string;
+    revokedAt?: Date;
+    revokedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * API Key Document Interface (extends Mongoose Document)
+ */
+interface IApiKeyDocument extends IApiKey, Document {
+    // Instance methods
+    isUsable(): boolean;
+    hasScope(scope: ApiKeyScope): boolean;
+    recordUsage(ip?: string): Promise<void>;
+}
+
+/**
+ * API Key Model Interface (for static methods)
+ */
+interface IApiKeyModel extends Model<IApiKeyDocument> {
+    // Static methods
+    hashKey(key: string): string;
+    generate(data: {
+        name: string;
+        scopes: ApiKeyScope[];
+        createdBy: Types.ObjectId | string;
+        expiresAt?: Date;
+    }): Promise<{ key: string; document: IApiKeyDocument }>;
+    findByKey(key: string): Promise<IApiKeyDocument | null>;
+}
+
+/**
+ * Prefix identifying keys issued by this API
+ */
+const KEY_PREFIX = 'cdm';
+
+/**
+ * Minimum time between two `lastUsedAt` writes for the same key
+ */
+const USAGE_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * API Key Schema Definition
+ */
+const apiKeySchema = new Schema<IApiKeyDocument, IApiKeyModel>(
+    {
+        name: {
+            type: String,
+            required: [true, 'API key name is required'],
+            trim: true,
+            maxlength: [100, 'API key name cannot exceed 100 characters'],
+        },
+        prefix: {
+            type: String,
+            required: true,
+        },
+        keyHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false,
+        },
+        scopes: {
+            type: [String],
+            enum: {
+                values: apiKeyScopeEnum,
+                message: 'Please select a valid scope',
+            },
+            validate: {
+                validator: function (value: string[]) {
+                    return value.length > 0;
+                },
+                message: 'At least one scope is required',
+            },
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        lastUsedAt: {
+            type: Date,
+            default: null,
+        },
+        lastUsedIp: {
+            type: String,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+        revokedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+apiKeySchema.index({ createdBy: 1 }); // Keys per creator
+apiKeySchema.index({ revokedAt: 1 }); // Active key listing
+
+/**
+ * Virtual Properties
+ */
+apiKeySchema.virtual('status').get(function (this: IApiKeyDocument) {
+    if (this.revokedAt) return 'revoked';
+    if (this.expiresAt && this.expiresAt.getTime() <= Date.now()) return 'expired';
+    return 'active';
+});
+
+/**
+ * Instance Methods
+ */
+apiKeySchema.methods.isUsable = function (this: IApiKeyDocument): boolean {
+    if (this.revokedAt) return false;
+    return !this.expiresAt || this.expiresAt.getTime() > Date.now();
+};
+
+apiKeySchema.methods.hasScope = function (this: IApiKeyDocument, scope: ApiKeyScope): boolean {
+    return this.scopes.includes(scope);
+};
+
+apiKeySchema.methods.recordUsage = async function (
+    this: IApiKeyDocument,
+    ip?: string
+): Promise<void> {
+    const now = Date.now();
+    if (this.lastUsedAt && now - this.lastUsedAt.getTime() < USAGE_WRITE_INTERVAL_MS) return;
+
+    this.lastUsedAt = new Date(now);
+    this.lastUsedIp = ip;
+    await (this.constructor as IApiKeyModel).updateOne(
+        { _id: this._id },
+        { lastUsedAt: this.lastUsedAt, lastUsedIp: ip }
+    );
+};
+
+/**
+ * Static Methods
+ */
+apiKeySchema.statics.hashKey = function (key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+apiKeySchema.statics.generate = async function (data) {
+    const prefix = `${KEY_PREFIX}_${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(24).toString('base64url')}`;
+
+    const document = await this.create({
+        ...data,
+        prefix,
+        keyHash: this.hashKey(key),
+    });
+
+    return { key, document };
+};
+
+apiKeySchema.statics.findByKey = function (key: string): Promise<IApiKeyDocument | null> {
+    return this.findOne({ keyHash: this.hashKey(key) });
+};
+
+/**
+ * Create and export the model
+ */
+const ApiKey = mongoose.model<IApiKeyDocument, IApiKeyModel>('ApiKey', apiKeySchema);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           description: Human readable label for the key
+ *           example: "Nightly ETL"
+ *         prefix:
+ *           type: string
+ *           description: Non-secret leading part of the key, used to identify it
+ *           example: "cdm_1a2b3c4d"
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [companies:read, companies:write, stats:read, audit:read, companies:sensitive]
+ *           example: ["companies:read", "stats:read"]
+ *         createdBy:
+ *           type: string
+ *           description: ID of the user who created the key
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedIp:
+ *           type: string
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [active, expired, revoked]
+ *           description: Virtual field - current key status
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export { IApiKey, IApiKeyDocument, IApiKeyModel, ApiKeyScope };
+export default ApiKey;
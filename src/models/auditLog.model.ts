@@ -0,0 +1,215 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Audit Log Model
+ *
+ * This model records one entry per create, update, delete, restore or purge of an audited
+ * document: who made the change, through which request, and a field-level
+ * before/after diff. Entries are append-only; nothing in the API updates or
+ * deletes them.
+ */
+
+// Audited entity types
+export const auditEntityEnum = ['Company'] as const;
+
+// Audited actions
+export const auditActionEnum = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+
+// Kinds of callers that can make a change
+export const auditActorTypeEnum = ['user', 'apiKey', 'system'] as const;
+
+type AuditEntity = (typeof auditEntityEnum)[number];
+type AuditAction = (typeof auditActionEnum)[number];
+type AuditActorType = (typeof auditActorTypeEnum)[number];
+
+/**
+ * Caller that made the change
+ */
+interface IAuditActor {
+    type: AuditActorType;
+    id?: Types.ObjectId | null;
+    label?: string;
+}
+
+/**
+ * Before/after values of one changed field
+ */
+interface IAuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+/**
+ * Base Audit Log Interface
+ */
+interface IAuditLog {
+    entityType: AuditEntity;
+    entityId: Types.ObjectId;
+    company?: Types.ObjectId | null;
+    action: AuditAction;
+    actor: IAuditActor;
+    requestId?: string;
+    changes: IAuditChange[];
+    createdAt: Date;
+}
+
+/**
+ * Audit Log Document Interface (extends Mongoose Document)
+ */
+interface IAuditLogDocument extends IAuditLog, Document {}
+
+/**
+ * Audit Log Model Interface (for static methods)
+ */
+interface IAuditLogModel extends Model<IAuditLogDocument> {
+    // Static methods
+    findForCompany(companyId: Types.ObjectId | string): Promise<IAuditLogDocument[]>;
+}
+
+/**
+ * Audit Log Schema Definition
+ */
+const auditLogSchema = new Schema<IAuditLogDocument, IAuditLogModel>(
+    {
+        entityType: {
+            type: String,
+            enum: auditEntityEnum,
+            required: [true, 'Entity type is required'],
+        },
+        entityId: {
+            type: Schema.Types.ObjectId,
+            required: [true, 'Entity ID is required'],
+        },
+        company: {
+            type: Schema.Types.ObjectId,
+            ref: 'Company',
+            default: null,
+        },
+        action: {
+            type: String,
+            enum: auditActionEnum,
+            required: [true, 'Action is required'],
+        },
+        actor: {
+            type: {
+                type: String,
+                enum: auditActorTypeEnum,
+                required: true,
+            },
+            id: {
+                type: Schema.Types.ObjectId,
+                default: null,
+            },
+            label: String,
+        },
+        requestId: {
+            type: String,
+        },
+        changes: [
+            {
+                _id: false,
+                field: { type: String, required: true },
+                before: Schema.Types.Mixed,
+                after: Schema.Types.Mixed,
+            },
+        ],
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 }); // Entity history
+auditLogSchema.index({ company: 1, createdAt: -1 }); // Company history
+auditLogSchema.index({ 'actor.id': 1, createdAt: -1 }); // Changes by an actor
+auditLogSchema.index({ requestId: 1 }); // Changes made by a request
+auditLogSchema.index({ createdAt: -1 }); // Global feed
+
+/**
+ * Static Methods
+ */
+auditLogSchema.statics.findForCompany = function (
+    companyId: Types.ObjectId | string
+): Promise<IAuditLogDocument[]> {
+    return this.find({ company: companyId }).sort({ createdAt: -1 });
+};
+
+/**
+ * Create and export the model
+ */
+const AuditLog = mongoose.model<IAuditLogDocument, IAuditLogModel>('AuditLog', auditLogSchema);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditLog:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         entityType:
+ *           type: string
+ *           enum: [Company]
+ *         entityId:
+ *           type: string
+ *           description: ID of the changed document
+ *         company:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the company the change belongs to
+ *         action:
+ *           type: string
+ *           enum: [create, update, delete, restore, purge]
+ *         actor:
+ *           type: object
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [user, apiKey, system]
+ *             id:
+ *               type: string
+ *               nullable: true
+ *             label:
+ *               type: string
+ *               description: User email or API key name at the time of the change
+ *               example: "jane.manager@example.com"
+ *         requestId:
+ *           type: string
+ *           description: Value of the X-Request-Id header of the request that made the change
+ *           example: "6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f"
+ *         changes:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               field:
+ *                 type: string
+ *                 example: "isActive"
+ *               before:
+ *                 description: Value before the change (absent on create)
+ *                 example: true
+ *               after:
+ *                 description: Value after the change (absent on delete)
+ *                 example: false
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export {
+    IAuditLog,
+    IAuditLogDocument,
+    IAuditLogModel,
+    IAuditActor,
+    IAuditChange,
+    AuditEntity,
+    AuditAction,
+    AuditActorType,
+};
+export default AuditLog;
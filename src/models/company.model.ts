@@ -1,10 +1,26 @@
-import mongoose, { Document, Model, Schema } from 'mongoose';
+import mongoose, {
+    Aggregate,
+    Document,
+    FilterQuery,
+    Model,
+    PipelineStage,
+    Query,
+    Schema,
+    Types,
+} from 'mongoose';
+import { escapeRegex } from '../utils/sanitize';
+import type { ICompanyMetricModel } from './companyMetric.model';
 
 /**
  * Company Model
  *
  * This model represents company information in the system.
  * It includes company details, contact information, and business metrics.
+ *
+ * Companies are soft-deleted: `deletedAt` is set instead of removing the
+ * document. Queries and aggregations exclude deleted companies automatically
+ * unless they filter on `deletedAt` themselves or pass the `withDeleted`
+ * option, e.g. `Company.find().setOptions({ withDeleted: true })`.
  */
 
 // Industry enum for validation
@@ -23,6 +39,51 @@ export const industryEnum = [
 
 type IndustryType = (typeof industryEnum)[number];
 
+// Headcount buckets of the `employeeRange` virtual (upper bounds are exclusive)
+export const employeeRangeBuckets = [
+    { label: '1-10', below: 10 },
+    { label: '11-50', below: 50 },
+    { label: '51-200', below: 200 },
+    { label: '201-1000', below: 1000 },
+    { label: '1000+', below: Infinity },
+] as const;
+
+// Range of companies without a headcount
+export const unknownEmployeeRange = 'Not specified';
+
+// Fields left out of public profiles and shown only with the company:readSensitive permission
+export const sensitiveCompanyFields = ['email', 'revenue'] as const;
+
+type SensitiveCompanyField = (typeof sensitiveCompanyFields)[number];
+
+// Number of locations returned in search facets
+const LOCATION_FACET_LIMIT = 20;
+
+// Aggregation expression of the `employeeRange` virtual, evaluated in the database
+export const employeeRangeExpression = {
+    $switch: {
+        branches: [
+            { case: { $not: [{ $gt: ['$employees', 0] }] }, then: unknownEmployeeRange },
+            ...employeeRangeBuckets
+                .filter(bucket => Number.isFinite(bucket.below))
+                .map(bucket => ({
+                    case: { $lt: ['$employees', bucket.below] },
+                    then: bucket.label,
+                })),
+        ],
+        default: employeeRangeBuckets[employeeRangeBuckets.length - 1].label,
+    },
+};
+
+// Aggregation expression of the decade a company was founded in (null when unknown)
+export const foundedDecadeExpression = {
+    $cond: [
+        { $gt: ['$foundedYear', 0] },
+        { $multiply: [{ $floor: { $divide: ['$foundedYear', 10] } }, 10] },
+        null,
+    ],
+};
+
 /**
  * Base Company Interface
  */
@@ -36,10 +97,13 @@ interface ICompany {
     email: string;
     phone?: string;
     employees?: number;
+    autoHeadcount: boolean;
     isActive: boolean;
     logo?: string;
     headquarters?: string;
     revenue?: number;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -51,7 +115,39 @@ interface ICompanyDocument extends ICompany, Document {
     // Instance methods
     getEmployeeRange(): string;
     getCompanyAge(): number;
-    getPublicProfile(): Omit<ICompany, 'email' | 'revenue'>;
+    getPublicProfile(): Omit<ICompany, SensitiveCompanyField>;
+    softDelete(deletedBy?: Types.ObjectId | null): Promise<ICompanyDocument>;
+    restore(): Promise<ICompanyDocument>;
+}
+
+/**
+ * Number of companies with a given value
+ */
+interface IFacetCount<T> {
+    value: T;
+    count: number;
+}
+
+/**
+ * Search facets returned by `getSearchFacets`
+ */
+interface ICompanyFacets {
+    industry: IFacetCount<IndustryType>[];
+    location: IFacetCount<string>[];
+    employeeRange: IFacetCount<string>[];
+    foundedDecade: IFacetCount<number | null>[];
+    isActive: IFacetCount<boolean>[];
+}
+
+/**
+ * Company counts and headcount of one industry, returned by `getCompanyStats`
+ */
+interface IIndustryStats {
+    industry: IndustryType;
+    count: number;
+    activeCount: number;
+    averageEmployees: number | null;
+    totalEmployees: number;
 }
 
 /**
@@ -62,7 +158,11 @@ interface ICompanyModel extends Model<ICompanyDocument> {
     findByIndustry(industry: IndustryType): Promise<ICompanyDocument[]>;
     findActiveCompanies(): Promise<ICompanyDocument[]>;
     searchCompanies(searchTerm: string): Promise<ICompanyDocument[]>;
-    getCompanyStats(): Promise<any>;
+    getCompanyStats(filter?: FilterQuery<ICompanyDocument>): Promise<IIndustryStats[]>;
+    syncHeadcount(companyId: Types.ObjectId | string): Promise<void>;
+    findDeleted(): Query<ICompanyDocument[], ICompanyDocument>;
+    findPurgeable(retentionDays: number): Promise<ICompanyDocument[]>;
+    getSearchFacets(filter: FilterQuery<ICompanyDocument>): Promise<ICompanyFacets>;
 }
 
 /**
@@ -148,6 +248,10 @@ const companySchema = new Schema<ICompanyDocument>(
             min: [1, 'Employee count must be at least 1'],
             max: [10000000, 'Employee count seems unrealistic'],
         },
+        autoHeadcount: {
+            type: Boolean,
+            default: false,
+        },
         isActive: {
             type: Boolean,
             default: true,
@@ -165,9 +269,20 @@ const companySchema = new Schema<ICompanyDocument>(
             type: Number,
             min: [0, 'Revenue cannot be negative'],
         },
+        deletedAt: {
+            type: Date,
+            default: null,
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null,
+        },
     },
     {
         timestamps: true,
+        // Every save increments `__v` and fails when the company changed since it was loaded
+        optimisticConcurrency: true,
         toJSON: { virtuals: true },
         toObject: { virtuals: true },
     }
@@ -183,6 +298,7 @@ companySchema.index({ isActive: 1 }); // Active company filtering
 companySchema.index({ createdAt: -1 }); // Recent companies
 companySchema.index({ employees: 1 }); // Employee count sorting
 companySchema.index({ industry: 1, location: 1 }); // Compound index
+companySchema.index({ deletedAt: 1 }); // Trash and purge
 
 /**
  * Virtual Properties
@@ -192,25 +308,34 @@ companySchema.virtual('companyAge').get(function (this: ICompanyDocument) {
     return new Date().getFullYear() - this.foundedYear;
 });
 
+export const getEmployeeRangeLabel = (employees?: number): string => {
+    if (!employees) return unknownEmployeeRange;
+    return employeeRangeBuckets.find(bucket => employees < bucket.below)!.label;
+};
+
 companySchema.virtual('employeeRange').get(function (this: ICompanyDocument) {
-    if (!this.employees) return 'Not specified';
-    if (this.employees < 10) return '1-10';
-    if (this.employees < 50) return '11-50';
-    if (this.employees < 200) return '51-200';
-    if (this.employees < 1000) return '201-1000';
-    return '1000+';
+    return getEmployeeRangeLabel(this.employees);
 });
 
+/**
+ * Record a headcount and revenue snapshot after they may have changed.
+ * History is best effort: a failed snapshot is logged and never fails the change.
+ */
+const recordMetricSnapshot = async (company: ICompanyDocument): Promise<void> => {
+    try {
+        // Resolved lazily to avoid a circular import with the CompanyMetric model
+        const CompanyMetric = mongoose.model('CompanyMetric') as ICompanyMetricModel;
+        await CompanyMetric.recordSnapshot(company, 'change');
+    } catch (error) {
+        console.error(`Failed to record metrics of company ${company._id}:`, error);
+    }
+};
+
 /**
  * Instance Methods
  */
 companySchema.methods.getEmployeeRange = function (this: ICompanyDocument): string {
-    if (!this.employees) return 'Not specified';
-    if (this.employees < 10) return '1-10';
-    if (this.employees < 50) return '11-50';
-    if (this.employees < 200) return '51-200';
-    if (this.employees < 1000) return '201-1000';
-    return '1000+';
+    return getEmployeeRangeLabel(this.employees);
 };
 
 companySchema.methods.getCompanyAge = function (this: ICompanyDocument): number {
@@ -220,11 +345,27 @@ companySchema.methods.getCompanyAge = function (this: ICompanyDocument): number
 
 companySchema.methods.getPublicProfile = function (this: ICompanyDocument) {
     const companyObject = this.toObject();
-    delete companyObject.email;
-    delete companyObject.revenue;
+    for (const field of sensitiveCompanyFields) {
+        delete companyObject[field];
+    }
     return companyObject;
 };
 
+companySchema.methods.softDelete = function (
+    this: ICompanyDocument,
+    deletedBy: Types.ObjectId | null = null
+): Promise<ICompanyDocument> {
+    this.deletedAt = new Date();
+    this.deletedBy = deletedBy;
+    return this.save();
+};
+
+companySchema.methods.restore = function (this: ICompanyDocument): Promise<ICompanyDocument> {
+    this.deletedAt = null;
+    this.deletedBy = null;
+    return this.save();
+};
+
 /**
  * Static Methods
  */
@@ -239,31 +380,157 @@ companySchema.statics.findActiveCompanies = function (): Promise<ICompanyDocumen
 };
 
 companySchema.statics.searchCompanies = function (searchTerm: string): Promise<ICompanyDocument[]> {
+    // Match the term literally so it cannot be used as a regular expression
+    const pattern = new RegExp(escapeRegex(searchTerm), 'i');
     return this.find({
-        $or: [
-            { $text: { $search: searchTerm } },
-            { name: { $regex: searchTerm, $options: 'i' } },
-            { location: { $regex: searchTerm, $options: 'i' } },
-        ],
+        $or: [{ $text: { $search: searchTerm } }, { name: pattern }, { location: pattern }],
         isActive: true,
     }).sort({ name: 1 });
 };
 
-companySchema.statics.getCompanyStats = function () {
+companySchema.statics.getCompanyStats = function (
+    filter: FilterQuery<ICompanyDocument> = { isActive: true }
+): Promise<IIndustryStats[]> {
     return this.aggregate([
-        { $match: { isActive: true } },
+        { $match: filter },
         {
             $group: {
                 _id: '$industry',
                 count: { $sum: 1 },
+                activeCount: { $sum: { $cond: ['$isActive', 1, 0] } },
                 averageEmployees: { $avg: '$employees' },
                 totalEmployees: { $sum: '$employees' },
             },
         },
-        { $sort: { count: -1 } },
+        {
+            $project: {
+                _id: 0,
+                industry: '$_id',
+                count: 1,
+                activeCount: 1,
+                averageEmployees: 1,
+                totalEmployees: 1,
+            },
+        },
+        { $sort: { count: -1, industry: 1 } },
+    ]);
+};
+
+companySchema.statics.syncHeadcount = async function (
+    companyId: Types.ObjectId | string
+): Promise<void> {
+    const company = await this.findById(companyId).select('autoHeadcount industry revenue');
+    if (!company || !company.autoHeadcount) return;
+
+    // Derive `employees` (and so `employeeRange`) from active employee records
+    const headcount = await mongoose.model('Employee').countDocuments({
+        company: company._id,
+        status: 'active',
+    });
+    // Bump the version too, so the ETag of the company changes with its headcount
+    const update =
+        headcount > 0
+            ? { $set: { employees: headcount }, $inc: { __v: 1 } }
+            : { $unset: { employees: 1 }, $inc: { __v: 1 } };
+    await this.updateOne({ _id: company._id }, update);
+
+    company.employees = headcount > 0 ? headcount : undefined;
+    await recordMetricSnapshot(company);
+};
+
+companySchema.statics.findDeleted = function (): Query<ICompanyDocument[], ICompanyDocument> {
+    return this.find({ deletedAt: { $ne: null } }).sort({ deletedAt: -1 });
+};
+
+companySchema.statics.findPurgeable = function (
+    retentionDays: number
+): Promise<ICompanyDocument[]> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    return this.find({ deletedAt: { $ne: null, $lte: cutoff } });
+};
+
+companySchema.statics.getSearchFacets = async function (
+    filter: FilterQuery<ICompanyDocument>
+): Promise<ICompanyFacets> {
+    const countBy = (value: unknown) => [
+        { $group: { _id: value, count: { $sum: 1 } } },
+        { $project: { _id: 0, value: '$_id', count: 1 } },
+    ];
+
+    // All facets come from one $facet stage, so they always describe the same set of companies
+    const [facets] = await this.aggregate([
+        { $match: filter },
+        {
+            $facet: {
+                industry: countBy('$industry'),
+                location: [
+                    { $unwind: '$location' },
+                    ...countBy('$location'),
+                    { $sort: { count: -1, value: 1 } },
+                    { $limit: LOCATION_FACET_LIMIT },
+                ],
+                employeeRange: countBy(employeeRangeExpression),
+                foundedDecade: [...countBy(foundedDecadeExpression), { $sort: { value: 1 } }],
+                isActive: countBy('$isActive'),
+            },
+        },
     ]);
+
+    // List every industry, range and status, including those without companies
+    const withZeros = <T>(values: readonly T[], counts: IFacetCount<T>[]): IFacetCount<T>[] =>
+        values.map(value => ({
+            value,
+            count: counts.find(facet => facet.value === value)?.count ?? 0,
+        }));
+
+    return {
+        industry: withZeros(industryEnum, facets.industry),
+        location: facets.location,
+        employeeRange: withZeros(
+            [...employeeRangeBuckets.map(bucket => bucket.label), unknownEmployeeRange],
+            facets.employeeRange
+        ),
+        foundedDecade: facets.foundedDecade,
+        isActive: withZeros([true, false], facets.isActive),
+    };
 };
 
+/**
+ * Metric snapshot middleware
+ */
+companySchema.pre('save', function (this: ICompanyDocument) {
+    this.$locals.metricsChanged = this.isNew || this.isModified(['employees', 'revenue']);
+});
+
+companySchema.post('save', async function (this: ICompanyDocument) {
+    if (this.$locals.metricsChanged) await recordMetricSnapshot(this);
+});
+
+/**
+ * Soft delete middleware
+ */
+function excludeDeleted(this: Query<unknown, ICompanyDocument>) {
+    if (this.getOptions().withDeleted || 'deletedAt' in this.getFilter()) return;
+    this.where({ deletedAt: null });
+}
+
+companySchema.pre(['find', 'findOne', 'findOneAndUpdate', 'countDocuments'], excludeDeleted);
+
+companySchema.pre('aggregate', function (this: Aggregate<unknown>) {
+    if (this.options.withDeleted) return;
+
+    const pipeline = this.pipeline();
+    const [first] = pipeline;
+    if (first && '$match' in first) {
+        // Keep a leading $match (which may use $text) in first position
+        if (!('deletedAt' in first.$match)) first.$match.deletedAt = null;
+    } else if (first && ('$geoNear' in first || '$search' in first)) {
+        pipeline.splice(1, 0, { $match: { deletedAt: null } } as PipelineStage);
+    } else {
+        pipeline.unshift({ $match: { deletedAt: null } });
+    }
+});
+
 /**
  * Pre-save middleware
  */
@@ -339,8 +606,21 @@ const Company = mongoose.model<ICompanyDocument, ICompanyModel>('Company', compa
  *         employees:
  *           type: integer
  *           minimum: 1
- *           description: Number of employees
+ *           description: Number of employees (derived from employee records when autoHeadcount is on)
  *           example: 150
+ *         autoHeadcount:
+ *           type: boolean
+ *           default: false
+ *           description: Keep employees in sync with the number of active employee records
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the company was moved to the trash (null unless deleted)
+ *         deletedBy:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the user who deleted the company
  *         isActive:
  *           type: boolean
  *           default: true
@@ -386,13 +666,64 @@ const Company = mongoose.model<ICompanyDocument, ICompanyModel>('Company', compa
  *         email: "contact@techsolutions.com"
  *         phone: "+1-555-123-4567"
  *         employees: 150
+ *         autoHeadcount: false
  *         isActive: true
  *         logo: "https://cdn.example.com/logos/tech-solutions.png"
  *         headquarters: "123 Tech Street, San Francisco, CA"
  *         revenue: 5000000
  *         createdAt: "2023-08-01T09:00:00.000Z"
  *         updatedAt: "2023-08-24T10:30:00.000Z"
+ *     CompanyFacets:
+ *       type: object
+ *       description: Number of companies matching the search filters, per value
+ *       properties:
+ *         industry:
+ *           type: array
+ *           description: Every industry, including those without companies
+ *           items:
+ *             $ref: '#/components/schemas/FacetCount'
+ *         location:
+ *           type: array
+ *           description: The 20 most common locations
+ *           items:
+ *             $ref: '#/components/schemas/FacetCount'
+ *         employeeRange:
+ *           type: array
+ *           description: Every range of the employeeRange field, including "Not specified"
+ *           items:
+ *             $ref: '#/components/schemas/FacetCount'
+ *         foundedDecade:
+ *           type: array
+ *           description: First year of the decade, or null if the founded year is not set
+ *           items:
+ *             $ref: '#/components/schemas/FacetCount'
+ *         isActive:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/FacetCount'
+ *       example:
+ *         industry: [{ value: "Technology", count: 12 }, { value: "Retail", count: 3 }]
+ *         location: [{ value: "Berlin", count: 5 }]
+ *         employeeRange: [{ value: "1-10", count: 4 }, { value: "Not specified", count: 1 }]
+ *         foundedDecade: [{ value: 1990, count: 2 }, { value: 2010, count: 9 }]
+ *         isActive: [{ value: true, count: 14 }, { value: false, count: 1 }]
+ *     FacetCount:
+ *       type: object
+ *       properties:
+ *         value:
+ *           description: The facet value
+ *         count:
+ *           type: integer
  */
 
-export { ICompany, ICompanyDocument, ICompanyModel, IndustryType };
+export {
+    ICompany,
+    ICompanyDocument,
+    ICompanyModel,
+    ICompanyFacets,
+    IFacetCount,
+    IIndustryStats,
+    IndustryType,
+    SensitiveCompanyField,
+};
 export default Company;
@@ -0,0 +1,180 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import type { IndustryType } from './company.model';
+
+/**
+ * Company Metric Model
+ *
+ * This model keeps the history of a company's headcount and revenue. A
+ * snapshot is recorded whenever either value changes, and optionally on a
+ * schedule, so trends can be charted although the company itself only holds
+ * the current values. Snapshots are append-only and removed when the company
+ * is purged.
+ */
+
+// Why a snapshot was recorded
+export const metricSourceEnum = ['change', 'scheduled'] as const;
+
+type MetricSource = (typeof metricSourceEnum)[number];
+
+/**
+ * Base Company Metric Interface
+ */
+interface ICompanyMetric {
+    company: Types.ObjectId;
+    // Copied from the company so industry trends do not need a lookup
+    industry: IndustryType;
+    employees: number | null;
+    revenue: number | null;
+    source: MetricSource;
+    recordedAt: Date;
+}
+
+/**
+ * Company values a snapshot is taken from
+ */
+interface IMetricSubject {
+    _id?: Types.ObjectId;
+    industry: IndustryType;
+    employees?: number | null;
+    revenue?: number | null;
+}
+
+/**
+ * Company Metric Document Interface (extends Mongoose Document)
+ */
+interface ICompanyMetricDocument extends ICompanyMetric, Document {}
+
+/**
+ * Company Metric Model Interface (for static methods)
+ */
+interface ICompanyMetricModel extends Model<ICompanyMetricDocument> {
+    // Static methods
+    recordSnapshot(
+        company: IMetricSubject,
+        source: MetricSource
+    ): Promise<ICompanyMetricDocument | null>;
+}
+
+/**
+ * Company Metric Schema Definition
+ */
+const companyMetricSchema = new Schema<ICompanyMetricDocument, ICompanyMetricModel>(
+    {
+        company: {
+            type: Schema.Types.ObjectId,
+            ref: 'Company',
+            required: [true, 'Company is required'],
+        },
+        industry: {
+            type: String,
+            required: [true, 'Industry is required'],
+        },
+        employees: {
+            type: Number,
+            default: null,
+        },
+        revenue: {
+            type: Number,
+            default: null,
+        },
+        source: {
+            type: String,
+            enum: metricSourceEnum,
+            required: [true, 'Snapshot source is required'],
+        },
+        recordedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+companyMetricSchema.index({ company: 1, recordedAt: -1 }); // Company history
+companyMetricSchema.index({ industry: 1, recordedAt: 1 }); // Industry trends
+companyMetricSchema.index({ recordedAt: 1 }); // Trends across industries
+
+/**
+ * Static Methods
+ */
+companyMetricSchema.statics.recordSnapshot = async function (
+    company: IMetricSubject,
+    source: MetricSource
+): Promise<ICompanyMetricDocument | null> {
+    const employees = company.employees ?? null;
+    const revenue = company.revenue ?? null;
+
+    // Changes only create a snapshot when a value differs from the latest one
+    if (source === 'change') {
+        const latest = await this.findOne({ company: company._id }).sort({ recordedAt: -1 });
+        if (latest && latest.employees === employees && latest.revenue === revenue) {
+            return null;
+        }
+    }
+
+    return this.create({
+        company: company._id,
+        industry: company.industry,
+        employees,
+        revenue,
+        source,
+    });
+};
+
+/**
+ * Create and export the model
+ */
+const CompanyMetric = mongoose.model<ICompanyMetricDocument, ICompanyMetricModel>(
+    'CompanyMetric',
+    companyMetricSchema
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompanyMetricPoint:
+ *       type: object
+ *       description: >
+ *         Headcount and revenue at one point in time. With an interval, values are those at the
+ *         end of the period. Growth is relative to the previous point (0.1 = +10%) and null when
+ *         the previous value is missing or 0. Revenue fields need company:readSensitive.
+ *       properties:
+ *         at:
+ *           type: string
+ *           format: date-time
+ *           description: Time of the snapshot, or start of the period
+ *         employees:
+ *           type: integer
+ *           nullable: true
+ *           example: 120
+ *         revenue:
+ *           type: number
+ *           nullable: true
+ *           example: 5000000
+ *         employeesGrowth:
+ *           type: number
+ *           nullable: true
+ *           example: 0.05
+ *         revenueGrowth:
+ *           type: number
+ *           nullable: true
+ *         source:
+ *           type: string
+ *           enum: [change, scheduled]
+ *           description: Why the snapshot was recorded (snapshots without an interval only)
+ */
+
+export {
+    ICompanyMetric,
+    ICompanyMetricDocument,
+    ICompanyMetricModel,
+    IMetricSubject,
+    MetricSource,
+};
+export default CompanyMetric;
@@ -0,0 +1,242 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Department Model
+ *
+ * This model represents a department inside a company. Departments can be
+ * nested through `parent` to describe an organisational hierarchy; a parent
+ * must always belong to the same company.
+ */
+
+/**
+ * Base Department Interface
+ */
+interface IDepartment {
+    company: Types.ObjectId;
+    name: string;
+    code?: string;
+    description?: string;
+    head?: Types.ObjectId;
+    budget?: number;
+    parent?: Types.ObjectId | null;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Department Document Interface (extends Mongoose Document)
+ */
+interface IDepartmentDocument extends IDepartment, Document {
+    // Instance methods
+    getAncestorIds(): Promise<Types.ObjectId[]>;
+}
+
+/**
+ * Department tree node returned by `getTree`
+ */
+type IDepartmentTreeNode = IDepartment & { _id: Types.ObjectId; children: IDepartmentTreeNode[] };
+
+/**
+ * Department Model Interface (for static methods)
+ */
+interface IDepartmentModel extends Model<IDepartmentDocument> {
+    // Static methods
+    findByCompany(companyId: Types.ObjectId | string): Promise<IDepartmentDocument[]>;
+    getTree(companyId: Types.ObjectId | string): Promise<IDepartmentTreeNode[]>;
+}
+
+/**
+ * Department Schema Definition
+ */
+const departmentSchema = new Schema<IDepartmentDocument, IDepartmentModel>(
+    {
+        company: {
+            type: Schema.Types.ObjectId,
+            ref: 'Company',
+            required: [true, 'Company is required'],
+        },
+        name: {
+            type: String,
+            required: [true, 'Department name is required'],
+            trim: true,
+            maxlength: [100, 'Department name cannot exceed 100 characters'],
+        },
+        code: {
+            type: String,
+            trim: true,
+            uppercase: true,
+            maxlength: [20, 'Department code cannot exceed 20 characters'],
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [1000, 'Description cannot exceed 1000 characters'],
+        },
+        head: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            default: null,
+        },
+        budget: {
+            type: Number,
+            min: [0, 'Budget cannot be negative'],
+        },
+        parent: {
+            type: Schema.Types.ObjectId,
+            ref: 'Department',
+            default: null,
+            validate: {
+                validator: function (this: IDepartmentDocument, value: Types.ObjectId | null) {
+                    return !value || !this._id || !this._id.equals(value);
+                },
+                message: 'A department cannot be its own parent',
+            },
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+departmentSchema.index({ company: 1, name: 1 }, { unique: true }); // Unique name per company
+departmentSchema.index({ company: 1, parent: 1 }); // Hierarchy lookups
+departmentSchema.index({ head: 1 }); // Departments led by an employee
+
+/**
+ * Instance Methods
+ */
+departmentSchema.methods.getAncestorIds = async function (
+    this: IDepartmentDocument
+): Promise<Types.ObjectId[]> {
+    const DepartmentModel = this.constructor as IDepartmentModel;
+    const ancestors: Types.ObjectId[] = [];
+    let parentId = this.parent;
+
+    while (parentId) {
+        // Stop on corrupted data instead of looping forever
+        if (ancestors.some(id => id.equals(parentId!))) break;
+        ancestors.push(parentId);
+        const parent = await DepartmentModel.findById(parentId).select('parent').lean();
+        parentId = parent?.parent ?? null;
+    }
+
+    return ancestors;
+};
+
+/**
+ * Static Methods
+ */
+departmentSchema.statics.findByCompany = function (
+    companyId: Types.ObjectId | string
+): Promise<IDepartmentDocument[]> {
+    return this.find({ company: companyId }).sort({ name: 1 });
+};
+
+departmentSchema.statics.getTree = async function (
+    companyId: Types.ObjectId | string
+): Promise<IDepartmentTreeNode[]> {
+    const departments = await this.find({ company: companyId }).sort({ name: 1 }).lean();
+
+    const nodes = new Map<string, IDepartmentTreeNode>();
+    departments.forEach(department => {
+        nodes.set(department._id.toString(), { ...department, children: [] });
+    });
+
+    const roots: IDepartmentTreeNode[] = [];
+    nodes.forEach(node => {
+        const parent = node.parent ? nodes.get(node.parent.toString()) : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    });
+
+    return roots;
+};
+
+/**
+ * Create and export the model
+ */
+const Department = mongoose.model<IDepartmentDocument, IDepartmentModel>(
+    'Department',
+    departmentSchema
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Department:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         company:
+ *           type: string
+ *           description: ID of the owning company
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           description: Department name (unique within the company)
+ *           example: "Engineering"
+ *         code:
+ *           type: string
+ *           maxLength: 20
+ *           description: Short department code
+ *           example: "ENG"
+ *         description:
+ *           type: string
+ *           maxLength: 1000
+ *           example: "Builds and operates the product"
+ *         head:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the employee heading the department
+ *         budget:
+ *           type: number
+ *           minimum: 0
+ *           description: Annual department budget
+ *           example: 250000
+ *         parent:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the parent department
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         _id: "64f1a2b3c4d5e6f7a8b9c0d1"
+ *         company: "60f7b3b3b3b3b3b3b3b3b3b3"
+ *         name: "Engineering"
+ *         code: "ENG"
+ *         description: "Builds and operates the product"
+ *         head: null
+ *         budget: 250000
+ *         parent: null
+ *         isActive: true
+ *         createdAt: "2023-08-01T09:00:00.000Z"
+ *         updatedAt: "2023-08-24T10:30:00.000Z"
+ */
+
+export { IDepartment, IDepartmentDocument, IDepartmentModel, IDepartmentTreeNode };
+export default Department;
@@ -0,0 +1,277 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import type { ICompanyModel } from './company.model';
+
+/**
+ * Employee Model
+ *
+ * This model represents a person employed by a company, optionally assigned
+ * to one of its departments. Terminated employees keep their record with a
+ * `terminated` status and an end date, so headcount history stays intact.
+ *
+ * Saving or deleting an employee re-syncs the owning company's headcount
+ * when the company has `autoHeadcount` enabled.
+ */
+
+// Employment type enum for validation
+export const employmentTypeEnum = [
+    'full-time',
+    'part-time',
+    'contract',
+    'intern',
+    'temporary',
+] as const;
+
+// Employment status enum for validation
+export const employeeStatusEnum = ['active', 'terminated'] as const;
+
+type EmploymentType = (typeof employmentTypeEnum)[number];
+type EmployeeStatus = (typeof employeeStatusEnum)[number];
+
+/**
+ * Base Employee Interface
+ */
+interface IEmployee {
+    company: Types.ObjectId;
+    department?: Types.ObjectId | null;
+    firstName: string;
+    lastName: string;
+    email?: string;
+    title: string;
+    employmentType: EmploymentType;
+    status: EmployeeStatus;
+    startDate: Date;
+    endDate?: Date | null;
+    terminationReason?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Employee Document Interface (extends Mongoose Document)
+ */
+interface IEmployeeDocument extends IEmployee, Document {
+    // Instance methods
+    getTenureInDays(): number;
+}
+
+/**
+ * Employee Model Interface (for static methods)
+ */
+interface IEmployeeModel extends Model<IEmployeeDocument> {
+    // Static methods
+    countActiveByCompany(companyId: Types.ObjectId | string): Promise<number>;
+}
+
+/**
+ * Employee Schema Definition
+ */
+const employeeSchema = new Schema<IEmployeeDocument, IEmployeeModel>(
+    {
+        company: {
+            type: Schema.Types.ObjectId,
+            ref: 'Company',
+            required: [true, 'Company is required'],
+        },
+        department: {
+            type: Schema.Types.ObjectId,
+            ref: 'Department',
+            default: null,
+        },
+        firstName: {
+            type: String,
+            required: [true, 'First name is required'],
+            trim: true,
+            maxlength: [50, 'First name cannot exceed 50 characters'],
+        },
+        lastName: {
+            type: String,
+            required: [true, 'Last name is required'],
+            trim: true,
+            maxlength: [50, 'Last name cannot exceed 50 characters'],
+        },
+        email: {
+            type: String,
+            lowercase: true,
+            trim: true,
+            match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email'],
+        },
+        title: {
+            type: String,
+            required: [true, 'Job title is required'],
+            trim: true,
+            maxlength: [100, 'Job title cannot exceed 100 characters'],
+        },
+        employmentType: {
+            type: String,
+            enum: {
+                values: employmentTypeEnum,
+                message: 'Please select a valid employment type',
+            },
+            default: 'full-time',
+        },
+        status: {
+            type: String,
+            enum: {
+                values: employeeStatusEnum,
+                message: 'Status must be active or terminated',
+            },
+            default: 'active',
+        },
+        startDate: {
+            type: Date,
+            required: [true, 'Start date is required'],
+            default: Date.now,
+        },
+        endDate: {
+            type: Date,
+            default: null,
+            validate: {
+                validator: function (this: IEmployeeDocument, value: Date | null) {
+                    return !value || !this.startDate || value >= this.startDate;
+                },
+                message: 'End date cannot be before the start date',
+            },
+        },
+        terminationReason: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Termination reason cannot exceed 500 characters'],
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+employeeSchema.index({ company: 1, status: 1 }); // Headcount
+employeeSchema.index({ company: 1, department: 1 }); // Department rosters
+employeeSchema.index(
+    { company: 1, email: 1 },
+    { unique: true, partialFilterExpression: { email: { $type: 'string' } } }
+); // Unique email per company
+employeeSchema.index({ lastName: 1, firstName: 1 }); // Name sorting
+
+/**
+ * Virtual Properties
+ */
+employeeSchema.virtual('fullName').get(function (this: IEmployeeDocument) {
+    return `${this.firstName} ${this.lastName}`;
+});
+
+/**
+ * Instance Methods
+ */
+employeeSchema.methods.getTenureInDays = function (this: IEmployeeDocument): number {
+    const end = this.endDate ? this.endDate.getTime() : Date.now();
+    return Math.max(0, Math.floor((end - this.startDate.getTime()) / (24 * 60 * 60 * 1000)));
+};
+
+/**
+ * Static Methods
+ */
+employeeSchema.statics.countActiveByCompany = function (
+    companyId: Types.ObjectId | string
+): Promise<number> {
+    return this.countDocuments({ company: companyId, status: 'active' });
+};
+
+/**
+ * Post-save / post-delete middleware
+ */
+const syncCompanyHeadcount = async (employee: IEmployeeDocument): Promise<void> => {
+    // Resolved lazily to avoid a circular import with the Company model
+    const Company = mongoose.model('Company') as ICompanyModel;
+    await Company.syncHeadcount(employee.company);
+};
+
+employeeSchema.post('save', async function (this: IEmployeeDocument) {
+    await syncCompanyHeadcount(this);
+});
+
+employeeSchema.post(
+    'deleteOne',
+    { document: true, query: false },
+    async function (this: IEmployeeDocument) {
+        await syncCompanyHeadcount(this);
+    }
+);
+
+/**
+ * Create and export the model
+ */
+const Employee = mongoose.model<IEmployeeDocument, IEmployeeModel>('Employee', employeeSchema);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Employee:
+ *       type: object
+ *       required:
+ *         - firstName
+ *         - lastName
+ *         - title
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         company:
+ *           type: string
+ *           description: ID of the employing company
+ *         department:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the department the employee belongs to
+ *         firstName:
+ *           type: string
+ *           maxLength: 50
+ *           example: "Jane"
+ *         lastName:
+ *           type: string
+ *           maxLength: 50
+ *           example: "Smith"
+ *         fullName:
+ *           type: string
+ *           description: Virtual field - first and last name combined
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: Work email (unique within the company)
+ *           example: "jane.smith@techsolutions.com"
+ *         title:
+ *           type: string
+ *           maxLength: 100
+ *           example: "Senior Engineer"
+ *         employmentType:
+ *           type: string
+ *           enum: [full-time, part-time, contract, intern, temporary]
+ *           default: full-time
+ *         status:
+ *           type: string
+ *           enum: [active, terminated]
+ *           default: active
+ *         startDate:
+ *           type: string
+ *           format: date
+ *           example: "2021-04-01"
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         terminationReason:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export { IEmployee, IEmployeeDocument, IEmployeeModel, EmploymentType, EmployeeStatus };
+export default Employee;
@@ -0,0 +1,226 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Idempotency Key Model
+ *
+ * Records the write requests sent with an `Idempotency-Key` header and their
+ * responses, so a retried request gets the original response instead of
+ * running again. Keys belong to the caller (user or API key) that sent them,
+ * and expire after `IDEMPOTENCY_KEY_TTL_HOURS`.
+ *
+ * A key is `processing` while its first request runs, then `completed` with
+ * the response to replay. A key left `processing` longer than the lock
+ * timeout (e.g. the server stopped mid-request) can be claimed again.
+ */
+
+export const idempotencyKeyStatusEnum = ['processing', 'completed'] as const;
+type IdempotencyKeyStatus = (typeof idempotencyKeyStatusEnum)[number];
+
+/**
+ * Base Idempotency Key Interface
+ */
+interface IIdempotencyKey {
+    owner: string;
+    key: string;
+    requestHash: string;
+    method: string;
+    path: string;
+    status: IdempotencyKeyStatus;
+    lockedAt: Date;
+    responseStatus?: number;
+    responseHeaders?: Record<string, string>;
+    responseBody?: string;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Idempotency Key Document Interface (extends Mongoose Document)
+ */
+interface IIdempotencyKeyDocument extends IIdempotencyKey, Document {
+    // Instance methods
+    complete(
+        status: number,
+        headers: Record<string, string>,
+        body: string
+    ): Promise<IIdempotencyKeyDocument>;
+}
+
+/**
+ * Request a key is claimed for
+ */
+interface IIdempotentRequest {
+    owner: string;
+    key: string;
+    requestHash: string;
+    method: string;
+    path: string;
+}
+
+/**
+ * Idempotency Key Model Interface (for static methods)
+ */
+interface IIdempotencyKeyModel extends Model<IIdempotencyKeyDocument> {
+    // Static methods
+    claim(
+        request: IIdempotentRequest
+    ): Promise<{ record: IIdempotencyKeyDocument; claimed: boolean }>;
+}
+
+// A request still running after this long is considered abandoned
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Hours a key and its response are kept
+ */
+const getIdempotencyKeyTtlHours = (): number => {
+    const hours = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+    return Number.isFinite(hours) && hours > 0 ? hours : 24;
+};
+
+/**
+ * Idempotency Key Schema Definition
+ */
+const idempotencyKeySchema = new Schema<IIdempotencyKeyDocument, IIdempotencyKeyModel>(
+    {
+        owner: {
+            type: String,
+            required: true,
+        },
+        key: {
+            type: String,
+            required: true,
+        },
+        requestHash: {
+            type: String,
+            required: true,
+        },
+        method: {
+            type: String,
+            required: true,
+        },
+        path: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: idempotencyKeyStatusEnum,
+            default: 'processing',
+        },
+        lockedAt: {
+            type: Date,
+            required: true,
+        },
+        responseStatus: {
+            type: Number,
+        },
+        responseHeaders: {
+            type: Schema.Types.Mixed,
+        },
+        responseBody: {
+            type: String,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+idempotencyKeySchema.index({ owner: 1, key: 1 }, { unique: true }); // One record per caller and key
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Purge expired keys
+
+/**
+ * Instance Methods
+ */
+idempotencyKeySchema.methods.complete = function (
+    this: IIdempotencyKeyDocument,
+    status: number,
+    headers: Record<string, string>,
+    body: string
+): Promise<IIdempotencyKeyDocument> {
+    this.status = 'completed';
+    this.responseStatus = status;
+    this.responseHeaders = headers;
+    this.responseBody = body;
+    return this.save();
+};
+
+/**
+ * Static Methods
+ */
+
+/**
+ * Claim a key for a request. Returns the new record with `claimed: true`,
+ * or the existing record of the key with `claimed: false`.
+ */
+idempotencyKeySchema.statics.claim = async function (request: IIdempotentRequest) {
+    const now = new Date();
+    const fields = {
+        ...request,
+        status: 'processing',
+        lockedAt: now,
+        expiresAt: new Date(now.getTime() + getIdempotencyKeyTtlHours() * 60 * 60 * 1000),
+    };
+
+    try {
+        const record = await this.create(fields);
+        return { record, claimed: true };
+    } catch (error) {
+        if ((error as { code?: number }).code !== 11000) throw error;
+    }
+
+    // Reuse an expired key the TTL monitor has not removed yet, or take over an abandoned request
+    const reclaimed = await this.findOneAndUpdate(
+        {
+            owner: request.owner,
+            key: request.key,
+            $or: [
+                { expiresAt: { $lte: now } },
+                {
+                    status: 'processing',
+                    requestHash: request.requestHash,
+                    lockedAt: { $lte: new Date(now.getTime() - LOCK_TIMEOUT_MS) },
+                },
+            ],
+        },
+        {
+            $set: fields,
+            $unset: { responseStatus: 1, responseHeaders: 1, responseBody: 1 },
+        },
+        { new: true }
+    );
+    if (reclaimed) return { record: reclaimed, claimed: true };
+
+    const record = await this.findOne({ owner: request.owner, key: request.key });
+    // Removed in the meantime: claim it again
+    if (!record) return this.claim(request);
+
+    return { record, claimed: false };
+};
+
+/**
+ * Create and export the model
+ */
+const IdempotencyKey = mongoose.model<IIdempotencyKeyDocument, IIdempotencyKeyModel>(
+    'IdempotencyKey',
+    idempotencyKeySchema
+);
+
+export {
+    IIdempotencyKey,
+    IIdempotencyKeyDocument,
+    IIdempotencyKeyModel,
+    IIdempotentRequest,
+    IdempotencyKeyStatus,
+    getIdempotencyKeyTtlHours,
+};
+export default IdempotencyKey;
@@ -7,13 +7,116 @@
 
 // Import and export Company model
 export { default as Company } from './company.model';
-export type { ICompany, ICompanyDocument, ICompanyModel, IndustryType } from './company.model';
+export type {
+    ICompany,
+    ICompanyDocument,
+    ICompanyModel,
+    ICompanyFacets,
+    IFacetCount,
+    IIndustryStats,
+    IndustryType,
+    SensitiveCompanyField,
+} from './company.model';
 
-// Add more model exports as you create them:
-// export { default as User } from './user.model';
-// export { default as Department } from './department.model';
-// export { default as Employee } from './employee.model';
-// export { default as Project } from './project.model';
+// Import and export User and RefreshToken models
+export { default as User } from './user.model';
+export type { IUser, IUserDocument, IUserModel, IAuthTokenPayload, UserRole } from './user.model';
+export { default as RefreshToken } from './refreshToken.model';
+export type {
+    IRefreshToken,
+    IRefreshTokenDocument,
+    IRefreshTokenModel,
+    IRefreshTokenMeta,
+} from './refreshToken.model';
+
+// Import and export ApiKey model
+export { default as ApiKey } from './apiKey.model';
+export type { IApiKey, IApiKeyDocument, IApiKeyModel, ApiKeyScope } from './apiKey.model';
+
+// Import and export Department model
+export { default as Department } from './department.model';
+export type {
+    IDepartment,
+    IDepartmentDocument,
+    IDepartmentModel,
+    IDepartmentTreeNode,
+} from './department.model';
+
+// Import and export Employee model
+export { default as Employee } from './employee.model';
+export type {
+    IEmployee,
+    IEmployeeDocument,
+    IEmployeeModel,
+    EmploymentType,
+    EmployeeStatus,
+} from './employee.model';
+
+// Import and export Project model
+export { default as Project } from './project.model';
+export type {
+    IProject,
+    IProjectDocument,
+    IProjectModel,
+    IProjectSummary,
+    ProjectStatus,
+} from './project.model';
+
+// Import and export AuditLog model
+export { default as AuditLog } from './auditLog.model';
+
+// Import and export Suggestion model
+export { default as Suggestion } from './suggestion.model';
+export type {
+    ISuggestion,
+    ISuggestionDocument,
+    ISuggestionModel,
+    SuggestionKind,
+} from './suggestion.model';
+export type {
+    IAuditLog,
+    IAuditLogDocument,
+    IAuditLogModel,
+    IAuditActor,
+    IAuditChange,
+    AuditEntity,
+    AuditAction,
+    AuditActorType,
+} from './auditLog.model';
+
+// Import and export CompanyMetric model
+export { default as CompanyMetric } from './companyMetric.model';
+export type {
+    ICompanyMetric,
+    ICompanyMetricDocument,
+    ICompanyMetricModel,
+    IMetricSubject,
+    MetricSource,
+} from './companyMetric.model';
+
+// Import and export Webhook models
+export { default as Webhook } from './webhook.model';
+export type { IWebhook, IWebhookDocument, IWebhookModel, WebhookEvent } from './webhook.model';
+export { default as WebhookDelivery } from './webhookDelivery.model';
+export type {
+    IWebhookAttempt,
+    IWebhookDelivery,
+    IWebhookDeliveryDocument,
+    IWebhookDeliveryModel,
+    WebhookDeliveryStatus,
+} from './webhookDelivery.model';
+
+// Import and export IdempotencyKey model
+export { default as IdempotencyKey } from './idempotencyKey.model';
+export type {
+    IIdempotencyKey,
+    IIdempotencyKeyDocument,
+    IIdempotencyKeyModel,
+    IIdempotentRequest,
+    IdempotencyKeyStatus,
+} from './idempotencyKey.model';
+
+// Add more model exports as you create them
 
 // Example of how to import in other files:
 // import { Company, User } from '@/models';
@@ -0,0 +1,263 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Project Model
+ *
+ * This model represents a project owned by a company. Members are employees
+ * of the same company; the controllers validate that before saving.
+ */
+
+// Project status enum for validation
+export const projectStatusEnum = [
+    'planned',
+    'active',
+    'on-hold',
+    'completed',
+    'cancelled',
+] as const;
+
+type ProjectStatus = (typeof projectStatusEnum)[number];
+
+// Statuses of projects that are still running or about to
+export const openProjectStatuses: ProjectStatus[] = ['planned', 'active', 'on-hold'];
+
+/**
+ * Base Project Interface
+ */
+interface IProject {
+    company: Types.ObjectId;
+    name: string;
+    code?: string;
+    description?: string;
+    status: ProjectStatus;
+    startDate?: Date | null;
+    endDate?: Date | null;
+    budget?: number;
+    members: Types.ObjectId[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Project Document Interface (extends Mongoose Document)
+ */
+interface IProjectDocument extends IProject, Document {
+    // Instance methods
+    isOpen(): boolean;
+}
+
+/**
+ * Project summary returned by `getStatusSummary`
+ */
+interface IProjectSummary {
+    total: number;
+    byStatus: Record<ProjectStatus, number>;
+}
+
+/**
+ * Project Model Interface (for static methods)
+ */
+interface IProjectModel extends Model<IProjectDocument> {
+    // Static methods
+    getStatusSummary(companyId: Types.ObjectId | string): Promise<IProjectSummary>;
+}
+
+/**
+ * Project Schema Definition
+ */
+const projectSchema = new Schema<IProjectDocument, IProjectModel>(
+    {
+        company: {
+            type: Schema.Types.ObjectId,
+            ref: 'Company',
+            required: [true, 'Company is required'],
+        },
+        name: {
+            type: String,
+            required: [true, 'Project name is required'],
+            trim: true,
+            maxlength: [100, 'Project name cannot exceed 100 characters'],
+        },
+        code: {
+            type: String,
+            trim: true,
+            uppercase: true,
+            maxlength: [20, 'Project code cannot exceed 20 characters'],
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [2000, 'Description cannot exceed 2000 characters'],
+        },
+        status: {
+            type: String,
+            enum: {
+                values: projectStatusEnum,
+                message: 'Please select a valid project status',
+            },
+            default: 'planned',
+        },
+        startDate: {
+            type: Date,
+            default: null,
+        },
+        endDate: {
+            type: Date,
+            default: null,
+            validate: {
+                validator: function (this: IProjectDocument, value: Date | null) {
+                    return !value || !this.startDate || value >= this.startDate;
+                },
+                message: 'End date cannot be before the start date',
+            },
+        },
+        budget: {
+            type: Number,
+            min: [0, 'Budget cannot be negative'],
+        },
+        members: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: 'Employee',
+            },
+        ],
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+projectSchema.index({ company: 1, name: 1 }, { unique: true }); // Unique name per company
+projectSchema.index({ company: 1, status: 1 }); // Status summary
+projectSchema.index({ status: 1, startDate: -1 }); // Cross-company search
+projectSchema.index({ members: 1 }); // Projects of an employee
+projectSchema.index({ name: 'text', description: 'text' }); // Text search
+
+/**
+ * Virtual Properties
+ */
+projectSchema.virtual('memberCount').get(function (this: IProjectDocument) {
+    return this.members?.length ?? 0;
+});
+
+/**
+ * Instance Methods
+ */
+projectSchema.methods.isOpen = function (this: IProjectDocument): boolean {
+    return openProjectStatuses.includes(this.status);
+};
+
+/**
+ * Static Methods
+ */
+projectSchema.statics.getStatusSummary = async function (
+    companyId: Types.ObjectId | string
+): Promise<IProjectSummary> {
+    const counts: { _id: ProjectStatus; count: number }[] = await this.aggregate([
+        { $match: { company: new Types.ObjectId(companyId.toString()) } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
+    const byStatus = Object.fromEntries(projectStatusEnum.map(status => [status, 0])) as Record<
+        ProjectStatus,
+        number
+    >;
+    counts.forEach(({ _id, count }) => {
+        byStatus[_id] = count;
+    });
+
+    return {
+        total: counts.reduce((sum, { count }) => sum + count, 0),
+        byStatus,
+    };
+};
+
+/**
+ * Create and export the model
+ */
+const Project = mongoose.model<IProjectDocument, IProjectModel>('Project', projectSchema);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Project:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         company:
+ *           type: string
+ *           description: ID of the owning company
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           description: Project name (unique within the company)
+ *           example: "Customer Portal"
+ *         code:
+ *           type: string
+ *           maxLength: 20
+ *           example: "PORTAL"
+ *         description:
+ *           type: string
+ *           maxLength: 2000
+ *           example: "Self-service portal for enterprise customers"
+ *         status:
+ *           type: string
+ *           enum: [planned, active, on-hold, completed, cancelled]
+ *           default: planned
+ *         startDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           example: "2024-01-15"
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         budget:
+ *           type: number
+ *           minimum: 0
+ *           example: 120000
+ *         members:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: IDs of the employees working on the project
+ *         memberCount:
+ *           type: integer
+ *           description: Virtual field - number of members
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     ProjectSummary:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           example: 7
+ *         byStatus:
+ *           type: object
+ *           additionalProperties:
+ *             type: integer
+ *           example:
+ *             planned: 2
+ *             active: 3
+ *             on-hold: 0
+ *             completed: 2
+ *             cancelled: 0
+ */
+
+export { IProject, IProjectDocument, IProjectModel, IProjectSummary, ProjectStatus };
+export default Project;
@@ -0,0 +1,219 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import crypto from 'crypto';
+
+/**
+ * Refresh Token Model
+ *
+ * Stores hashed refresh tokens issued at login. Tokens are rotated on every
+ * refresh: the presented token is revoked and a new one is issued in the same
+ * family. Presenting an already revoked token revokes the whole family, which
+ * cuts off a stolen token as soon as either party uses it.
+ */
+
+/**
+ * Base Refresh Token Interface
+ */
+interface IRefreshToken {
+    user: Types.ObjectId;
+    tokenHash: string;
+    family: string;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+    replacedByHash?: string;
+    createdByIp?: string;
+    userAgent?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Refresh Token Document Interface (extends Mongoose Document)
+ */
+interface IRefreshTokenDocument extends IRefreshToken, Document {
+    // Instance methods
+    isUsable(): boolean;
+    revoke(reason: string, replacedByHash?: string): Promise<IRefreshTokenDocument>;
+}
+
+/**
+ * Metadata recorded alongside an issued token
+ */
+interface IRefreshTokenMeta {
+    ip?: string;
+    userAgent?: string;
+}
+
+/**
+ * Refresh Token Model Interface (for static methods)
+ */
+interface IRefreshTokenModel extends Model<IRefreshTokenDocument> {
+    // Static methods
+    hashToken(token: string): string;
+    issue(
+        userId: Types.ObjectId | string,
+        meta?: IRefreshTokenMeta,
+        family?: string
+    ): Promise<{ token: string; document: IRefreshTokenDocument }>;
+    findByToken(token: string): Promise<IRefreshTokenDocument | null>;
+    rotate(token: string): Promise<IRefreshTokenDocument | null>;
+    revokeFamily(family: string, reason: string): Promise<void>;
+    revokeAllForUser(userId: Types.ObjectId | string, reason: string): Promise<void>;
+}
+
+/**
+ * Refresh token lifetime in days
+ */
+const getRefreshTokenTtlDays = (): number =>
+    parseInt(process.env.JWT_REFRESH_EXPIRE_DAYS || '30', 10);
+
+/**
+ * Refresh Token Schema Definition
+ */
+const refreshTokenSchema = new Schema<IRefreshTokenDocument, IRefreshTokenModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'User is required'],
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        family: {
+            type: String,
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+        revokedReason: {
+            type: String,
+            trim: true,
+        },
+        replacedByHash: {
+            type: String,
+        },
+        createdByIp: {
+            type: String,
+        },
+        userAgent: {
+            type: String,
+            maxlength: 500,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Purge expired tokens
+refreshTokenSchema.index({ family: 1 }); // Family revocation
+refreshTokenSchema.index({ user: 1 }); // Per-user revocation
+
+/**
+ * Instance Methods
+ */
+refreshTokenSchema.methods.isUsable = function (this: IRefreshTokenDocument): boolean {
+    return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+};
+
+refreshTokenSchema.methods.revoke = function (
+    this: IRefreshTokenDocument,
+    reason: string,
+    replacedByHash?: string
+): Promise<IRefreshTokenDocument> {
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+    if (replacedByHash) this.replacedByHash = replacedByHash;
+    return this.save();
+};
+
+/**
+ * Static Methods
+ */
+refreshTokenSchema.statics.hashToken = function (token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+refreshTokenSchema.statics.issue = async function (
+    userId: Types.ObjectId | string,
+    meta: IRefreshTokenMeta = {},
+    family?: string
+) {
+    const token = crypto.randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+
+    const document = await this.create({
+        user: userId,
+        tokenHash: this.hashToken(token),
+        family: family || crypto.randomUUID(),
+        expiresAt,
+        createdByIp: meta.ip,
+        userAgent: meta.userAgent,
+    });
+
+    return { token, document };
+};
+
+refreshTokenSchema.statics.findByToken = function (
+    token: string
+): Promise<IRefreshTokenDocument | null> {
+    return this.findOne({ tokenHash: this.hashToken(token) });
+};
+
+/**
+ * Revoke a usable token for rotation in a single atomic update, so concurrent
+ * refreshes with the same token cannot both succeed. Returns null when the
+ * token was already revoked, expired or unknown.
+ */
+refreshTokenSchema.statics.rotate = function (
+    token: string
+): Promise<IRefreshTokenDocument | null> {
+    return this.findOneAndUpdate(
+        { tokenHash: this.hashToken(token), revokedAt: null, expiresAt: { $gt: new Date() } },
+        { $set: { revokedAt: new Date(), revokedReason: 'Rotated' } },
+        { new: true }
+    );
+};
+
+refreshTokenSchema.statics.revokeFamily = async function (
+    family: string,
+    reason: string
+): Promise<void> {
+    await this.updateMany(
+        { family, revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+};
+
+refreshTokenSchema.statics.revokeAllForUser = async function (
+    userId: Types.ObjectId | string,
+    reason: string
+): Promise<void> {
+    await this.updateMany(
+        { user: userId, revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+};
+
+/**
+ * Create and export the model
+ */
+const RefreshToken = mongoose.model<IRefreshTokenDocument, IRefreshTokenModel>(
+    'RefreshToken',
+    refreshTokenSchema
+);
+
+export { IRefreshToken, IRefreshTokenDocument, IRefreshTokenModel, IRefreshTokenMeta };
+export default RefreshToken;
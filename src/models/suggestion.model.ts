@@ -0,0 +1,149 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Suggestion Model
+ *
+ * This model is the autocomplete index behind `GET /companies/search/suggestions`.
+ * It holds one entry per company name, industry and location, with the
+ * normalized text, its words and trigrams precomputed, so suggestions are
+ * answered from small indexed lookups instead of scanning companies.
+ *
+ * Entries are derived data: the suggestion service keeps them in sync when
+ * companies change and can rebuild the whole index from the companies.
+ */
+
+// Kinds of suggestions, in the order they are returned
+export const suggestionKindEnum = ['company', 'industry', 'location'] as const;
+
+type SuggestionKind = (typeof suggestionKindEnum)[number];
+
+/**
+ * Base Suggestion Interface
+ */
+interface ISuggestion {
+    kind: SuggestionKind;
+    // Company ID for companies, normalized text for industries and locations
+    key: string;
+    value: string;
+    normalized: string;
+    words: string[];
+    trigrams: string[];
+    // Popularity: headcount for companies, number of companies otherwise
+    count: number;
+    company?: Types.ObjectId | null;
+    syncedAt: Date;
+}
+
+/**
+ * Suggestion Document Interface (extends Mongoose Document)
+ */
+interface ISuggestionDocument extends ISuggestion, Document {}
+
+/**
+ * Suggestion Model Interface
+ */
+type ISuggestionModel = Model<ISuggestionDocument>;
+
+/**
+ * Suggestion Schema Definition
+ */
+const suggestionSchema = new Schema<ISuggestionDocument, ISuggestionModel>(
+    {
+        kind: {
+            type: String,
+            enum: suggestionKindEnum,
+            required: [true, 'Suggestion kind is required'],
+        },
+        key: {
+            type: String,
+            required: [true, 'Suggestion key is required'],
+        },
+        value: {
+            type: String,
+            required: [true, 'Suggestion value is required'],
+        },
+        normalized: {
+            type: String,
+            required: true,
+        },
+        words: [String],
+        trigrams: [String],
+        count: {
+            type: Number,
+            default: 0,
+        },
+        company: {
+            type: Schema.Types.ObjectId,
+            ref: 'Company',
+            default: null,
+        },
+        syncedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+suggestionSchema.index({ kind: 1, key: 1 }, { unique: true }); // One entry per value
+suggestionSchema.index({ kind: 1, normalized: 1 }); // Prefix matches
+suggestionSchema.index({ kind: 1, words: 1 }); // Word prefix matches
+suggestionSchema.index({ kind: 1, trigrams: 1 }); // Typo-tolerant candidates
+suggestionSchema.index({ syncedAt: 1 }); // Stale entries after a rebuild
+
+/**
+ * Create and export the model
+ */
+const Suggestion = mongoose.model<ISuggestionDocument, ISuggestionModel>(
+    'Suggestion',
+    suggestionSchema
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SuggestionGroups:
+ *       type: object
+ *       description: Suggestions per kind, best matches first
+ *       properties:
+ *         company:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Suggestion'
+ *         industry:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Suggestion'
+ *         location:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Suggestion'
+ *     Suggestion:
+ *       type: object
+ *       properties:
+ *         value:
+ *           type: string
+ *           example: "Tech Solutions Inc"
+ *         count:
+ *           type: integer
+ *           description: Headcount for companies, number of companies for industries and locations
+ *           example: 250
+ *         match:
+ *           type: string
+ *           enum: [prefix, word, fuzzy]
+ *           description: >
+ *             prefix - the value starts with the query; word - a later word starts with it;
+ *             fuzzy - matched with one or two typos
+ *         companyId:
+ *           type: string
+ *           description: ID of the company (company suggestions only)
+ */
+
+export { ISuggestion, ISuggestionDocument, ISuggestionModel, SuggestionKind };
+export default Suggestion;
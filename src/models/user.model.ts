@@ -0,0 +1,262 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+
+/**
+ * User Model
+ *
+ * This model represents an authenticated account in the system.
+ * It stores profile details, the hashed password and the user's role.
+ */
+
+// Role enum for validation
+export const userRoleEnum = ['admin', 'manager', 'employee'] as const;
+
+type UserRole = (typeof userRoleEnum)[number];
+
+/**
+ * Base User Interface
+ */
+interface IUser {
+    firstName: string;
+    lastName: string;
+    email: string;
+    password: string;
+    role: UserRole;
+    isActive: boolean;
+    avatar?: string;
+    lastLogin?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * User Document Interface (extends Mongoose Document)
+ */
+interface IUserDocument extends IUser, Document {
+    // Instance methods
+    comparePassword(candidatePassword: string): Promise<boolean>;
+    generateAuthToken(): string;
+    getPublicProfile(): Omit<IUser, 'password'>;
+}
+
+/**
+ * User Model Interface (for static methods)
+ */
+interface IUserModel extends Model<IUserDocument> {
+    // Static methods
+    findByEmail(email: string): Promise<IUserDocument | null>;
+    findActiveUsers(): Promise<IUserDocument[]>;
+}
+
+/**
+ * Payload carried by access tokens
+ */
+interface IAuthTokenPayload {
+    id: string;
+    email: string;
+    role: UserRole;
+}
+
+/**
+ * User Schema Definition
+ */
+const userSchema = new Schema<IUserDocument>(
+    {
+        firstName: {
+            type: String,
+            required: [true, 'First name is required'],
+            trim: true,
+            maxlength: [50, 'First name cannot exceed 50 characters'],
+        },
+        lastName: {
+            type: String,
+            required: [true, 'Last name is required'],
+            trim: true,
+            maxlength: [50, 'Last name cannot exceed 50 characters'],
+        },
+        email: {
+            type: String,
+            required: [true, 'Email is required'],
+            unique: true,
+            lowercase: true,
+            trim: true,
+            match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email'],
+        },
+        password: {
+            type: String,
+            required: [true, 'Password is required'],
+            minlength: [8, 'Password must be at least 8 characters'],
+            select: false, // Don't include in queries by default
+        },
+        role: {
+            type: String,
+            enum: {
+                values: userRoleEnum,
+                message: 'Role must be admin, manager, or employee',
+            },
+            default: 'employee',
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        avatar: {
+            type: String,
+            default: null,
+        },
+        lastLogin: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+userSchema.index({ role: 1, isActive: 1 }); // Role filtering
+userSchema.index({ createdAt: -1 }); // Recent users
+
+/**
+ * Virtual Properties
+ */
+userSchema.virtual('fullName').get(function (this: IUserDocument) {
+    return `${this.firstName} ${this.lastName}`;
+});
+
+/**
+ * Pre-save middleware
+ */
+userSchema.pre('save', async function (this: IUserDocument, next) {
+    // Hash password whenever it changes
+    if (!this.isModified('password')) return next();
+
+    try {
+        const salt = await bcrypt.genSalt(12);
+        this.password = await bcrypt.hash(this.password, salt);
+        next();
+    } catch (error) {
+        next(error as Error);
+    }
+});
+
+/**
+ * Instance Methods
+ */
+userSchema.methods.comparePassword = function (
+    this: IUserDocument,
+    candidatePassword: string
+): Promise<boolean> {
+    return bcrypt.compare(candidatePassword, this.password);
+};
+
+userSchema.methods.generateAuthToken = function (this: IUserDocument): string {
+    const payload: IAuthTokenPayload = {
+        id: this._id.toString(),
+        email: this.email,
+        role: this.role,
+    };
+    return jwt.sign(payload, process.env.JWT_SECRET!, {
+        expiresIn: process.env.JWT_EXPIRE || '15m',
+    } as jwt.SignOptions);
+};
+
+userSchema.methods.getPublicProfile = function (this: IUserDocument) {
+    const userObject = this.toObject();
+    delete userObject.password;
+    return userObject;
+};
+
+/**
+ * Static Methods
+ */
+userSchema.statics.findByEmail = function (email: string): Promise<IUserDocument | null> {
+    return this.findOne({ email: email.toLowerCase().trim() }).select('+password');
+};
+
+userSchema.statics.findActiveUsers = function (): Promise<IUserDocument[]> {
+    return this.find({ isActive: true }).sort({ createdAt: -1 });
+};
+
+/**
+ * Create and export the model
+ */
+const User = mongoose.model<IUserDocument, IUserModel>('User', userSchema);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ *       required:
+ *         - firstName
+ *         - lastName
+ *         - email
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         firstName:
+ *           type: string
+ *           maxLength: 50
+ *           description: User's first name
+ *         lastName:
+ *           type: string
+ *           maxLength: 50
+ *           description: User's last name
+ *         fullName:
+ *           type: string
+ *           description: Virtual field - first and last name combined
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: User's email address (unique)
+ *         role:
+ *           type: string
+ *           enum: [admin, manager, employee]
+ *           default: employee
+ *           description: User's role in the system
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *           description: Whether the user account is active
+ *         avatar:
+ *           type: string
+ *           nullable: true
+ *           description: URL to user's avatar image
+ *         lastLogin:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Last login timestamp
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Account creation timestamp
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Last update timestamp
+ *       example:
+ *         _id: "60f7b3b3b3b3b3b3b3b3b3b3"
+ *         firstName: "John"
+ *         lastName: "Doe"
+ *         fullName: "John Doe"
+ *         email: "john.doe@company.com"
+ *         role: "employee"
+ *         isActive: true
+ *         avatar: null
+ *         lastLogin: "2023-08-24T10:30:00.000Z"
+ *         createdAt: "2023-08-01T09:00:00.000Z"
+ *         updatedAt: "2023-08-24T10:30:00.000Z"
+ */
+
+export { IUser, IUserDocument, IUserModel, IAuthTokenPayload, UserRole };
+export default User;
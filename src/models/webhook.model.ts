@@ -0,0 +1,182 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import crypto from 'crypto';
+
+/**
+ * Webhook Model
+ *
+ * This model represents a subscription of a downstream system (CRM, data
+ * warehouse) to company lifecycle events. Matching events are POSTed to the
+ * subscription URL, signed with its secret. The secret is needed to sign
+ * payloads, so it is stored as is but never selected by default, and only
+ * returned once, when the subscription is created.
+ */
+
+// Events a subscription can receive
+export const webhookEventEnum = [
+    'company.created',
+    'company.updated',
+    'company.deactivated',
+    'company.deleted',
+    'company.restored',
+    'company.purged',
+] as const;
+
+type WebhookEvent = (typeof webhookEventEnum)[number];
+
+/**
+ * Base Webhook Interface
+ */
+interface IWebhook {
+    name: string;
+    url: string;
+    events: WebhookEvent[];
+    secret: string;
+    description?: string;
+    isActive: boolean;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Webhook Document Interface (extends Mongoose Document)
+ */
+interface IWebhookDocument extends IWebhook, Document {}
+
+/**
+ * Webhook Model Interface (for static methods)
+ */
+interface IWebhookModel extends Model<IWebhookDocument> {
+    // Static methods
+    generateSecret(): string;
+    findSubscribers(event: WebhookEvent): Promise<IWebhookDocument[]>;
+}
+
+/**
+ * Prefix identifying secrets generated by this API
+ */
+const SECRET_PREFIX = 'whsec';
+
+/**
+ * Webhook Schema Definition
+ */
+const webhookSchema = new Schema<IWebhookDocument, IWebhookModel>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Webhook name is required'],
+            trim: true,
+            maxlength: [100, 'Webhook name cannot exceed 100 characters'],
+        },
+        url: {
+            type: String,
+            required: [true, 'Webhook URL is required'],
+            trim: true,
+            maxlength: [2048, 'Webhook URL cannot exceed 2048 characters'],
+            match: [/^https?:\/\/[^\s/$.?#].[^\s]*$/, 'Please enter a valid http(s) URL'],
+        },
+        events: {
+            type: [String],
+            enum: {
+                values: webhookEventEnum,
+                message: 'Please select a valid event',
+            },
+            validate: {
+                validator: function (value: string[]) {
+                    return value.length > 0;
+                },
+                message: 'At least one event is required',
+            },
+        },
+        secret: {
+            type: String,
+            required: [true, 'Webhook secret is required'],
+            minlength: [16, 'Webhook secret must be at least 16 characters long'],
+            select: false,
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Description cannot exceed 500 characters'],
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+webhookSchema.index({ isActive: 1, events: 1 }); // Subscribers of an event
+
+/**
+ * Static Methods
+ */
+webhookSchema.statics.generateSecret = function (): string {
+    return `${SECRET_PREFIX}_${crypto.randomBytes(24).toString('base64url')}`;
+};
+
+webhookSchema.statics.findSubscribers = function (
+    event: WebhookEvent
+): Promise<IWebhookDocument[]> {
+    return this.find({ isActive: true, events: event });
+};
+
+/**
+ * Create and export the model
+ */
+const Webhook = mongoose.model<IWebhookDocument, IWebhookModel>('Webhook', webhookSchema);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Webhook:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated unique identifier
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           example: "CRM sync"
+ *         url:
+ *           type: string
+ *           format: uri
+ *           example: "https://crm.example.com/hooks/companies"
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [company.created, company.updated, company.deactivated, company.deleted, company.restored, company.purged]
+ *           example: ["company.created", "company.updated"]
+ *         description:
+ *           type: string
+ *           maxLength: 500
+ *         isActive:
+ *           type: boolean
+ *           description: Inactive subscriptions receive no new events; pending retries wait.
+ *         createdBy:
+ *           type: string
+ *           description: ID of the user who created the subscription
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export { IWebhook, IWebhookDocument, IWebhookModel, WebhookEvent };
+export default Webhook;
@@ -0,0 +1,233 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { webhookEventEnum } from './webhook.model';
+import type { WebhookEvent } from './webhook.model';
+
+/**
+ * Webhook Delivery Model
+ *
+ * This model records the delivery of one event to one webhook subscription
+ * and every attempt made. Failed attempts are retried with exponential
+ * backoff; after the last attempt the delivery is dead-lettered and only
+ * sent again when it is replayed. A replay is a new delivery of the same
+ * payload, so the log of the original is kept.
+ */
+
+// Delivery states
+export const webhookDeliveryStatusEnum = ['pending', 'succeeded', 'dead'] as const;
+
+type WebhookDeliveryStatus = (typeof webhookDeliveryStatusEnum)[number];
+
+/**
+ * Outcome of one delivery attempt
+ */
+interface IWebhookAttempt {
+    at: Date;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+/**
+ * Base Webhook Delivery Interface
+ */
+interface IWebhookDelivery {
+    webhook: Types.ObjectId;
+    event: WebhookEvent;
+    // Same for every delivery (and replay) of one event
+    eventId: string;
+    payload: Record<string, unknown>;
+    status: WebhookDeliveryStatus;
+    attempts: IWebhookAttempt[];
+    nextAttemptAt: Date | null;
+    // Claimed by a dispatcher until then, so two instances never send it at once
+    lockedUntil: Date | null;
+    deliveredAt: Date | null;
+    deadAt: Date | null;
+    replayOf: Types.ObjectId | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Webhook Delivery Document Interface (extends Mongoose Document)
+ */
+interface IWebhookDeliveryDocument extends IWebhookDelivery, Document {}
+
+/**
+ * Webhook Delivery Model Interface (for static methods)
+ */
+interface IWebhookDeliveryModel extends Model<IWebhookDeliveryDocument> {
+    // Static methods
+    claimNext(lockMs: number): Promise<IWebhookDeliveryDocument | null>;
+}
+
+/**
+ * Webhook Delivery Schema Definition
+ */
+const webhookDeliverySchema = new Schema<IWebhookDeliveryDocument, IWebhookDeliveryModel>(
+    {
+        webhook: {
+            type: Schema.Types.ObjectId,
+            ref: 'Webhook',
+            required: [true, 'Webhook is required'],
+        },
+        event: {
+            type: String,
+            enum: webhookEventEnum,
+            required: [true, 'Event is required'],
+        },
+        eventId: {
+            type: String,
+            required: [true, 'Event ID is required'],
+        },
+        payload: {
+            type: Schema.Types.Mixed,
+            required: [true, 'Payload is required'],
+        },
+        status: {
+            type: String,
+            enum: webhookDeliveryStatusEnum,
+            default: 'pending',
+        },
+        attempts: [
+            {
+                _id: false,
+                at: { type: Date, required: true },
+                statusCode: Number,
+                error: String,
+                durationMs: { type: Number, required: true },
+            },
+        ],
+        nextAttemptAt: {
+            type: Date,
+            default: Date.now,
+        },
+        lockedUntil: {
+            type: Date,
+            default: null,
+        },
+        deliveredAt: {
+            type: Date,
+            default: null,
+        },
+        deadAt: {
+            type: Date,
+            default: null,
+        },
+        replayOf: {
+            type: Schema.Types.ObjectId,
+            ref: 'WebhookDelivery',
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+/**
+ * Indexes for better query performance
+ */
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 }); // Due deliveries
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 }); // Delivery log
+webhookDeliverySchema.index({ status: 1, deadAt: -1 }); // Dead-letter queue
+
+/**
+ * Static Methods
+ */
+webhookDeliverySchema.statics.claimNext = function (
+    lockMs: number
+): Promise<IWebhookDeliveryDocument | null> {
+    const now = new Date();
+    return this.findOneAndUpdate(
+        {
+            status: 'pending',
+            nextAttemptAt: { $lte: now },
+            $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+        },
+        { $set: { lockedUntil: new Date(now.getTime() + lockMs) } },
+        { sort: { nextAttemptAt: 1 }, new: true }
+    );
+};
+
+/**
+ * Create and export the model
+ */
+const WebhookDelivery = mongoose.model<IWebhookDeliveryDocument, IWebhookDeliveryModel>(
+    'WebhookDelivery',
+    webhookDeliverySchema
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Delivery ID, sent in the `X-Webhook-Delivery` header
+ *         webhook:
+ *           type: string
+ *           description: ID of the subscription
+ *         event:
+ *           type: string
+ *           example: "company.updated"
+ *         eventId:
+ *           type: string
+ *           description: Event ID, sent in the `X-Webhook-Event-Id` header; kept by replays
+ *         payload:
+ *           type: object
+ *           description: The JSON body sent
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, dead]
+ *           description: >
+ *             `pending` until delivered or out of attempts, then `succeeded` or `dead`
+ *             (dead-lettered).
+ *         attempts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *               statusCode:
+ *                 type: integer
+ *                 example: 503
+ *               error:
+ *                 type: string
+ *                 example: "Responded with HTTP 503"
+ *               durationMs:
+ *                 type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         deadAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         replayOf:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the delivery this one replays
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export {
+    IWebhookAttempt,
+    IWebhookDelivery,
+    IWebhookDeliveryDocument,
+    IWebhookDeliveryModel,
+    WebhookDeliveryStatus,
+};
+export default WebhookDelivery;
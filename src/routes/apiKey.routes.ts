@@ -0,0 +1,17 @@
+import { createApiKey, getAllApiKeys, revokeApiKey } from '../controllers/apiKey.controller';
+import { authenticateUser, authorize } from '../middleware/auth.middleware';
+import idempotency from '../middleware/idempotency.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import { createApiKeyRoute, getAllApiKeysRoute, revokeApiKeyRoute } from '../schemas';
+import { Router } from 'express';
+
+const router = Router();
+
+// Keys are managed by users only; an API key cannot mint or revoke other keys
+router.use(authenticateUser, authorize('apiKey:manage'), idempotency);
+
+router.post('/', validateRequest(createApiKeyRoute), createApiKey);
+router.get('/', validateRequest(getAllApiKeysRoute), getAllApiKeys);
+router.delete('/:id', validateRequest(revokeApiKeyRoute), revokeApiKey);
+
+export default router;
@@ -0,0 +1,13 @@
+import { getAuditLog } from '../controllers/audit.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import { getAuditLogRoute } from '../schemas';
+import { Router } from 'express';
+
+const router = Router();
+
+router.use(authenticate, authorize('audit:read'));
+
+router.get('/', validateRequest(getAuditLogRoute), getAuditLog);
+
+export default router;
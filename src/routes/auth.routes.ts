@@ -0,0 +1,16 @@
+import { register, login, refresh, logout, logoutAll } from '../controllers/auth.controller';
+import { authenticateUser } from '../middleware/auth.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import { loginRoute, logoutRoute, refreshRoute, registerRoute } from '../schemas';
+import { Router } from 'express';
+
+const router = Router();
+
+// No idempotency: a replayed response would hand out tokens already issued or rotated
+router.post('/register', validateRequest(registerRoute), register);
+router.post('/login', validateRequest(loginRoute), login);
+router.post('/refresh', validateRequest(refreshRoute), refresh);
+router.post('/logout', validateRequest(logoutRoute), logout);
+router.post('/logout-all', authenticateUser, logoutAll);
+
+export default router;
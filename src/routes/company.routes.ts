@@ -1,29 +1,238 @@
 import {
     createCompany,
+    importCompanies,
+    exportCompanies,
+    streamCompanies,
+    bulkUpdateCompanies,
+    bulkDeleteCompanies,
     getAllCompanies,
     getCompanyById,
     updateCompany,
     deleteCompany,
     searchSuggestion,
     searchCompanies,
+    getTrash,
+    restoreCompany,
+    purgeCompanies,
 } from '../controllers/company.controller';
-import { Router } from 'express';
+import { getCompanyHistory } from '../controllers/audit.controller';
+import {
+    getAnalyticsOverview,
+    getIndustryStats,
+    getRevenueStats,
+    getEmployeeStats,
+    getFoundedStats,
+    getLocationStats,
+    getActivityStats,
+    getIndustryTrendStats,
+    getCompanyMetricHistory,
+} from '../controllers/analytics.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import idempotency from '../middleware/idempotency.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import {
+    createCompanyRoute,
+    importCompaniesRoute,
+    bulkUpdateCompaniesRoute,
+    bulkDeleteCompaniesRoute,
+    searchSuggestionsRoute,
+    searchCompaniesRoute,
+    exportCompaniesRoute,
+    streamCompaniesRoute,
+    getAnalyticsOverviewRoute,
+    getLocationStatsRoute,
+    statsRoutes,
+    getIndustryTrendStatsRoute,
+    getAllCompaniesRoute,
+    getCompanyByIdRoute,
+    updateCompanyRoute,
+    deleteCompanyRoute,
+    getTrashRoute,
+    purgeCompaniesRoute,
+    restoreCompanyRoute,
+    getCompanyHistoryRoute,
+    getCompanyMetricsRoute,
+    companyResourceRoutes,
+} from '../schemas';
+import departmentRoutes from './department.routes';
+import employeeRoutes from './employee.routes';
+import companyProjectRoutes from './companyProject.routes';
+import express, { Router } from 'express';
 
 const router = Router();
 
-router.post('/', createCompany);
+// Every company route requires a logged-in user
+router.use(authenticate);
+
+// Bulk import bodies (JSON bodies are parsed by the app, CSV and NDJSON arrive as text),
+// parsed before idempotency keys so they are part of the request fingerprint
+router.use(
+    '/import',
+    express.text({
+        type: ['text/csv', 'text/plain', 'application/x-ndjson', 'application/ndjson'],
+        limit: '10mb',
+    })
+);
+
+// Retried writes with an Idempotency-Key replay the first response
+router.use(idempotency);
+
+router.post('/', authorize('company:create'), validateRequest(createCompanyRoute), createCompany);
+
+// Bulk import
+router.post(
+    '/import',
+    authorize('company:create'),
+    validateRequest(importCompaniesRoute),
+    importCompanies
+);
+
+// Bulk operations (before /:id so "bulk" is not read as an ID)
+router.patch(
+    '/bulk',
+    authorize('company:update'),
+    validateRequest(bulkUpdateCompaniesRoute),
+    bulkUpdateCompanies
+);
+router.post(
+    '/bulk-delete',
+    authorize('company:delete'),
+    validateRequest(bulkDeleteCompaniesRoute),
+    bulkDeleteCompanies
+);
 
 // Search & Filter
-router.get('/search/suggestions', searchSuggestion);
-router.get('/search', searchCompanies);
+router.get(
+    '/search/suggestions',
+    authorize('company:read'),
+    validateRequest(searchSuggestionsRoute),
+    searchSuggestion
+);
+router.get(
+    '/search',
+    authorize('company:read'),
+    validateRequest(searchCompaniesRoute),
+    searchCompanies
+);
+router.get(
+    '/export',
+    authorize('company:read'),
+    validateRequest(exportCompaniesRoute),
+    exportCompanies
+);
+
+// Live change feed (Server-Sent Events)
+router.get(
+    '/stream',
+    authorize('company:read'),
+    validateRequest(streamCompaniesRoute),
+    streamCompanies
+);
+
+// Analytics
+router.get(
+    '/stats',
+    authorize('stats:read'),
+    validateRequest(getAnalyticsOverviewRoute),
+    getAnalyticsOverview
+);
+router.get(
+    '/stats/industry',
+    authorize('stats:read'),
+    validateRequest(statsRoutes.industry),
+    getIndustryStats
+);
+router.get(
+    '/stats/revenue',
+    authorize('stats:read', 'company:readSensitive'),
+    validateRequest(statsRoutes.revenue),
+    getRevenueStats
+);
+router.get(
+    '/stats/employees',
+    authorize('stats:read'),
+    validateRequest(statsRoutes.employees),
+    getEmployeeStats
+);
+router.get(
+    '/stats/founded',
+    authorize('stats:read'),
+    validateRequest(statsRoutes.founded),
+    getFoundedStats
+);
+router.get(
+    '/stats/locations',
+    authorize('stats:read'),
+    validateRequest(getLocationStatsRoute),
+    getLocationStats
+);
+router.get(
+    '/stats/activity',
+    authorize('stats:read'),
+    validateRequest(statsRoutes.activity),
+    getActivityStats
+);
+router.get(
+    '/stats/trends',
+    authorize('stats:read'),
+    validateRequest(getIndustryTrendStatsRoute),
+    getIndustryTrendStats
+);
+
+// Trash
+router.get('/trash', authorize('company:delete'), validateRequest(getTrashRoute), getTrash);
+router.post(
+    '/trash/purge',
+    authorize('company:purge'),
+    validateRequest(purgeCompaniesRoute),
+    purgeCompanies
+);
+router.post(
+    '/:id/restore',
+    authorize('company:delete'),
+    validateRequest(restoreCompanyRoute),
+    restoreCompany
+);
 
 // Basic CRUD
-router.get('/', getAllCompanies);
-router.get('/:id', getCompanyById);
-router.patch('/:id', updateCompany);
-router.delete('/:id', deleteCompany);
+router.get('/', authorize('company:read'), validateRequest(getAllCompaniesRoute), getAllCompanies);
+router.get('/:id', authorize('company:read'), validateRequest(getCompanyByIdRoute), getCompanyById);
+router.patch(
+    '/:id',
+    authorize('company:update'),
+    validateRequest(updateCompanyRoute),
+    updateCompany
+);
+router.delete(
+    '/:id',
+    authorize('company:delete'),
+    validateRequest(deleteCompanyRoute),
+    deleteCompany
+);
+
+// Audit trail
+router.get(
+    '/:id/history',
+    authorize('audit:read'),
+    validateRequest(getCompanyHistoryRoute),
+    getCompanyHistory
+);
+
+// Metric history
+router.get(
+    '/:id/metrics',
+    authorize('company:read'),
+    validateRequest(getCompanyMetricsRoute),
+    getCompanyMetricHistory
+);
 
-// // Analytics
-// router.get('/stats/industry', companyController.getIndustryStats);
+// Nested resources
+router.use(
+    '/:id/departments',
+    validateRequest(companyResourceRoutes.departments),
+    departmentRoutes
+);
+router.use('/:id/employees', validateRequest(companyResourceRoutes.employees), employeeRoutes);
+router.use('/:id/projects', validateRequest(companyResourceRoutes.projects), companyProjectRoutes);
 
 export default router;
@@ -0,0 +1,53 @@
+import {
+    createProject,
+    getProjects,
+    getProjectById,
+    updateProject,
+    deleteProject,
+    addProjectMembers,
+    removeProjectMember,
+} from '../controllers/project.controller';
+import { authorize } from '../middleware/auth.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import {
+    projectRoute,
+    createProjectRoute,
+    getProjectsRoute,
+    updateProjectRoute,
+    addProjectMembersRoute,
+    removeProjectMemberRoute,
+} from '../schemas';
+import { Router } from 'express';
+
+// Mounted under /companies/:id/projects, so the company ID comes from the parent router
+const router = Router({ mergeParams: true });
+
+// Check the project ID of every route below before the handlers run
+router.use('/:projectId', validateRequest(projectRoute));
+
+router.post('/', authorize('company:update'), validateRequest(createProjectRoute), createProject);
+router.get('/', authorize('company:read'), validateRequest(getProjectsRoute), getProjects);
+router.get('/:projectId', authorize('company:read'), getProjectById);
+router.patch(
+    '/:projectId',
+    authorize('company:update'),
+    validateRequest(updateProjectRoute),
+    updateProject
+);
+router.delete('/:projectId', authorize('company:update'), deleteProject);
+
+// Members
+router.post(
+    '/:projectId/members',
+    authorize('company:update'),
+    validateRequest(addProjectMembersRoute),
+    addProjectMembers
+);
+router.delete(
+    '/:projectId/members/:employeeId',
+    authorize('company:update'),
+    validateRequest(removeProjectMemberRoute),
+    removeProjectMember
+);
+
+export default router;
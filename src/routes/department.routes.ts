@@ -0,0 +1,40 @@
+import {
+    createDepartment,
+    getDepartments,
+    getDepartmentById,
+    updateDepartment,
+    deleteDepartment,
+} from '../controllers/department.controller';
+import { authorize } from '../middleware/auth.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import {
+    departmentRoute,
+    createDepartmentRoute,
+    getDepartmentsRoute,
+    updateDepartmentRoute,
+} from '../schemas';
+import { Router } from 'express';
+
+// Mounted under /companies/:id/departments, so the company ID comes from the parent router
+const router = Router({ mergeParams: true });
+
+// Check the department ID of every route below before the handlers run
+router.use('/:departmentId', validateRequest(departmentRoute));
+
+router.post(
+    '/',
+    authorize('company:update'),
+    validateRequest(createDepartmentRoute),
+    createDepartment
+);
+router.get('/', authorize('company:read'), validateRequest(getDepartmentsRoute), getDepartments);
+router.get('/:departmentId', authorize('company:read'), getDepartmentById);
+router.patch(
+    '/:departmentId',
+    authorize('company:update'),
+    validateRequest(updateDepartmentRoute),
+    updateDepartment
+);
+router.delete('/:departmentId', authorize('company:update'), deleteDepartment);
+
+export default router;
@@ -0,0 +1,43 @@
+import {
+    createEmployee,
+    getEmployees,
+    getEmployeeById,
+    updateEmployee,
+    terminateEmployee,
+    deleteEmployee,
+} from '../controllers/employee.controller';
+import { authorize } from '../middleware/auth.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import {
+    employeeRoute,
+    createEmployeeRoute,
+    getEmployeesRoute,
+    updateEmployeeRoute,
+    terminateEmployeeRoute,
+} from '../schemas';
+import { Router } from 'express';
+
+// Mounted under /companies/:id/employees, so the company ID comes from the parent router
+const router = Router({ mergeParams: true });
+
+// Check the employee ID of every route below before the handlers run
+router.use('/:employeeId', validateRequest(employeeRoute));
+
+router.post('/', authorize('company:update'), validateRequest(createEmployeeRoute), createEmployee);
+router.get('/', authorize('company:read'), validateRequest(getEmployeesRoute), getEmployees);
+router.get('/:employeeId', authorize('company:read'), getEmployeeById);
+router.patch(
+    '/:employeeId',
+    authorize('company:update'),
+    validateRequest(updateEmployeeRoute),
+    updateEmployee
+);
+router.post(
+    '/:employeeId/terminate',
+    authorize('company:update'),
+    validateRequest(terminateEmployeeRoute),
+    terminateEmployee
+);
+router.delete('/:employeeId', authorize('company:update'), deleteEmployee);
+
+export default router;
@@ -0,0 +1,14 @@
+import { executeGraphQL } from '../controllers/graphql.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import idempotency from '../middleware/idempotency.middleware';
+import { Router } from 'express';
+
+const router = Router();
+
+// Every operation requires a logged-in user or an API key; resolvers check permissions
+router.use(authenticate, idempotency);
+
+router.get('/', executeGraphQL);
+router.post('/', executeGraphQL);
+
+export default router;
@@ -7,8 +7,15 @@
 
 export { default as healthRoutes } from './health.routes';
 export { default as companyRoutes}from './company.routes';
+export { default as authRoutes } from './auth.routes';
+export { default as userRoutes } from './user.routes';
+export { default as apiKeyRoutes } from './apiKey.routes';
+export { default as departmentRoutes } from './department.routes';
+export { default as employeeRoutes } from './employee.routes';
+export { default as companyProjectRoutes } from './companyProject.routes';
+export { default as projectRoutes } from './project.routes';
+export { default as auditRoutes } from './audit.routes';
+export { default as webhookRoutes } from './webhook.routes';
+export { default as graphqlRoutes } from './graphql.routes';
 
 // Add more route exports as you create them:
-// export { default as authRoutes } from './auth.routes';
-// export { default as userRoutes } from './user.routes';
-// export { default as companyRoutes } from './company.routes';
@@ -0,0 +1,14 @@
+import { searchProjects } from '../controllers/project.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import { searchProjectsRoute } from '../schemas';
+import { Router } from 'express';
+
+const router = Router();
+
+// Projects are managed under /companies/:id/projects; this router only searches across companies
+router.use(authenticate);
+
+router.get('/', authorize('company:read'), validateRequest(searchProjectsRoute), searchProjects);
+
+export default router;
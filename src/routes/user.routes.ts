@@ -0,0 +1,18 @@
+import { getCurrentUser, getAllUsers, updateUser } from '../controllers/user.controller';
+import { authenticateUser, authorize } from '../middleware/auth.middleware';
+import idempotency from '../middleware/idempotency.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import { getAllUsersRoute, updateUserRoute } from '../schemas';
+import { Router } from 'express';
+
+const router = Router();
+
+router.use(authenticateUser, idempotency);
+
+router.get('/me', getCurrentUser);
+
+// User management
+router.get('/', authorize('user:read'), validateRequest(getAllUsersRoute), getAllUsers);
+router.patch('/:id', authorize('user:manage'), validateRequest(updateUserRoute), updateUser);
+
+export default router;
@@ -0,0 +1,44 @@
+import {
+    createWebhook,
+    getAllWebhooks,
+    getDeadLetters,
+    getWebhookById,
+    updateWebhook,
+    deleteWebhook,
+    getWebhookDeliveries,
+    replayWebhookDelivery,
+} from '../controllers/webhook.controller';
+import { authenticateUser, authorize } from '../middleware/auth.middleware';
+import idempotency from '../middleware/idempotency.middleware';
+import validateRequest from '../middleware/validate.middleware';
+import {
+    webhookRoute,
+    createWebhookRoute,
+    updateWebhookRoute,
+    getDeadLettersRoute,
+    getWebhookDeliveriesRoute,
+    replayWebhookDeliveryRoute,
+} from '../schemas';
+import { Router } from 'express';
+
+const router = Router();
+
+// Webhooks are managed by users only, as their secrets are shown on creation
+router.use(authenticateUser, authorize('webhook:manage'), idempotency);
+
+router.post('/', validateRequest(createWebhookRoute), createWebhook);
+router.get('/', getAllWebhooks);
+router.get('/dead-letters', validateRequest(getDeadLettersRoute), getDeadLetters);
+router.get('/:id', validateRequest(webhookRoute), getWebhookById);
+router.patch('/:id', validateRequest(updateWebhookRoute), updateWebhook);
+router.delete('/:id', validateRequest(webhookRoute), deleteWebhook);
+
+// Delivery log
+router.get('/:id/deliveries', validateRequest(getWebhookDeliveriesRoute), getWebhookDeliveries);
+router.post(
+    '/:id/deliveries/:deliveryId/replay',
+    validateRequest(replayWebhookDeliveryRoute),
+    replayWebhookDelivery
+);
+
+export default router;
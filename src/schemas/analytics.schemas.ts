@@ -0,0 +1,110 @@
+import { industryEnum } from '../models/company.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { DEFAULT_LOCATION_LIMIT, MAX_LOCATION_LIMIT } from '../services/companyAnalytics.service';
+import { metricIntervalEnum } from '../services/companyMetrics.service';
+import { companyIdParams, searchTextSchema } from './company.schemas';
+
+/**
+ * Analytics Request Schemas
+ *
+ * Schemas of the `/companies/stats` routes and of the metric history of a
+ * company. The analytics routes also take the filters of
+ * `GET /companies/search`, which are checked against the filter fields.
+ */
+
+/**
+ * Query of the analytics routes that only take filters
+ */
+const statsQuery: ISchema = {
+    type: 'object',
+    properties: { q: searchTextSchema },
+};
+
+const locationLimitQuery: ISchema = {
+    type: 'object',
+    properties: {
+        q: searchTextSchema,
+        limit: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_LOCATION_LIMIT,
+            default: DEFAULT_LOCATION_LIMIT,
+        },
+    },
+};
+
+/**
+ * Time range of metric histories and trends
+ */
+const metricRangeProperties = {
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    interval: { type: 'string', enum: metricIntervalEnum },
+} satisfies Record<string, ISchema>;
+
+const getAnalyticsOverviewRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/stats',
+    query: locationLimitQuery,
+};
+
+const getLocationStatsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/stats/locations',
+    query: locationLimitQuery,
+};
+
+/**
+ * Routes under `/companies/stats` that take only filters
+ */
+const statsRoutes = {
+    industry: { method: 'get', path: '/companies/stats/industry', query: statsQuery },
+    revenue: { method: 'get', path: '/companies/stats/revenue', query: statsQuery },
+    employees: { method: 'get', path: '/companies/stats/employees', query: statsQuery },
+    founded: { method: 'get', path: '/companies/stats/founded', query: statsQuery },
+    activity: { method: 'get', path: '/companies/stats/activity', query: statsQuery },
+} satisfies Record<string, IRouteSchema>;
+
+const getIndustryTrendStatsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/stats/trends',
+    query: {
+        type: 'object',
+        properties: {
+            ...metricRangeProperties,
+            industry: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string', enum: industryEnum },
+            },
+        },
+    },
+};
+
+const getCompanyMetricsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/{id}/metrics',
+    params: companyIdParams,
+    query: { type: 'object', properties: metricRangeProperties },
+};
+
+/**
+ * Every analytics route schema, for the API documentation
+ */
+const analyticsRouteSchemas: IRouteSchema[] = [
+    getAnalyticsOverviewRoute,
+    getLocationStatsRoute,
+    ...Object.values(statsRoutes),
+    getIndustryTrendStatsRoute,
+    getCompanyMetricsRoute,
+];
+
+export {
+    getAnalyticsOverviewRoute,
+    getLocationStatsRoute,
+    statsRoutes,
+    getIndustryTrendStatsRoute,
+    getCompanyMetricsRoute,
+    analyticsRouteSchemas,
+};
@@ -0,0 +1,65 @@
+import { apiKeyScopeEnum } from '../models/apiKey.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import { objectIdSchema } from './company.schemas';
+
+/**
+ * API Key Request Schemas
+ *
+ * Schemas of the API key routes under `/api-keys`.
+ */
+
+const createApiKeyRoute: IRouteSchema = {
+    method: 'post',
+    path: '/api-keys',
+    body: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100, example: 'Nightly ETL' },
+            scopes: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string', enum: apiKeyScopeEnum },
+                example: ['companies:read'],
+            },
+            expiresAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+                description: 'Optional expiry in the future; keys without one never expire.',
+            },
+        },
+    },
+};
+
+const getAllApiKeysRoute: IRouteSchema = {
+    method: 'get',
+    path: '/api-keys',
+    query: {
+        type: 'object',
+        properties: {
+            includeRevoked: { type: 'boolean', default: false },
+        },
+    },
+};
+
+const revokeApiKeyRoute: IRouteSchema = {
+    method: 'delete',
+    path: '/api-keys/{id}',
+    params: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: objectIdSchema('The ID of the API key.') },
+    },
+};
+
+/**
+ * Every API key route schema, for the API documentation
+ */
+const apiKeyRouteSchemas: IRouteSchema[] = [
+    createApiKeyRoute,
+    getAllApiKeysRoute,
+    revokeApiKeyRoute,
+];
+
+export { createApiKeyRoute, getAllApiKeysRoute, revokeApiKeyRoute, apiKeyRouteSchemas };
@@ -0,0 +1,50 @@
+import { auditActionEnum, auditActorTypeEnum, auditEntityEnum } from '../models/auditLog.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { companyIdParams, objectIdSchema, pageLimitProperties } from './company.schemas';
+
+/**
+ * Audit Request Schemas
+ *
+ * Schemas of the audit feed and of the change history of a company, which
+ * share their filters.
+ */
+
+const auditFilterProperties = {
+    action: { type: 'string', enum: auditActionEnum },
+    actorType: { type: 'string', enum: auditActorTypeEnum },
+    actorId: objectIdSchema('ID of the user or API key that made the change.'),
+    field: { type: 'string', description: 'Only entries that changed this field.' },
+    requestId: { type: 'string', description: 'Only entries recorded by this request.' },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    ...pageLimitProperties,
+} satisfies Record<string, ISchema>;
+
+const getCompanyHistoryRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/{id}/history',
+    params: companyIdParams,
+    query: { type: 'object', properties: auditFilterProperties },
+};
+
+const getAuditLogRoute: IRouteSchema = {
+    method: 'get',
+    path: '/audit',
+    query: {
+        type: 'object',
+        properties: {
+            entityType: { type: 'string', enum: auditEntityEnum },
+            entityId: objectIdSchema('The ID of the changed entity.'),
+            company: objectIdSchema('Only entries belonging to this company.'),
+            ...auditFilterProperties,
+        },
+    },
+};
+
+/**
+ * Every audit route schema, for the API documentation
+ */
+const auditRouteSchemas: IRouteSchema[] = [getCompanyHistoryRoute, getAuditLogRoute];
+
+export { getCompanyHistoryRoute, getAuditLogRoute, auditRouteSchemas };
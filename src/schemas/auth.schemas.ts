@@ -0,0 +1,64 @@
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+
+/**
+ * Auth Request Schemas
+ *
+ * Schemas of the public `/auth` routes. Whether the credentials or tokens are
+ * valid is checked by the controller.
+ */
+
+const refreshTokenBody: ISchema = {
+    type: 'object',
+    required: ['refreshToken'],
+    properties: {
+        refreshToken: { type: 'string', minLength: 1 },
+    },
+};
+
+const registerRoute: IRouteSchema = {
+    method: 'post',
+    path: '/auth/register',
+    body: {
+        type: 'object',
+        required: ['firstName', 'lastName', 'email', 'password'],
+        properties: {
+            firstName: { type: 'string', minLength: 1, maxLength: 50, example: 'John' },
+            lastName: { type: 'string', minLength: 1, maxLength: 50, example: 'Doe' },
+            email: { type: 'string', format: 'email', example: 'john.doe@company.com' },
+            password: { type: 'string', minLength: 8, example: 's3cure-passw0rd' },
+        },
+    },
+};
+
+const loginRoute: IRouteSchema = {
+    method: 'post',
+    path: '/auth/login',
+    body: {
+        type: 'object',
+        required: ['email', 'password'],
+        properties: {
+            email: { type: 'string', format: 'email' },
+            password: { type: 'string' },
+        },
+    },
+};
+
+const refreshRoute: IRouteSchema = {
+    method: 'post',
+    path: '/auth/refresh',
+    body: refreshTokenBody,
+};
+
+const logoutRoute: IRouteSchema = {
+    method: 'post',
+    path: '/auth/logout',
+    body: refreshTokenBody,
+};
+
+/**
+ * Every auth route schema, for the API documentation
+ */
+const authRouteSchemas: IRouteSchema[] = [registerRoute, loginRoute, refreshRoute, logoutRoute];
+
+export { registerRoute, loginRoute, refreshRoute, logoutRoute, authRouteSchemas };
@@ -0,0 +1,345 @@
+import { industryEnum } from '../models/company.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { MAX_SEARCH_LENGTH } from '../utils/sanitize';
+import { DEFAULT_SUGGESTION_LIMIT, MAX_SUGGESTION_LIMIT } from '../services/suggestion.service';
+
+/**
+ * Company Request Schemas
+ *
+ * Schemas of the company routes and of the routes nested under a company,
+ * checked by `validateRequest` and shown in the API documentation. Rules that
+ * need the database (unique name and email) or other fields (headcount with
+ * `autoHeadcount`) are checked by the company service.
+ */
+
+const objectIdSchema = (description: string): ISchema => ({
+    type: 'string',
+    format: 'objectid',
+    description,
+    example: '64f1a2b3c4d5e6f7a8b9c0d1',
+});
+
+const companyIdParams: ISchema = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+        id: objectIdSchema('The ID of the company.'),
+    },
+};
+
+/**
+ * Company fields, as sent when creating or updating a company
+ */
+const companyFields = {
+    name: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 100,
+        description: 'The name of the company.',
+        example: 'Tech Corp',
+    },
+    description: {
+        type: 'string',
+        maxLength: 1000,
+        description: 'A brief description of the company.',
+        example: 'A leading tech company specializing in AI.',
+    },
+    industry: {
+        type: 'string',
+        enum: industryEnum,
+        description: 'The industry the company belongs to.',
+        example: 'Technology',
+    },
+    foundedYear: {
+        type: 'integer',
+        minimum: 1800,
+        description: 'The year the company was founded.',
+        example: 2010,
+    },
+    location: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'string', minLength: 1, maxLength: 200 },
+        description: 'Locations where the company operates.',
+        example: ['New York', 'San Francisco'],
+    },
+    website: {
+        type: 'string',
+        format: 'uri',
+        description: "The company's website URL.",
+        example: 'https://www.techcorp.com',
+    },
+    email: {
+        type: 'string',
+        format: 'email',
+        description: "The company's contact email.",
+        example: 'info@techcorp.com',
+    },
+    phone: {
+        type: 'string',
+        description: "The company's contact phone number.",
+        example: '+1-800-555-1234',
+    },
+    employees: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 10000000,
+        description: 'The number of employees in the company.',
+        example: 500,
+    },
+    autoHeadcount: {
+        type: 'boolean',
+        description:
+            'Derive `employees` from active employee records instead of setting it by hand. ' +
+            'Cannot be combined with `employees`.',
+        example: false,
+    },
+    logo: {
+        type: 'string',
+        description: "URL of the company's logo.",
+        example: 'https://www.techcorp.com/logo.png',
+    },
+    headquarters: {
+        type: 'string',
+        maxLength: 200,
+        description: 'The headquarters of the company.',
+        example: 'Silicon Valley',
+    },
+    revenue: {
+        type: 'number',
+        minimum: 0,
+        description: "The company's annual revenue.",
+        example: 1000000,
+    },
+    isActive: { type: 'boolean', description: 'Whether the company is active.' },
+} satisfies Record<string, ISchema>;
+
+/**
+ * Body of `POST /companies`, also checked for imported rows and GraphQL input
+ */
+const companyCreateBody: ISchema = {
+    type: 'object',
+    required: ['name', 'email', 'industry', 'location'],
+    properties: {
+        name: companyFields.name,
+        description: companyFields.description,
+        industry: companyFields.industry,
+        foundedYear: companyFields.foundedYear,
+        location: companyFields.location,
+        website: companyFields.website,
+        email: companyFields.email,
+        phone: companyFields.phone,
+        employees: companyFields.employees,
+        autoHeadcount: companyFields.autoHeadcount,
+        logo: companyFields.logo,
+        headquarters: companyFields.headquarters,
+        revenue: companyFields.revenue,
+    },
+};
+
+/**
+ * Body of `PATCH /companies/{id}`
+ */
+const companyUpdateBody: ISchema = {
+    type: 'object',
+    properties: {
+        logo: companyFields.logo,
+        description: companyFields.description,
+        location: companyFields.location,
+        phone: companyFields.phone,
+        isActive: companyFields.isActive,
+        autoHeadcount: companyFields.autoHeadcount,
+    },
+};
+
+/**
+ * Pagination parameters of list endpoints (see `utils/pagination.ts`)
+ */
+const paginationProperties = {
+    page: { type: 'integer', minimum: 1, description: 'Page number (offset mode).' },
+    pageSize: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Companies per page, at most 100.',
+    },
+    limit: { type: 'integer', minimum: 1, description: 'Older name of `pageSize`.' },
+} satisfies Record<string, ISchema>;
+
+/**
+ * `page` and `limit` of the lists that are not paginated by `utils/pagination.ts`
+ */
+const pageLimitProperties = {
+    page: { type: 'integer', minimum: 1, default: 1, description: 'Page number.' },
+    limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+        description: 'Items per page.',
+    },
+} satisfies Record<string, ISchema>;
+
+/**
+ * Full-text search of the search, export and analytics endpoints
+ */
+const searchTextSchema: ISchema = {
+    type: 'string',
+    minLength: 1,
+    maxLength: MAX_SEARCH_LENGTH,
+    description: 'Full-text search on name and description.',
+};
+
+const createCompanyRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies',
+    body: companyCreateBody,
+};
+
+const getAllCompaniesRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies',
+    query: { type: 'object', properties: paginationProperties },
+};
+
+const searchSuggestionsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/search/suggestions',
+    query: {
+        type: 'object',
+        required: ['q'],
+        properties: {
+            q: { type: 'string', minLength: 1, maxLength: MAX_SEARCH_LENGTH },
+            limit: {
+                type: 'integer',
+                minimum: 1,
+                maximum: MAX_SUGGESTION_LIMIT,
+                default: DEFAULT_SUGGESTION_LIMIT,
+            },
+        },
+    },
+};
+
+// Filter parameters are checked against the filter fields (see `utils/filterQuery.ts`)
+const searchCompaniesRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/search',
+    query: {
+        type: 'object',
+        properties: {
+            q: searchTextSchema,
+            facets: { type: 'boolean' },
+            ...paginationProperties,
+        },
+    },
+};
+
+const streamCompaniesRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/stream',
+    query: {
+        type: 'object',
+        properties: {
+            industry: { type: 'array', items: { type: 'string', enum: industryEnum } },
+            companyId: { type: 'array', items: objectIdSchema('The ID of a company.') },
+            lastEventId: { type: 'string' },
+        },
+    },
+};
+
+const getCompanyByIdRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/{id}',
+    params: companyIdParams,
+    query: {
+        type: 'object',
+        properties: {
+            include: {
+                type: 'string',
+                enum: ['projects'],
+                description: 'Set to `projects` to embed a `projectSummary`.',
+            },
+        },
+    },
+};
+
+const updateCompanyRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/companies/{id}',
+    params: companyIdParams,
+    body: companyUpdateBody,
+};
+
+const deleteCompanyRoute: IRouteSchema = {
+    method: 'delete',
+    path: '/companies/{id}',
+    params: companyIdParams,
+};
+
+const getTrashRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/trash',
+    query: { type: 'object', properties: pageLimitProperties },
+};
+
+const restoreCompanyRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/{id}/restore',
+    params: companyIdParams,
+};
+
+const purgeCompaniesRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/trash/purge',
+    body: { type: 'object', properties: {}, additionalProperties: false },
+};
+
+/**
+ * Nested resources: the company ID of every route under them
+ */
+const companyResourceRoutes = {
+    departments: { method: 'use', path: '/companies/{id}/departments', params: companyIdParams },
+    employees: { method: 'use', path: '/companies/{id}/employees', params: companyIdParams },
+    projects: { method: 'use', path: '/companies/{id}/projects', params: companyIdParams },
+} satisfies Record<string, IRouteSchema>;
+
+/**
+ * Every company route schema, for the API documentation
+ */
+const companyRouteSchemas: IRouteSchema[] = [
+    createCompanyRoute,
+    searchSuggestionsRoute,
+    searchCompaniesRoute,
+    streamCompaniesRoute,
+    getAllCompaniesRoute,
+    getCompanyByIdRoute,
+    updateCompanyRoute,
+    deleteCompanyRoute,
+    getTrashRoute,
+    purgeCompaniesRoute,
+    restoreCompanyRoute,
+    ...Object.values(companyResourceRoutes),
+];
+
+export {
+    objectIdSchema,
+    companyIdParams,
+    paginationProperties,
+    pageLimitProperties,
+    searchTextSchema,
+    companyCreateBody,
+    companyUpdateBody,
+    createCompanyRoute,
+    searchSuggestionsRoute,
+    searchCompaniesRoute,
+    streamCompaniesRoute,
+    getAllCompaniesRoute,
+    getCompanyByIdRoute,
+    updateCompanyRoute,
+    deleteCompanyRoute,
+    getTrashRoute,
+    purgeCompaniesRoute,
+    restoreCompanyRoute,
+    companyResourceRoutes,
+    companyRouteSchemas,
+};
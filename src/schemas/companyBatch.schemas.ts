@@ -0,0 +1,123 @@
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { importFormatEnum, importModeEnum } from '../services/companyImport.service';
+import { exportColumnNames, exportFormatEnum } from '../services/companyExport.service';
+import { MAX_BULK_COMPANIES } from '../services/companyBulk.service';
+import { companyUpdateBody, searchTextSchema } from './company.schemas';
+
+/**
+ * Company Batch Request Schemas
+ *
+ * Schemas of the company routes that work on many companies at once: import,
+ * export and the bulk changes. They are kept apart from the company schemas,
+ * which the company service imports, as their services depend on it.
+ */
+
+const importCompaniesRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/import',
+    query: {
+        type: 'object',
+        properties: {
+            format: {
+                type: 'string',
+                enum: importFormatEnum,
+                description: 'Input format. Defaults to the format of the Content-Type header.',
+            },
+            mode: { type: 'string', enum: importModeEnum, default: 'skip' },
+            dryRun: { type: 'boolean', default: false },
+            mapping: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Source column to company field, e.g. `mapping[Company Name]=name`.',
+            },
+        },
+    },
+};
+
+/**
+ * The companies a bulk request applies to: either `ids` or `filter`
+ */
+const bulkTargetProperties = {
+    ids: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_BULK_COMPANIES,
+        // Malformed IDs are reported per ID
+        items: { type: 'string' },
+        description: 'IDs of the companies to change.',
+        example: ['64f1a2b3c4d5e6f7a8b9c0d1', '64f1a2b3c4d5e6f7a8b9c0d2'],
+    },
+    filter: {
+        type: 'object',
+        description:
+            'Filter of the companies to change, with the syntax of `GET /companies/search` as ' +
+            'JSON, e.g. `{"industry": "Retail", "employees": {"gte": 50}}` or ' +
+            '`{"or": [{"location": {"any": ["Berlin"]}}, {"headquarters": "Berlin"}]}`. ' +
+            `May match at most ${MAX_BULK_COMPANIES} companies.`,
+        example: { location: { any: ['Berlin'] }, isActive: true },
+    },
+} satisfies Record<string, ISchema>;
+
+const bulkPreviewQuery: ISchema = {
+    type: 'object',
+    properties: {
+        preview: { type: 'boolean', default: false },
+    },
+};
+
+const bulkUpdateCompaniesRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/companies/bulk',
+    query: bulkPreviewQuery,
+    body: {
+        type: 'object',
+        required: ['update'],
+        properties: {
+            ...bulkTargetProperties,
+            update: { ...companyUpdateBody, description: 'The fields to set.' },
+        },
+    },
+};
+
+const bulkDeleteCompaniesRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/bulk-delete',
+    query: bulkPreviewQuery,
+    body: { type: 'object', properties: bulkTargetProperties },
+};
+
+const exportCompaniesRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/export',
+    query: {
+        type: 'object',
+        properties: {
+            q: searchTextSchema,
+            format: { type: 'string', enum: exportFormatEnum, default: 'csv' },
+            columns: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string', enum: exportColumnNames },
+            },
+        },
+    },
+};
+
+/**
+ * Every company batch route schema, for the API documentation
+ */
+const companyBatchRouteSchemas: IRouteSchema[] = [
+    importCompaniesRoute,
+    bulkUpdateCompaniesRoute,
+    bulkDeleteCompaniesRoute,
+    exportCompaniesRoute,
+];
+
+export {
+    importCompaniesRoute,
+    bulkUpdateCompaniesRoute,
+    bulkDeleteCompaniesRoute,
+    exportCompaniesRoute,
+    companyBatchRouteSchemas,
+};
@@ -0,0 +1,96 @@
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { objectIdSchema } from './company.schemas';
+
+/**
+ * Department Request Schemas
+ *
+ * Schemas of the department routes under `/companies/{id}/departments`. The
+ * head and parent must belong to the same company, which the controller
+ * checks against the database.
+ */
+
+const departmentFields = {
+    name: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 100,
+        description: 'The name of the department.',
+        example: 'Engineering',
+    },
+    code: { type: 'string', maxLength: 20, example: 'ENG' },
+    description: { type: 'string', maxLength: 1000 },
+    head: {
+        ...objectIdSchema('ID of an active employee of the company heading the department.'),
+        nullable: true,
+    },
+    budget: { type: 'number', minimum: 0, example: 250000 },
+    parent: { ...objectIdSchema('ID of the parent department.'), nullable: true },
+    isActive: { type: 'boolean' },
+} satisfies Record<string, ISchema>;
+
+/**
+ * The department ID of every route under a department
+ */
+const departmentRoute: IRouteSchema = {
+    method: 'use',
+    path: '/companies/{id}/departments/{departmentId}',
+    params: {
+        type: 'object',
+        required: ['departmentId'],
+        properties: { departmentId: objectIdSchema('The ID of the department.') },
+    },
+};
+
+const createDepartmentRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/{id}/departments',
+    body: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+            name: departmentFields.name,
+            code: departmentFields.code,
+            description: departmentFields.description,
+            head: departmentFields.head,
+            budget: departmentFields.budget,
+            parent: departmentFields.parent,
+        },
+    },
+};
+
+const getDepartmentsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/{id}/departments',
+    query: {
+        type: 'object',
+        properties: {
+            tree: { type: 'boolean', default: false },
+            isActive: { type: 'boolean' },
+        },
+    },
+};
+
+const updateDepartmentRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/companies/{id}/departments/{departmentId}',
+    body: { type: 'object', properties: departmentFields },
+};
+
+/**
+ * Every department route schema, for the API documentation
+ */
+const departmentRouteSchemas: IRouteSchema[] = [
+    departmentRoute,
+    createDepartmentRoute,
+    getDepartmentsRoute,
+    updateDepartmentRoute,
+];
+
+export {
+    departmentRoute,
+    createDepartmentRoute,
+    getDepartmentsRoute,
+    updateDepartmentRoute,
+    departmentRouteSchemas,
+};
@@ -0,0 +1,100 @@
+import { employeeStatusEnum, employmentTypeEnum } from '../models/employee.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { objectIdSchema, pageLimitProperties } from './company.schemas';
+
+/**
+ * Employee Request Schemas
+ *
+ * Schemas of the employee routes under `/companies/{id}/employees`. The
+ * department must belong to the same company, which the controller checks
+ * against the database.
+ */
+
+const employeeFields = {
+    firstName: { type: 'string', minLength: 1, maxLength: 50, example: 'Jane' },
+    lastName: { type: 'string', minLength: 1, maxLength: 50, example: 'Smith' },
+    email: { type: 'string', format: 'email', example: 'jane.smith@techsolutions.com' },
+    title: { type: 'string', minLength: 1, maxLength: 100, example: 'Senior Engineer' },
+    employmentType: { type: 'string', enum: employmentTypeEnum },
+    startDate: { type: 'string', format: 'date-time', description: 'Defaults to today.' },
+    department: {
+        ...objectIdSchema('ID of a department of the same company.'),
+        nullable: true,
+    },
+} satisfies Record<string, ISchema>;
+
+/**
+ * The employee ID of every route under an employee
+ */
+const employeeRoute: IRouteSchema = {
+    method: 'use',
+    path: '/companies/{id}/employees/{employeeId}',
+    params: {
+        type: 'object',
+        required: ['employeeId'],
+        properties: { employeeId: objectIdSchema('The ID of the employee.') },
+    },
+};
+
+const createEmployeeRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/{id}/employees',
+    body: {
+        type: 'object',
+        required: ['firstName', 'lastName', 'title'],
+        properties: employeeFields,
+    },
+};
+
+const getEmployeesRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/{id}/employees',
+    query: {
+        type: 'object',
+        properties: {
+            status: { type: 'string', enum: employeeStatusEnum },
+            department: objectIdSchema('Only employees of this department.'),
+            employmentType: { type: 'string', enum: employmentTypeEnum },
+            ...pageLimitProperties,
+        },
+    },
+};
+
+const updateEmployeeRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/companies/{id}/employees/{employeeId}',
+    body: { type: 'object', properties: employeeFields },
+};
+
+const terminateEmployeeRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/{id}/employees/{employeeId}/terminate',
+    body: {
+        type: 'object',
+        properties: {
+            endDate: { type: 'string', format: 'date-time', description: 'Defaults to now.' },
+            reason: { type: 'string', maxLength: 500, example: 'Resigned' },
+        },
+    },
+};
+
+/**
+ * Every employee route schema, for the API documentation
+ */
+const employeeRouteSchemas: IRouteSchema[] = [
+    employeeRoute,
+    createEmployeeRoute,
+    getEmployeesRoute,
+    updateEmployeeRoute,
+    terminateEmployeeRoute,
+];
+
+export {
+    employeeRoute,
+    createEmployeeRoute,
+    getEmployeesRoute,
+    updateEmployeeRoute,
+    terminateEmployeeRoute,
+    employeeRouteSchemas,
+};
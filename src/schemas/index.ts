@@ -0,0 +1,41 @@
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import { companyRouteSchemas } from './company.schemas';
+import { companyBatchRouteSchemas } from './companyBatch.schemas';
+import { analyticsRouteSchemas } from './analytics.schemas';
+import { departmentRouteSchemas } from './department.schemas';
+import { employeeRouteSchemas } from './employee.schemas';
+import { projectRouteSchemas } from './project.schemas';
+import { auditRouteSchemas } from './audit.schemas';
+import { userRouteSchemas } from './user.schemas';
+import { authRouteSchemas } from './auth.schemas';
+import { apiKeyRouteSchemas } from './apiKey.schemas';
+import { webhookRouteSchemas } from './webhook.schemas';
+
+export * from './company.schemas';
+export * from './companyBatch.schemas';
+export * from './analytics.schemas';
+export * from './department.schemas';
+export * from './employee.schemas';
+export * from './project.schemas';
+export * from './audit.schemas';
+export * from './user.schemas';
+export * from './auth.schemas';
+export * from './apiKey.schemas';
+export * from './webhook.schemas';
+
+/**
+ * Schemas of every validated route, added to the API documentation
+ */
+export const routeSchemas: IRouteSchema[] = [
+    ...companyRouteSchemas,
+    ...companyBatchRouteSchemas,
+    ...analyticsRouteSchemas,
+    ...departmentRouteSchemas,
+    ...employeeRouteSchemas,
+    ...projectRouteSchemas,
+    ...auditRouteSchemas,
+    ...userRouteSchemas,
+    ...authRouteSchemas,
+    ...apiKeyRouteSchemas,
+    ...webhookRouteSchemas,
+];
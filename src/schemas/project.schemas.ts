@@ -0,0 +1,139 @@
+import { projectStatusEnum } from '../models/project.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { MAX_SEARCH_LENGTH } from '../utils/sanitize';
+import { objectIdSchema, pageLimitProperties } from './company.schemas';
+
+/**
+ * Project Request Schemas
+ *
+ * Schemas of the project routes under `/companies/{id}/projects` and of the
+ * project search. Members must be active employees of the same company, which
+ * the controller checks against the database.
+ */
+
+const employeeIdsSchema: ISchema = {
+    type: 'array',
+    items: objectIdSchema('The ID of an employee.'),
+    description: 'IDs of active employees of the company.',
+};
+
+const projectFields = {
+    name: { type: 'string', minLength: 1, maxLength: 100, example: 'Customer Portal' },
+    code: { type: 'string', maxLength: 20, example: 'PORTAL' },
+    description: { type: 'string', maxLength: 2000 },
+    status: { type: 'string', enum: projectStatusEnum },
+    startDate: { type: 'string', format: 'date-time', nullable: true },
+    endDate: { type: 'string', format: 'date-time', nullable: true },
+    budget: { type: 'number', minimum: 0, example: 120000 },
+    members: employeeIdsSchema,
+} satisfies Record<string, ISchema>;
+
+/**
+ * Comma-separated list of statuses to include
+ */
+const statusListSchema: ISchema = {
+    type: 'array',
+    minItems: 1,
+    items: { type: 'string', enum: projectStatusEnum },
+    description: 'Comma-separated list of statuses to include.',
+    example: 'planned,active',
+};
+
+/**
+ * The project ID of every route under a project
+ */
+const projectRoute: IRouteSchema = {
+    method: 'use',
+    path: '/companies/{id}/projects/{projectId}',
+    params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: { projectId: objectIdSchema('The ID of the project.') },
+    },
+};
+
+const createProjectRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/{id}/projects',
+    body: { type: 'object', required: ['name'], properties: projectFields },
+};
+
+const getProjectsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/companies/{id}/projects',
+    query: {
+        type: 'object',
+        properties: {
+            status: statusListSchema,
+            member: objectIdSchema('Only projects this employee is a member of.'),
+            ...pageLimitProperties,
+        },
+    },
+};
+
+const updateProjectRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/companies/{id}/projects/{projectId}',
+    body: { type: 'object', properties: projectFields },
+};
+
+const addProjectMembersRoute: IRouteSchema = {
+    method: 'post',
+    path: '/companies/{id}/projects/{projectId}/members',
+    body: {
+        type: 'object',
+        required: ['employeeIds'],
+        properties: { employeeIds: { ...employeeIdsSchema, minItems: 1 } },
+    },
+};
+
+const removeProjectMemberRoute: IRouteSchema = {
+    method: 'delete',
+    path: '/companies/{id}/projects/{projectId}/members/{employeeId}',
+    params: {
+        type: 'object',
+        required: ['employeeId'],
+        properties: { employeeId: objectIdSchema('The ID of the employee to remove.') },
+    },
+};
+
+const searchProjectsRoute: IRouteSchema = {
+    method: 'get',
+    path: '/projects',
+    query: {
+        type: 'object',
+        properties: {
+            q: { type: 'string', maxLength: MAX_SEARCH_LENGTH },
+            status: statusListSchema,
+            company: objectIdSchema('Restrict the search to one company.'),
+            minBudget: { type: 'number' },
+            maxBudget: { type: 'number' },
+            ...pageLimitProperties,
+        },
+    },
+};
+
+/**
+ * Every project route schema, for the API documentation
+ */
+const projectRouteSchemas: IRouteSchema[] = [
+    projectRoute,
+    createProjectRoute,
+    getProjectsRoute,
+    updateProjectRoute,
+    addProjectMembersRoute,
+    removeProjectMemberRoute,
+    searchProjectsRoute,
+];
+
+export {
+    projectRoute,
+    createProjectRoute,
+    getProjectsRoute,
+    updateProjectRoute,
+    addProjectMembersRoute,
+    removeProjectMemberRoute,
+    searchProjectsRoute,
+    projectRouteSchemas,
+};
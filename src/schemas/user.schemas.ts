@@ -0,0 +1,45 @@
+import { userRoleEnum } from '../models/user.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import { objectIdSchema } from './company.schemas';
+
+/**
+ * User Request Schemas
+ *
+ * Schemas of the user management routes under `/users`.
+ */
+
+const getAllUsersRoute: IRouteSchema = {
+    method: 'get',
+    path: '/users',
+    query: {
+        type: 'object',
+        properties: {
+            role: { type: 'string', enum: userRoleEnum },
+            isActive: { type: 'boolean' },
+        },
+    },
+};
+
+const updateUserRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/users/{id}',
+    params: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: objectIdSchema('The ID of the user.') },
+    },
+    body: {
+        type: 'object',
+        properties: {
+            role: { type: 'string', enum: userRoleEnum },
+            isActive: { type: 'boolean' },
+        },
+    },
+};
+
+/**
+ * Every user route schema, for the API documentation
+ */
+const userRouteSchemas: IRouteSchema[] = [getAllUsersRoute, updateUserRoute];
+
+export { getAllUsersRoute, updateUserRoute, userRouteSchemas };
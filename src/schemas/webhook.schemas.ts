@@ -0,0 +1,129 @@
+import { webhookEventEnum } from '../models/webhook.model';
+import { webhookDeliveryStatusEnum } from '../models/webhookDelivery.model';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import type { ISchema } from '../utils/schema';
+import { objectIdSchema, pageLimitProperties } from './company.schemas';
+
+/**
+ * Webhook Request Schemas
+ *
+ * Schemas of the webhook routes under `/webhooks`. The webhook ID is checked
+ * per route, so that `/webhooks/dead-letters` is not taken for an ID.
+ */
+
+const webhookIdSchema = objectIdSchema('The ID of the webhook.');
+
+const webhookIdParams: ISchema = {
+    type: 'object',
+    required: ['id'],
+    properties: { id: webhookIdSchema },
+};
+
+const webhookFields = {
+    name: { type: 'string', minLength: 1, maxLength: 100, example: 'CRM sync' },
+    url: {
+        type: 'string',
+        format: 'uri',
+        maxLength: 2048,
+        example: 'https://crm.example.com/hooks/companies',
+    },
+    events: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'string', enum: webhookEventEnum },
+        example: ['company.created', 'company.updated'],
+    },
+    secret: {
+        type: 'string',
+        minLength: 16,
+        description: 'Optional signing secret; generated when left out.',
+    },
+    description: { type: 'string', maxLength: 500 },
+    isActive: { type: 'boolean' },
+} satisfies Record<string, ISchema>;
+
+/**
+ * The webhook ID of the routes that only take the ID
+ */
+const webhookRoute: IRouteSchema = {
+    method: 'use',
+    path: '/webhooks/{id}',
+    params: webhookIdParams,
+};
+
+const createWebhookRoute: IRouteSchema = {
+    method: 'post',
+    path: '/webhooks',
+    body: {
+        type: 'object',
+        required: ['name', 'url', 'events'],
+        properties: {
+            name: webhookFields.name,
+            url: webhookFields.url,
+            events: webhookFields.events,
+            secret: webhookFields.secret,
+            description: webhookFields.description,
+        },
+    },
+};
+
+const updateWebhookRoute: IRouteSchema = {
+    method: 'patch',
+    path: '/webhooks/{id}',
+    params: webhookIdParams,
+    body: { type: 'object', properties: webhookFields },
+};
+
+const getDeadLettersRoute: IRouteSchema = {
+    method: 'get',
+    path: '/webhooks/dead-letters',
+    query: { type: 'object', properties: pageLimitProperties },
+};
+
+const getWebhookDeliveriesRoute: IRouteSchema = {
+    method: 'get',
+    path: '/webhooks/{id}/deliveries',
+    params: webhookIdParams,
+    query: {
+        type: 'object',
+        properties: {
+            status: { type: 'string', enum: webhookDeliveryStatusEnum },
+            ...pageLimitProperties,
+        },
+    },
+};
+
+const replayWebhookDeliveryRoute: IRouteSchema = {
+    method: 'post',
+    path: '/webhooks/{id}/deliveries/{deliveryId}/replay',
+    params: {
+        type: 'object',
+        required: ['id', 'deliveryId'],
+        properties: {
+            id: webhookIdSchema,
+            deliveryId: objectIdSchema('The ID of the delivery to replay.'),
+        },
+    },
+};
+
+/**
+ * Every webhook route schema, for the API documentation
+ */
+const webhookRouteSchemas: IRouteSchema[] = [
+    webhookRoute,
+    createWebhookRoute,
+    updateWebhookRoute,
+    getDeadLettersRoute,
+    getWebhookDeliveriesRoute,
+    replayWebhookDeliveryRoute,
+];
+
+export {
+    webhookRoute,
+    createWebhookRoute,
+    updateWebhookRoute,
+    getDeadLettersRoute,
+    getWebhookDeliveriesRoute,
+    replayWebhookDeliveryRoute,
+    webhookRouteSchemas,
+};
@@ -32,7 +32,25 @@
  *
  * # Security Configuration
  * JWT_SECRET=your-secret-key   # Secret for JWT token signing
- * JWT_EXPIRE=7d               # JWT token expiration time
+ * JWT_EXPIRE=15m              # Access token expiration time
+ * JWT_REFRESH_EXPIRE_DAYS=30  # Refresh token lifetime in days
+ * BOOTSTRAP_ADMIN_EMAIL=      # Email that is granted the admin role on registration
+ *
+ * # Data Integrity
+ * COMPANY_DEPENDENTS_POLICY=block  # block | cascade - what happens to departments/employees on company delete/deactivate
+ * COMPANY_TRASH_RETENTION_DAYS=30  # Days a deleted company stays in the trash before it can be purged
+ * COMPANY_METRICS_SNAPSHOT_HOURS=  # Hours between snapshots of every company's headcount and revenue (unset = only on change)
+ *
+ * # Webhooks
+ * WEBHOOK_MAX_ATTEMPTS=8           # Attempts before a delivery is dead-lettered
+ * WEBHOOK_RETRY_BASE_SECONDS=30    # Wait before the first retry, doubled after each attempt
+ *
+ * # Idempotency
+ * IDEMPOTENCY_KEY_TTL_HOURS=24     # Hours the response of a request with an Idempotency-Key is replayed
+ *
+ * # GraphQL
+ * GRAPHQL_MAX_DEPTH=8              # Max nesting of fields in a query
+ * GRAPHQL_MAX_COMPLEXITY=2000      # Max fields a query may return, list fields counting once per item
  *
  * # Optional Configuration
  * API_PREFIX=/api/v1          # API route prefix
@@ -183,6 +201,10 @@
 import { Server } from 'http';
 import app from './app';
 import { database } from './configs/db';
+import { ensureSuggestionIndex } from './services/suggestion.service';
+import { startScheduledSnapshots } from './services/companyMetrics.service';
+import { startWebhookDispatcher } from './services/webhook.service';
+import { startCompanyStream } from './services/companyStream.service';
 
 /**
  * Server Configuration
@@ -201,7 +223,7 @@ const NODE_ENV = process.env.NODE_ENV || 'development';
  * before starting the server.
  */
 const validateEnvironment = (): void => {
-    const requiredEnvVars = ['MONGODB_URI'];
+    const requiredEnvVars = ['MONGODB_URI', 'JWT_SECRET'];
 
     const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
 
@@ -378,6 +400,30 @@ const initializeServer = async (): Promise<void> => {
         // Step 3: Connect to database
         await connectToDatabase();
 
+        // Build the search suggestion index in the background if it is missing
+        ensureSuggestionIndex().catch(error => {
+            console.error('⚠️ Failed to build the search suggestion index:', error);
+        });
+
+        // Record company metric snapshots on a schedule, if configured
+        startScheduledSnapshots();
+
+        // Send pending webhook deliveries and retries
+        startWebhookDispatcher();
+
+        // Feed the company change stream from MongoDB, or from this process without a replica set
+        startCompanyStream()
+            .then(source => {
+                console.log(
+                    source === 'changeStream'
+                        ? '📡 Company change feed follows the MongoDB change stream'
+                        : '📡 Company change feed uses in-process events (no replica set)'
+                );
+            })
+            .catch(error => {
+                console.error('⚠️ Failed to open the company change stream:', error);
+            });
+
         // Step 4: Start HTTP server
         const server = await startServer();
 
@@ -0,0 +1,143 @@
+import { Request } from 'express';
+import { Document, Types } from 'mongoose';
+import { AuditLog } from '../models';
+import type {
+    AuditAction,
+    AuditEntity,
+    IAuditActor,
+    IAuditChange,
+    IAuditLogDocument,
+} from '../models';
+
+/**
+ * Audit Service
+ *
+ * Controllers take a snapshot of a document before and after changing it and
+ * pass both to `recordAudit`, which stores the field-level diff together with
+ * the actor and request ID from `getAuditContext`.
+ *
+ * Audit writes never fail the request that made the change: the change has
+ * already been committed at that point, so a failed write is logged instead.
+ */
+
+/**
+ * Who made a change and through which request
+ */
+interface IAuditContext {
+    actor: IAuditActor;
+    requestId?: string;
+}
+
+type AuditSnapshot = Record<string, unknown>;
+
+interface IRecordAuditOptions {
+    context: IAuditContext;
+    entityType: AuditEntity;
+    entityId: Types.ObjectId;
+    company?: Types.ObjectId | null;
+    action: AuditAction;
+    before?: AuditSnapshot | null;
+    after?: AuditSnapshot | null;
+}
+
+// Bookkeeping fields that never show up in a diff
+const IGNORED_FIELDS = new Set(['_id', '__v', 'id', 'createdAt', 'updatedAt']);
+
+/**
+ * Build the audit context of a request from the authenticated caller
+ */
+const getAuditContext = (req: Request): IAuditContext => {
+    let actor: IAuditActor = { type: 'system', id: null };
+
+    if (req.user) {
+        actor = { type: 'user', id: req.user._id, label: req.user.email };
+    } else if (req.apiKey) {
+        actor = {
+            type: 'apiKey',
+            id: req.apiKey._id,
+            label: `${req.apiKey.name} (${req.apiKey.prefix})`,
+        };
+    }
+
+    return { actor, requestId: req.id };
+};
+
+/**
+ * Take a plain, JSON-safe snapshot of a document's stored fields
+ */
+const snapshotDocument = (document: Document): AuditSnapshot => {
+    const data = document.toObject({ depopulate: true, virtuals: false, versionKey: false });
+    return JSON.parse(JSON.stringify(data));
+};
+
+/**
+ * Compute the fields that differ between two snapshots
+ */
+const diffSnapshots = (
+    before: AuditSnapshot | null = null,
+    after: AuditSnapshot | null = null
+): IAuditChange[] => {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    const changes: IAuditChange[] = [];
+
+    [...fields].sort().forEach(field => {
+        if (IGNORED_FIELDS.has(field)) return;
+
+        const oldValue = before?.[field];
+        const newValue = after?.[field];
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+        const change: IAuditChange = { field };
+        if (oldValue !== undefined) change.before = oldValue;
+        if (newValue !== undefined) change.after = newValue;
+        changes.push(change);
+    });
+
+    return changes;
+};
+
+/**
+ * Record an audit entry. Updates that did not change anything are skipped.
+ */
+const recordAudit = async ({
+    context,
+    entityType,
+    entityId,
+    company = null,
+    action,
+    before = null,
+    after = null,
+}: IRecordAuditOptions): Promise<IAuditLogDocument | null> => {
+    const changes = diffSnapshots(before, after);
+    if (action === 'update' && changes.length === 0) return null;
+
+    try {
+        return await AuditLog.create({
+            entityType,
+            entityId,
+            company,
+            action,
+            actor: context.actor,
+            requestId: context.requestId,
+            changes,
+        });
+    } catch (error) {
+        console.error('Failed to record audit entry:', {
+            entityType,
+            entityId: entityId.toString(),
+            action,
+            requestId: context.requestId,
+            error,
+        });
+        return null;
+    }
+};
+
+export {
+    IAuditContext,
+    AuditSnapshot,
+    getAuditContext,
+    snapshotDocument,
+    diffSnapshots,
+    recordAudit,
+};
@@ -0,0 +1,374 @@
+import { Types } from 'mongoose';
+import { Company, Department, Employee } from '../models';
+import type { ICompanyDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import { deriveFilterFields } from '../utils/filterQuery';
+import { validateSchema } from '../utils/schema';
+import { companyCreateBody } from '../schemas/company.schemas';
+import { IAuditContext, recordAudit, snapshotDocument } from './audit.service';
+import {
+    completeCompanyDeactivation,
+    prepareCompanyDeactivation,
+    prepareCompanyDeletion,
+} from './companyDependents.service';
+import { syncCompanySuggestions } from './suggestion.service';
+import { publishCompanyEvent, publishCompanyUpdate } from './companyEvents.service';
+
+/**
+ * Company Service
+ *
+ * Validation and lookups shared by the company controllers and the
+ * controllers of resources nested under a company (`/companies/:id/...`).
+ * Lookup helpers fail with the matching `ApiError`, so controllers can call
+ * them without extra checks.
+ *
+ * It also holds the creation, update and delete of a single company with their side
+ * effects (dependents, headcount, audit trail, suggestions, webhooks), shared
+ * by the single and bulk company endpoints.
+ */
+
+// Fields that can be changed after a company is created
+const COMPANY_UPDATE_FIELDS = [
+    'logo',
+    'description',
+    'location',
+    'phone',
+    'isActive',
+    'autoHeadcount',
+] as const;
+
+// Fields companies can be sorted by in listings (all indexed)
+const COMPANY_SORT_FIELDS = ['name', 'industry', 'createdAt', 'employees', 'isActive'] as const;
+
+/**
+ * Fields companies can be filtered by (search, exports, bulk changes and analytics), with
+ * their operators derived from the schema. Bare parameters keep their original meaning:
+ * `name` and `location` match substrings, `employees` and `createdAt` are minimums.
+ */
+const COMPANY_FILTER_FIELDS = deriveFilterFields(
+    Company.schema,
+    [
+        'name',
+        'description',
+        'industry',
+        'foundedYear',
+        'location',
+        'website',
+        'headquarters',
+        'employees',
+        'revenue',
+        'isActive',
+        'autoHeadcount',
+        'createdAt',
+        'updatedAt',
+    ],
+    {
+        name: { defaultOperator: 'contains' },
+        location: { defaultOperator: 'contains' },
+        employees: { defaultOperator: 'gte' },
+        createdAt: { defaultOperator: 'gte' },
+    }
+);
+
+/**
+ * Check the fields of a new company against the create schema and return the problems found.
+ * Rules that need the database (unique name and email) are checked when it is created.
+ */
+const validateCompanyFields = (data: Record<string, unknown>): string[] => {
+    const { errors } = validateSchema(companyCreateBody, data);
+
+    if (data.autoHeadcount === true && data.employees !== undefined) {
+        errors.push('employees cannot be set while autoHeadcount is enabled');
+    }
+
+    return errors;
+};
+
+/**
+ * Create a company after checking its fields and that no company (in the
+ * trash or not) has the same name or email
+ */
+const createCompanyRecord = async (
+    data: Record<string, unknown>,
+    context: IAuditContext
+): Promise<ICompanyDocument> => {
+    const {
+        name,
+        description,
+        industry,
+        foundedYear,
+        location,
+        website,
+        email,
+        phone,
+        employees,
+        autoHeadcount,
+        logo,
+        headquarters,
+        revenue,
+    } = data;
+    const errors = validateCompanyFields(data);
+
+    if (errors.length > 0) {
+        throw ApiError.unprocessableEntity('Validation failed', errors);
+    }
+
+    const existenceOfCompany = await Company.findOne({
+        $or: [
+            {
+                name: name,
+            },
+            {
+                email: email,
+            },
+        ],
+    }).setOptions({ withDeleted: true });
+
+    if (existenceOfCompany?.deletedAt) {
+        throw ApiError.conflict(
+            'A deleted company with this name or email is in the trash. Restore it instead.'
+        );
+    }
+
+    if (existenceOfCompany) {
+        throw new ApiError(400, 'Already existing company');
+    }
+
+    const newCompany = await Company.create({
+        name,
+        description,
+        industry,
+        foundedYear,
+        location,
+        website,
+        email,
+        phone,
+        employees,
+        autoHeadcount,
+        logo,
+        headquarters,
+        revenue,
+    });
+
+    if (!newCompany) {
+        throw ApiError.internal('Can not create document');
+    }
+
+    const after = snapshotDocument(newCompany);
+    await recordAudit({
+        context,
+        entityType: 'Company',
+        entityId: newCompany._id,
+        company: newCompany._id,
+        action: 'create',
+        after,
+    });
+    await syncCompanySuggestions(newCompany._id);
+    await publishCompanyEvent('company.created', context, { after });
+
+    return newCompany;
+};
+
+/**
+ * Keep the fields of an update that may be changed, ignoring the others.
+ * Fails when none is left.
+ */
+const pickCompanyUpdates = (data: Record<string, unknown>): Record<string, unknown> => {
+    const updateData: Record<string, unknown> = {};
+
+    for (const field of COMPANY_UPDATE_FIELDS) {
+        if (data[field] !== undefined) {
+            updateData[field] = data[field];
+        }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+        throw ApiError.badRequest('No fields provided to update', [
+            `Fields that can be updated: ${COMPANY_UPDATE_FIELDS.join(', ')}`,
+        ]);
+    }
+
+    return updateData;
+};
+
+/**
+ * Update a company. Deactivating it also deactivates its dependents (or is
+ * refused, depending on the dependents policy) and enabling `autoHeadcount`
+ * recalculates `employees`. Returns the updated company.
+ */
+const updateCompanyRecord = async (
+    company: ICompanyDocument,
+    updateData: Record<string, unknown>,
+    context: IAuditContext
+): Promise<ICompanyDocument> => {
+    const isDeactivation = updateData.isActive === false && company.isActive;
+    if (isDeactivation) {
+        await prepareCompanyDeactivation(company._id);
+    }
+
+    const before = snapshotDocument(company);
+    const previous = { industry: company.industry, location: [...company.location] };
+    company.set(updateData);
+    await company.save();
+
+    if (isDeactivation) {
+        await completeCompanyDeactivation(company._id);
+    }
+
+    const headcountChanged = isDeactivation || updateData.autoHeadcount === true;
+    if (updateData.autoHeadcount === true) {
+        await Company.syncHeadcount(company._id);
+    }
+
+    // The headcount is written with a separate update, so reload to return it
+    const updatedCompany = headcountChanged
+        ? ((await Company.findById(company._id)) ?? company)
+        : company;
+
+    const after = snapshotDocument(updatedCompany);
+    await recordAudit({
+        context,
+        entityType: 'Company',
+        entityId: company._id,
+        company: company._id,
+        action: 'update',
+        before,
+        after,
+    });
+    await syncCompanySuggestions(company._id, previous);
+    await publishCompanyUpdate(context, before, after);
+
+    return updatedCompany;
+};
+
+/**
+ * Move a company to the trash, unless the dependents policy refuses it
+ */
+const deleteCompanyRecord = async (
+    company: ICompanyDocument,
+    context: IAuditContext,
+    deletedBy: Types.ObjectId | null
+): Promise<ICompanyDocument> => {
+    await prepareCompanyDeletion(company._id);
+
+    const before = snapshotDocument(company);
+    await company.softDelete(deletedBy);
+
+    const after = snapshotDocument(company);
+    await recordAudit({
+        context,
+        entityType: 'Company',
+        entityId: company._id,
+        company: company._id,
+        action: 'delete',
+        before,
+        after,
+    });
+    await syncCompanySuggestions(company._id, company);
+    await publishCompanyEvent('company.deleted', context, { before, after });
+
+    return company;
+};
+
+/**
+ * Load a company by ID or fail with 404
+ */
+const findCompanyOrFail = async (companyId: string): Promise<ICompanyDocument> => {
+    const company = await Company.findById(companyId);
+    if (!company) {
+        throw ApiError.notFound('Company not found');
+    }
+    return company;
+};
+
+/**
+ * Validate that a department belongs to the company and return its ID.
+ * `null` and empty strings clear the reference.
+ */
+const resolveCompanyDepartment = async (
+    companyId: Types.ObjectId,
+    departmentId: unknown
+): Promise<Types.ObjectId | null> => {
+    if (departmentId === null || departmentId === '') return null;
+    if (!Types.ObjectId.isValid(String(departmentId))) {
+        throw ApiError.badRequest('Invalid department ID');
+    }
+
+    const department = await Department.findOne({ _id: departmentId, company: companyId });
+    if (!department) {
+        throw ApiError.badRequest('Department must belong to the same company');
+    }
+    return department._id;
+};
+
+/**
+ * Validate that an active employee belongs to the company and return its ID.
+ * `null` and empty strings clear the reference.
+ */
+const resolveCompanyEmployee = async (
+    companyId: Types.ObjectId,
+    employeeId: unknown,
+    label: string = 'Employee'
+): Promise<Types.ObjectId | null> => {
+    if (employeeId === null || employeeId === '') return null;
+    if (!Types.ObjectId.isValid(String(employeeId))) {
+        throw ApiError.badRequest(`Invalid ${label.toLowerCase()} ID`);
+    }
+
+    const employee = await Employee.findOne({
+        _id: employeeId,
+        company: companyId,
+        status: 'active',
+    });
+    if (!employee) {
+        throw ApiError.badRequest(`${label} must be an active employee of the same company`);
+    }
+    return employee._id;
+};
+
+/**
+ * Validate a list of employee IDs that must all be active employees of the
+ * company and return them without duplicates.
+ */
+const resolveCompanyEmployees = async (
+    companyId: Types.ObjectId,
+    employeeIds: unknown
+): Promise<Types.ObjectId[]> => {
+    if (!Array.isArray(employeeIds)) {
+        throw ApiError.badRequest('Employee IDs must be an array');
+    }
+
+    const ids = [...new Set(employeeIds.map(id => String(id)))];
+    const malformed = ids.filter(id => !Types.ObjectId.isValid(id));
+    if (malformed.length > 0) {
+        throw ApiError.badRequest('Invalid employee IDs', malformed);
+    }
+
+    const employees = await Employee.find({
+        _id: { $in: ids },
+        company: companyId,
+        status: 'active',
+    }).select('_id');
+    const found = new Set(employees.map(employee => employee._id.toString()));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+        throw ApiError.badRequest('Members must be active employees of the same company', missing);
+    }
+
+    return employees.map(employee => employee._id);
+};
+
+export {
+    COMPANY_FILTER_FIELDS,
+    COMPANY_UPDATE_FIELDS,
+    COMPANY_SORT_FIELDS,
+    validateCompanyFields,
+    createCompanyRecord,
+    pickCompanyUpdates,
+    updateCompanyRecord,
+    deleteCompanyRecord,
+    findCompanyOrFail,
+    resolveCompanyDepartment,
+    resolveCompanyEmployee,
+    resolveCompanyEmployees,
+};
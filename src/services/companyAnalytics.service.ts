@@ -0,0 +1,349 @@
+import { FilterQuery } from 'mongoose';
+import { Company } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import type { ICompanyDocument, IIndustryStats, IndustryType } from '../models';
+import {
+    employeeRangeBuckets,
+    employeeRangeExpression,
+    foundedDecadeExpression,
+    industryEnum,
+    unknownEmployeeRange,
+} from '../models/company.model';
+
+/**
+ * Company Analytics Service
+ *
+ * Aggregated figures about the companies matching a filter: industry
+ * breakdown, revenue distribution, employee-size histogram, companies
+ * founded per decade, location leaderboard and active vs inactive ratios.
+ * Every figure is computed in the database, and the filter is the one built
+ * from the search filters, so analytics describe the same companies a
+ * search would return.
+ */
+
+// Percentiles of the revenue distribution (nearest-rank method)
+export const REVENUE_PERCENTILES = [10, 25, 50, 75, 90, 95, 99] as const;
+
+export const DEFAULT_LOCATION_LIMIT = 10;
+export const MAX_LOCATION_LIMIT = 100;
+
+type CompanyFilter = FilterQuery<ICompanyDocument>;
+
+/**
+ * Companies of one industry, with their share of all matched companies
+ */
+interface IIndustryBreakdown extends IIndustryStats {
+    share: number;
+}
+
+/**
+ * Revenue figures of the companies with a known revenue
+ */
+interface IRevenueDistribution {
+    count: number;
+    min: number | null;
+    max: number | null;
+    mean: number | null;
+    percentiles: { percentile: number; value: number | null }[];
+}
+
+/**
+ * Number of companies in one headcount range
+ */
+interface IEmployeeHistogramBin {
+    range: string;
+    count: number;
+}
+
+/**
+ * Companies founded per decade, with every decade between the first and the
+ * last one listed, and the number of companies without a founding year
+ */
+interface IFoundedPerDecade {
+    decades: { decade: number; count: number }[];
+    unknown: number;
+}
+
+/**
+ * One entry of the location leaderboard
+ */
+interface ILocationRank {
+    rank: number;
+    location: string;
+    count: number;
+    totalEmployees: number;
+}
+
+/**
+ * Active and inactive companies, overall and per industry.
+ * Ratios are the share of active companies, or null without companies.
+ */
+interface IActivityRatio {
+    total: number;
+    active: number;
+    inactive: number;
+    activeRatio: number | null;
+    byIndustry: {
+        industry: IndustryType;
+        active: number;
+        inactive: number;
+        activeRatio: number | null;
+    }[];
+}
+
+/**
+ * Every figure at once. Revenue is only included on request, as it needs
+ * access to sensitive company fields.
+ */
+interface ICompanyAnalytics {
+    total: number;
+    industries: IIndustryBreakdown[];
+    revenue?: IRevenueDistribution;
+    employees: IEmployeeHistogramBin[];
+    founded: IFoundedPerDecade;
+    locations: ILocationRank[];
+    activity: IActivityRatio;
+}
+
+/**
+ * Read the number of locations of the leaderboard
+ */
+const parseLocationLimit = (value: unknown): number => {
+    const limit = value === undefined ? DEFAULT_LOCATION_LIMIT : Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LOCATION_LIMIT) {
+        throw ApiError.badRequest(`limit must be an integer between 1 and ${MAX_LOCATION_LIMIT}`);
+    }
+    return limit;
+};
+
+const ratio = (part: number, total: number): number | null =>
+    total > 0 ? Math.round((part / total) * 10000) / 10000 : null;
+
+/**
+ * Every industry (including those without companies), largest first
+ */
+const toIndustryBreakdown = (stats: IIndustryStats[]): IIndustryBreakdown[] => {
+    const total = stats.reduce((sum, industry) => sum + industry.count, 0);
+    const missing = industryEnum
+        .filter(industry => !stats.some(entry => entry.industry === industry))
+        .map(industry => ({
+            industry,
+            count: 0,
+            activeCount: 0,
+            averageEmployees: null,
+            totalEmployees: 0,
+        }));
+
+    return [...stats, ...missing].map(industry => ({
+        ...industry,
+        share: ratio(industry.count, total) ?? 0,
+    }));
+};
+
+const toActivityRatio = (stats: IIndustryStats[]): IActivityRatio => {
+    const total = stats.reduce((sum, industry) => sum + industry.count, 0);
+    const active = stats.reduce((sum, industry) => sum + industry.activeCount, 0);
+
+    return {
+        total,
+        active,
+        inactive: total - active,
+        activeRatio: ratio(active, total),
+        byIndustry: stats.map(industry => ({
+            industry: industry.industry,
+            active: industry.activeCount,
+            inactive: industry.count - industry.activeCount,
+            activeRatio: ratio(industry.activeCount, industry.count),
+        })),
+    };
+};
+
+/**
+ * Companies, share and headcount per industry
+ */
+const getIndustryBreakdown = async (filter: CompanyFilter): Promise<IIndustryBreakdown[]> => {
+    return toIndustryBreakdown(await Company.getCompanyStats(filter));
+};
+
+/**
+ * Active vs inactive companies, overall and per industry
+ */
+const getActivityRatio = async (filter: CompanyFilter): Promise<IActivityRatio> => {
+    return toActivityRatio(await Company.getCompanyStats(filter));
+};
+
+/**
+ * Minimum, maximum, mean and percentiles of the revenue
+ */
+const getRevenueDistribution = async (filter: CompanyFilter): Promise<IRevenueDistribution> => {
+    const match = { ...filter, revenue: { $type: 'number' } };
+    const [summary] = await Company.aggregate<{
+        count: number;
+        min: number;
+        max: number;
+        mean: number;
+    }>([
+        { $match: match },
+        {
+            $group: {
+                _id: null,
+                count: { $sum: 1 },
+                min: { $min: '$revenue' },
+                max: { $max: '$revenue' },
+                mean: { $avg: '$revenue' },
+            },
+        },
+    ]);
+
+    if (!summary) {
+        return {
+            count: 0,
+            min: null,
+            max: null,
+            mean: null,
+            percentiles: REVENUE_PERCENTILES.map(percentile => ({ percentile, value: null })),
+        };
+    }
+
+    // Read the value at each percentile's rank from the sorted revenues
+    const rankOf = (percentile: number) =>
+        Math.max(0, Math.ceil((percentile / 100) * summary.count) - 1);
+    const [values] = await Company.aggregate<Record<string, { revenue: number }[]>>([
+        { $match: match },
+        { $sort: { revenue: 1 } },
+        {
+            $facet: Object.fromEntries(
+                REVENUE_PERCENTILES.map(percentile => [
+                    `p${percentile}`,
+                    [{ $skip: rankOf(percentile) }, { $limit: 1 }, { $project: { revenue: 1 } }],
+                ])
+            ),
+        },
+    ]).allowDiskUse(true);
+
+    return {
+        count: summary.count,
+        min: summary.min,
+        max: summary.max,
+        mean: summary.mean,
+        percentiles: REVENUE_PERCENTILES.map(percentile => ({
+            percentile,
+            value: values?.[`p${percentile}`]?.[0]?.revenue ?? null,
+        })),
+    };
+};
+
+/**
+ * Companies per headcount range (the `employeeRange` buckets), smallest first
+ */
+const getEmployeeHistogram = async (filter: CompanyFilter): Promise<IEmployeeHistogramBin[]> => {
+    const counts = await Company.aggregate<{ _id: string; count: number }>([
+        { $match: filter },
+        { $group: { _id: employeeRangeExpression, count: { $sum: 1 } } },
+    ]);
+
+    return [...employeeRangeBuckets.map(bucket => bucket.label), unknownEmployeeRange].map(
+        range => ({
+            range,
+            count: counts.find(entry => entry._id === range)?.count ?? 0,
+        })
+    );
+};
+
+/**
+ * Companies founded per decade
+ */
+const getFoundedPerDecade = async (filter: CompanyFilter): Promise<IFoundedPerDecade> => {
+    const counts = await Company.aggregate<{ _id: number | null; count: number }>([
+        { $match: filter },
+        { $group: { _id: foundedDecadeExpression, count: { $sum: 1 } } },
+    ]);
+
+    const known = counts.filter(entry => entry._id !== null) as { _id: number; count: number }[];
+    const decades: IFoundedPerDecade['decades'] = [];
+    if (known.length > 0) {
+        const first = Math.min(...known.map(entry => entry._id));
+        const last = Math.max(...known.map(entry => entry._id));
+        for (let decade = first; decade <= last; decade += 10) {
+            decades.push({
+                decade,
+                count: known.find(entry => entry._id === decade)?.count ?? 0,
+            });
+        }
+    }
+
+    return {
+        decades,
+        unknown: counts.find(entry => entry._id === null)?.count ?? 0,
+    };
+};
+
+/**
+ * Locations with the most companies
+ */
+const getLocationLeaderboard = async (
+    filter: CompanyFilter,
+    limit: number = DEFAULT_LOCATION_LIMIT
+): Promise<ILocationRank[]> => {
+    const locations = await Company.aggregate<Omit<ILocationRank, 'rank'>>([
+        { $match: filter },
+        { $unwind: '$location' },
+        {
+            $group: {
+                _id: '$location',
+                count: { $sum: 1 },
+                totalEmployees: { $sum: '$employees' },
+            },
+        },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: limit },
+        { $project: { _id: 0, location: '$_id', count: 1, totalEmployees: 1 } },
+    ]);
+
+    return locations.map((location, index) => ({ rank: index + 1, ...location }));
+};
+
+/**
+ * Every figure for the companies matching a filter
+ */
+const getCompanyAnalytics = async (
+    filter: CompanyFilter,
+    options: { includeRevenue: boolean; locationLimit?: number }
+): Promise<ICompanyAnalytics> => {
+    const [stats, revenue, employees, founded, locations] = await Promise.all([
+        Company.getCompanyStats(filter),
+        options.includeRevenue ? getRevenueDistribution(filter) : undefined,
+        getEmployeeHistogram(filter),
+        getFoundedPerDecade(filter),
+        getLocationLeaderboard(filter, options.locationLimit),
+    ]);
+    const activity = toActivityRatio(stats);
+
+    return {
+        total: activity.total,
+        industries: toIndustryBreakdown(stats),
+        ...(revenue && { revenue }),
+        employees,
+        founded,
+        locations,
+        activity,
+    };
+};
+
+export {
+    IIndustryBreakdown,
+    IRevenueDistribution,
+    IEmployeeHistogramBin,
+    IFoundedPerDecade,
+    ILocationRank,
+    IActivityRatio,
+    ICompanyAnalytics,
+    parseLocationLimit,
+    getIndustryBreakdown,
+    getRevenueDistribution,
+    getEmployeeHistogram,
+    getFoundedPerDecade,
+    getLocationLeaderboard,
+    getActivityRatio,
+    getCompanyAnalytics,
+};
@@ -0,0 +1,222 @@
+import { Error as MongooseError, Types } from 'mongoose';
+import { Company } from '../models';
+import type { ICompanyDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import { FilterFields, parseFilterQuery } from '../utils/filterQuery';
+import { IAuditContext } from './audit.service';
+import { deleteCompanyRecord, updateCompanyRecord } from './company.service';
+
+/**
+ * Company Bulk Service
+ *
+ * Updates or deletes many companies in one request. Companies are selected
+ * by an explicit list of IDs or by a filter using the search filter syntax,
+ * and each one goes through the same steps as `PATCH /companies/:id` or
+ * `DELETE /companies/:id`, including the dependents policy, the audit trail
+ * and suggestions.
+ *
+ * Companies are processed one by one: a company that fails (for example a
+ * deactivation refused by the dependents policy) is reported and the others
+ * are still processed. With `preview`, the matched companies are returned
+ * and nothing is changed.
+ */
+
+export const MAX_BULK_COMPANIES = 500;
+
+type BulkAction = 'update' | 'delete';
+type BulkResultStatus = 'matched' | 'updated' | 'deleted' | 'failed';
+
+/**
+ * Which companies a bulk request applies to: `ids` or `filter`
+ */
+interface IBulkTarget {
+    ids?: unknown;
+    filter?: unknown;
+}
+
+/**
+ * Outcome for one company
+ */
+interface IBulkResult {
+    id: string;
+    status: BulkResultStatus;
+    name?: string;
+    errors?: string[];
+    errorCode?: string;
+}
+
+/**
+ * Bulk operation report
+ */
+interface IBulkReport {
+    action: BulkAction;
+    preview: boolean;
+    matched: number;
+    succeeded: number;
+    failed: number;
+    results: IBulkResult[];
+}
+
+interface IBulkOptions {
+    action: BulkAction;
+    preview: boolean;
+    // Fields to set, for updates
+    updateData?: Record<string, unknown>;
+    context: IAuditContext;
+    deletedBy?: Types.ObjectId | null;
+}
+
+/**
+ * Companies selected by a bulk request, and results for IDs that matched none
+ */
+interface IResolvedTargets {
+    companies: ICompanyDocument[];
+    unmatched: IBulkResult[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Find the companies of an explicit ID list, in the order given.
+ * Malformed and unknown IDs are reported per ID.
+ */
+const resolveIds = async (ids: unknown): Promise<IResolvedTargets> => {
+    if (!Array.isArray(ids) || ids.length === 0) {
+        throw ApiError.badRequest('ids must be a non-empty array of company IDs');
+    }
+
+    const uniqueIds = [...new Set(ids.map(id => String(id)))];
+    if (uniqueIds.length > MAX_BULK_COMPANIES) {
+        throw ApiError.badRequest(`At most ${MAX_BULK_COMPANIES} companies can be changed at once`);
+    }
+
+    const validIds = uniqueIds.filter(id => Types.ObjectId.isValid(id));
+    const found = await Company.find({ _id: { $in: validIds } });
+    const byId = new Map(found.map(company => [company._id.toString(), company]));
+
+    const companies: ICompanyDocument[] = [];
+    const unmatched: IBulkResult[] = [];
+    for (const id of uniqueIds) {
+        const company = byId.get(id);
+        if (company) {
+            companies.push(company);
+        } else {
+            const error = Types.ObjectId.isValid(id) ? 'Company not found' : 'Invalid company ID';
+            unmatched.push({ id, status: 'failed', errors: [error] });
+        }
+    }
+
+    return { companies, unmatched };
+};
+
+/**
+ * Find the companies matching a filter. Filters matching more companies than
+ * can be changed at once are refused, so nothing is changed by accident.
+ */
+const resolveFilter = async (filter: unknown, fields: FilterFields): Promise<IResolvedTargets> => {
+    if (!isObject(filter)) {
+        throw ApiError.badRequest('filter must be an object of filter conditions');
+    }
+
+    const query = parseFilterQuery(filter, fields);
+    if (Object.keys(query).length === 0) {
+        throw ApiError.badRequest('filter must contain at least one condition');
+    }
+
+    const companies = await Company.find(query)
+        .sort({ _id: 1 })
+        .limit(MAX_BULK_COMPANIES + 1);
+    if (companies.length > MAX_BULK_COMPANIES) {
+        const total = await Company.countDocuments(query);
+        throw ApiError.badRequest(
+            `The filter matches ${total} companies; at most ${MAX_BULK_COMPANIES} can be changed at once`
+        );
+    }
+
+    return { companies, unmatched: [] };
+};
+
+/**
+ * Resolve the companies a bulk request applies to
+ */
+const resolveBulkTargets = async (
+    target: IBulkTarget,
+    fields: FilterFields
+): Promise<IResolvedTargets> => {
+    const hasIds = target.ids !== undefined;
+    const hasFilter = target.filter !== undefined;
+
+    if (hasIds === hasFilter) {
+        throw ApiError.badRequest('Provide either ids or filter');
+    }
+
+    return hasIds ? resolveIds(target.ids) : resolveFilter(target.filter, fields);
+};
+
+/**
+ * Describe why changing one company failed
+ */
+const describeBulkError = (error: unknown): Pick<IBulkResult, 'errors' | 'errorCode'> => {
+    if (error instanceof ApiError) {
+        return {
+            errors: error.errors?.length ? [error.message, ...error.errors] : [error.message],
+            ...(error.errorCode && { errorCode: error.errorCode }),
+        };
+    }
+    if (error instanceof MongooseError.ValidationError) {
+        return { errors: Object.values(error.errors).map(item => item.message) };
+    }
+
+    console.error('Failed to change company in bulk:', error);
+    return { errors: ['Failed to save the company'] };
+};
+
+/**
+ * Update or delete every company a bulk request applies to
+ */
+const runBulkOperation = async (
+    target: IBulkTarget,
+    fields: FilterFields,
+    options: IBulkOptions
+): Promise<IBulkReport> => {
+    const { companies, unmatched } = await resolveBulkTargets(target, fields);
+    const results: IBulkResult[] = [];
+
+    for (const company of companies) {
+        const result: IBulkResult = {
+            id: company._id.toString(),
+            status: 'matched',
+            name: company.name,
+        };
+        results.push(result);
+        if (options.preview) continue;
+
+        try {
+            if (options.action === 'update') {
+                await updateCompanyRecord(company, options.updateData ?? {}, options.context);
+                result.status = 'updated';
+            } else {
+                await deleteCompanyRecord(company, options.context, options.deletedBy ?? null);
+                result.status = 'deleted';
+            }
+        } catch (error) {
+            Object.assign(result, { status: 'failed' }, describeBulkError(error));
+        }
+    }
+
+    results.push(...unmatched);
+
+    return {
+        action: options.action,
+        preview: options.preview,
+        matched: companies.length,
+        succeeded: results.filter(
+            result => result.status === 'updated' || result.status === 'deleted'
+        ).length,
+        failed: results.filter(result => result.status === 'failed').length,
+        results,
+    };
+};
+
+export { BulkAction, IBulkTarget, IBulkResult, IBulkReport, IBulkOptions, runBulkOperation };
@@ -0,0 +1,170 @@
+import { Model, Types } from 'mongoose';
+import { Company, CompanyMetric, Department, Employee, Project } from '../models';
+import { openProjectStatuses } from '../models/project.model';
+import { ApiError } from '../utils/apiResponse';
+
+/**
+ * Company Dependents Service
+ *
+ * Records such as departments, employees and projects belong to a company.
+ * When a company is deleted or deactivated, those records are handled
+ * according to the configured policy (`COMPANY_DEPENDENTS_POLICY`):
+ *
+ * - `block` (default): refuse the operation while dependents still exist
+ *   (or, for deactivation, while active dependents exist)
+ * - `cascade`: delete the dependents with the company, or deactivate them
+ *   with it (employees are terminated, open projects are cancelled)
+ *
+ * Deleted companies go to the trash first. Their dependents are kept so a
+ * restore brings them back, and are only removed when the company is purged.
+ *
+ * New dependent models are registered in the `dependents` list below.
+ */
+
+type DependentsPolicy = 'block' | 'cascade';
+
+/**
+ * Stable error code returned when the block policy prevents an operation
+ */
+export const COMPANY_HAS_DEPENDENTS = 'COMPANY_HAS_DEPENDENTS';
+
+/**
+ * The queries run on a dependent model
+ */
+type DependentModel = Pick<Model<unknown>, 'countDocuments' | 'deleteMany' | 'updateMany'>;
+
+interface ICompanyDependent {
+    label: string;
+    model: DependentModel;
+    activeFilter: Record<string, unknown>;
+    deactivateUpdate: () => Record<string, unknown>;
+}
+
+const dependents: ICompanyDependent[] = [
+    {
+        label: 'departments',
+        model: Department,
+        activeFilter: { isActive: true },
+        deactivateUpdate: () => ({ isActive: false }),
+    },
+    {
+        label: 'employees',
+        model: Employee,
+        activeFilter: { status: 'active' },
+        deactivateUpdate: () => ({
+            status: 'terminated',
+            endDate: new Date(),
+            terminationReason: 'Company deactivated',
+        }),
+    },
+    {
+        label: 'projects',
+        model: Project,
+        activeFilter: { status: { $in: openProjectStatuses } },
+        deactivateUpdate: () => ({ status: 'cancelled' }),
+    },
+];
+
+/**
+ * Get the configured dependents policy
+ */
+const getDependentsPolicy = (): DependentsPolicy => {
+    return process.env.COMPANY_DEPENDENTS_POLICY === 'cascade' ? 'cascade' : 'block';
+};
+
+/**
+ * Count dependents of a company, keyed by label, skipping empty ones
+ */
+const countDependents = async (
+    companyId: Types.ObjectId | string,
+    activeOnly: boolean
+): Promise<Record<string, number>> => {
+    const counts = await Promise.all(
+        dependents.map(dependent =>
+            dependent.model.countDocuments({
+                company: companyId,
+                ...(activeOnly ? dependent.activeFilter : {}),
+            })
+        )
+    );
+
+    return dependents.reduce<Record<string, number>>((result, dependent, index) => {
+        if (counts[index] > 0) result[dependent.label] = counts[index];
+        return result;
+    }, {});
+};
+
+/**
+ * Throw a conflict error listing the dependents that block an action
+ */
+const assertNoDependents = async (
+    companyId: Types.ObjectId | string,
+    action: 'delete' | 'deactivate'
+): Promise<void> => {
+    const counts = await countDependents(companyId, action === 'deactivate');
+    const labels = Object.keys(counts);
+    if (labels.length === 0) return;
+
+    const summary = labels.map(label => `${counts[label]} ${label}`);
+    throw new ApiError(
+        409,
+        `Cannot ${action} company while it has ${action === 'deactivate' ? 'active ' : ''}dependent records`,
+        summary
+    ).withCode(COMPANY_HAS_DEPENDENTS);
+};
+
+/**
+ * Run before a company is moved to the trash. Blocks when the policy is `block`.
+ */
+const prepareCompanyDeletion = async (companyId: Types.ObjectId | string): Promise<void> => {
+    if (getDependentsPolicy() === 'block') {
+        await assertNoDependents(companyId, 'delete');
+    }
+};
+
+/**
+ * Run after a company is purged from the trash. Removes all remaining dependents,
+ * and the company's metric history (which never blocks an operation).
+ */
+const purgeCompanyDependents = async (companyId: Types.ObjectId | string): Promise<void> => {
+    await Promise.all([
+        ...dependents.map(dependent => dependent.model.deleteMany({ company: companyId })),
+        CompanyMetric.deleteMany({ company: companyId }),
+    ]);
+};
+
+/**
+ * Run before a company is deactivated. Blocks when the policy is `block`.
+ */
+const prepareCompanyDeactivation = async (companyId: Types.ObjectId | string): Promise<void> => {
+    if (getDependentsPolicy() === 'block') {
+        await assertNoDependents(companyId, 'deactivate');
+    }
+};
+
+/**
+ * Run after a company is deactivated. Deactivates dependents when the policy is `cascade`.
+ */
+const completeCompanyDeactivation = async (companyId: Types.ObjectId | string): Promise<void> => {
+    if (getDependentsPolicy() !== 'cascade') return;
+    await Promise.all(
+        dependents.map(dependent =>
+            dependent.model.updateMany(
+                { company: companyId, ...dependent.activeFilter },
+                { $set: dependent.deactivateUpdate() }
+            )
+        )
+    );
+    // Bulk updates skip the Employee hooks, so re-sync the headcount here
+    await Company.syncHeadcount(companyId);
+};
+
+export {
+    DependentsPolicy,
+    getDependentsPolicy,
+    countDependents,
+    prepareCompanyDeletion,
+    purgeCompanyDependents,
+    prepareCompanyDeactivation,
+    completeCompanyDeactivation,
+};
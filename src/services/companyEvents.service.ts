@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import type { IAuditChange, WebhookEvent } from '../models';
+import { AuditSnapshot, diffSnapshots, IAuditContext } from './audit.service';
+import { publishToCompanyStream } from './companyStream.service';
+import { queueWebhookDeliveries } from './webhook.service';
+
+/**
+ * Company Events Service
+ *
+ * Company lifecycle events (created, updated, deactivated, deleted, restored,
+ * purged) are raised next to the audit entry of each change and handed to
+ * every consumer: webhook subscriptions and the live change feed.
+ *
+ * Publishing never fails the request that changed a company: the change has
+ * already been committed at that point, so a failed publish is logged instead.
+ */
+
+// Every company event can be subscribed to by webhooks
+type CompanyEventType = WebhookEvent;
+
+/**
+ * A company event, as POSTed to webhooks
+ */
+interface ICompanyEvent {
+    id: string;
+    type: CompanyEventType;
+    createdAt: string;
+    actor: { type: string; id: string | null };
+    requestId: string | null;
+    data: {
+        company: AuditSnapshot;
+        changes?: IAuditChange[];
+    };
+}
+
+/**
+ * Company snapshots around the change that raised an event
+ */
+interface ICompanyEventSnapshots {
+    before?: AuditSnapshot | null;
+    after?: AuditSnapshot | null;
+}
+
+/**
+ * Publish a company event. Updates that did not change anything are not published.
+ */
+const publishCompanyEvent = async (
+    type: CompanyEventType,
+    context: IAuditContext,
+    { before = null, after = null }: ICompanyEventSnapshots
+): Promise<void> => {
+    const company = after ?? before;
+    if (!company) return;
+
+    const changes = type === 'company.updated' ? diffSnapshots(before, after) : undefined;
+    if (changes && changes.length === 0) return;
+
+    const event: ICompanyEvent = {
+        id: crypto.randomUUID(),
+        type,
+        createdAt: new Date().toISOString(),
+        actor: {
+            type: context.actor.type,
+            id: context.actor.id ? context.actor.id.toString() : null,
+        },
+        requestId: context.requestId ?? null,
+        data: { company, ...(changes && { changes }) },
+    };
+
+    try {
+        publishToCompanyStream(event);
+        await queueWebhookDeliveries(event);
+    } catch (error) {
+        console.error('Failed to publish company event:', {
+            type,
+            companyId: company._id,
+            requestId: context.requestId,
+            error,
+        });
+    }
+};
+
+/**
+ * Publish a company update, and its deactivation when `isActive` was turned off
+ */
+const publishCompanyUpdate = async (
+    context: IAuditContext,
+    before: AuditSnapshot,
+    after: AuditSnapshot
+): Promise<void> => {
+    await publishCompanyEvent('company.updated', context, { before, after });
+    if (before.isActive === true && after.isActive === false) {
+        await publishCompanyEvent('company.deactivated', context, { before, after });
+    }
+};
+
+export {
+    CompanyEventType,
+    ICompanyEvent,
+    ICompanyEventSnapshots,
+    publishCompanyEvent,
+    publishCompanyUpdate,
+};
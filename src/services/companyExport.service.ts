@@ -0,0 +1,209 @@
+import { Response } from 'express';
+import { FilterQuery } from 'mongoose';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Company } from '../models';
+import type { ICompany, ICompanyDocument } from '../models';
+import { getEmployeeRangeLabel, sensitiveCompanyFields } from '../models/company.model';
+import { ApiError } from '../utils/apiResponse';
+import { formatCsvRow } from '../utils/csv';
+import { ISortSpec, toMongoSort } from '../utils/pagination';
+import { createXlsxStream } from '../utils/xlsx';
+import { LIST_SEPARATOR } from './companyImport.service';
+import { PERMISSION_DENIED } from '../configs/permissions';
+
+/**
+ * Company Export Service
+ *
+ * Streams companies as CSV, NDJSON or XLSX straight from a MongoDB cursor, so
+ * memory use stays flat however many companies are exported.
+ *
+ * Callers choose the columns; `email` and `revenue` are only exported for
+ * callers allowed to read sensitive company fields, the same fields
+ * `getPublicProfile()` leaves out. CSV columns use the import field names,
+ * so an exported file can be imported again.
+ */
+
+export const exportFormatEnum = ['csv', 'ndjson', 'xlsx'] as const;
+
+type ExportFormat = (typeof exportFormatEnum)[number];
+
+// Documents fetched from MongoDB per batch while streaming
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Companies are read as plain objects with only the exported fields
+type ExportedCompany = Partial<ICompany> & { _id: unknown };
+
+/**
+ * An exported column: the company fields it reads and how its value is derived
+ */
+interface IExportColumn {
+    select: string;
+    value: (company: ExportedCompany) => unknown;
+}
+
+const fieldColumn = (field: keyof ICompany): IExportColumn => ({
+    select: field,
+    value: company => company[field],
+});
+
+/**
+ * Columns that can be exported, in their default order
+ */
+const EXPORT_COLUMNS: Record<string, IExportColumn> = {
+    id: { select: '_id', value: company => String(company._id) },
+    name: fieldColumn('name'),
+    description: fieldColumn('description'),
+    industry: fieldColumn('industry'),
+    foundedYear: fieldColumn('foundedYear'),
+    location: fieldColumn('location'),
+    headquarters: fieldColumn('headquarters'),
+    website: fieldColumn('website'),
+    email: fieldColumn('email'),
+    phone: fieldColumn('phone'),
+    employees: fieldColumn('employees'),
+    employeeRange: {
+        select: 'employees',
+        value: company => getEmployeeRangeLabel(company.employees),
+    },
+    revenue: fieldColumn('revenue'),
+    isActive: fieldColumn('isActive'),
+    autoHeadcount: fieldColumn('autoHeadcount'),
+    logo: fieldColumn('logo'),
+    createdAt: fieldColumn('createdAt'),
+    updatedAt: fieldColumn('updatedAt'),
+};
+
+export const exportColumnNames = Object.keys(EXPORT_COLUMNS);
+
+/**
+ * Options of an export
+ */
+interface IExportOptions {
+    format: ExportFormat;
+    columns: string[];
+    filter: FilterQuery<ICompanyDocument>;
+    sort: ISortSpec;
+}
+
+/**
+ * Resolve the `columns` parameter, a list of column names checked by the route
+ * schema. Without it, every column the caller may read is exported. Asking for
+ * sensitive columns without access to them is refused rather than silently
+ * dropping them.
+ */
+const parseExportColumns = (value: string[] | undefined, canReadSensitive: boolean): string[] => {
+    const isSensitive = (column: string) =>
+        (sensitiveCompanyFields as readonly string[]).includes(column);
+
+    if (value === undefined) {
+        return exportColumnNames.filter(column => canReadSensitive || !isSensitive(column));
+    }
+
+    const columns = [...new Set(value)];
+    const restricted = columns.filter(isSensitive);
+    if (restricted.length > 0 && !canReadSensitive) {
+        throw ApiError.forbidden(
+            `Exporting ${restricted.join(', ')} requires the company:readSensitive permission`,
+            PERMISSION_DENIED
+        );
+    }
+
+    return columns;
+};
+
+/**
+ * Format a value for a CSV or XLSX cell. Lists share one cell.
+ */
+const toCellValue = (value: unknown): unknown =>
+    Array.isArray(value) ? value.join(`${LIST_SEPARATOR} `) : value;
+
+/**
+ * Convert the companies into encoded chunks of the chosen format
+ */
+const encodeCompanies = (
+    companies: AsyncIterable<ExportedCompany>,
+    { format, columns }: IExportOptions
+): AsyncIterable<string | Buffer> => {
+    const definitions = columns.map(column => EXPORT_COLUMNS[column]);
+
+    async function* toRows(): AsyncGenerator<unknown[]> {
+        for await (const company of companies) {
+            yield definitions.map(definition => toCellValue(definition.value(company)));
+        }
+    }
+
+    async function* toCsv(): AsyncGenerator<string> {
+        yield formatCsvRow(columns);
+        for await (const row of toRows()) {
+            yield formatCsvRow(row);
+        }
+    }
+
+    async function* toNdjson(): AsyncGenerator<string> {
+        for await (const company of companies) {
+            const record = Object.fromEntries(
+                columns.map((column, index) => [column, definitions[index].value(company) ?? null])
+            );
+            yield `${JSON.stringify(record)}\n`;
+        }
+    }
+
+    if (format === 'xlsx') return createXlsxStream(columns, toRows(), 'Companies');
+    return format === 'csv' ? toCsv() : toNdjson();
+};
+
+/**
+ * Stream the export to the response. Errors before the first company is read
+ * are thrown as usual; later errors can only end the download early, as the
+ * status and headers have been sent by then.
+ */
+const streamCompanyExport = async (res: Response, options: IExportOptions): Promise<void> => {
+    const select = [...new Set(options.columns.map(column => EXPORT_COLUMNS[column].select))].join(
+        ' '
+    );
+    const cursor = Company.find(options.filter)
+        .select(select)
+        .sort(toMongoSort(options.sort))
+        .batchSize(EXPORT_BATCH_SIZE)
+        .lean()
+        .cursor();
+
+    try {
+        const first = await cursor.next();
+
+        async function* readCompanies(): AsyncGenerator<ExportedCompany> {
+            if (!first) return;
+            yield first;
+            for await (const company of cursor) {
+                yield company;
+            }
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        res.status(200).set({
+            'Content-Type': EXPORT_CONTENT_TYPES[options.format],
+            'Content-Disposition': `attachment; filename="companies-${date}.${options.format}"`,
+            'Cache-Control': 'no-store',
+        });
+
+        await pipeline(Readable.from(encodeCompanies(readCompanies(), options)), res).catch(
+            (error: NodeJS.ErrnoException) => {
+                // A client closing the download early is not an error
+                if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+                    console.error('Company export failed:', error);
+                }
+            }
+        );
+    } finally {
+        await cursor.close().catch(() => undefined);
+    }
+};
+
+export { ExportFormat, IExportOptions, parseExportColumns, streamCompanyExport };
@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+import { Company } from '../models';
+import type { ICompanyDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import type { IAuditContext } from './audit.service';
+import { createCompanyRecord, updateCompanyRecord } from './company.service';
+import { importCompanyRows } from './companyImport.service';
+
+jest.mock('./company.service', () => ({
+    ...jest.requireActual('./company.service'),
+    createCompanyRecord: jest.fn(),
+    updateCompanyRecord: jest.fn(),
+}));
+
+const createCompanyRecordMock = jest.mocked(createCompanyRecord);
+const updateCompanyRecordMock = jest.mocked(updateCompanyRecord);
+
+const context = { actor: { type: 'system' } } as unknown as IAuditContext;
+
+const existingCompany = new Company({
+    name: 'Acme',
+    email: 'hello@acme.com',
+    industry: 'Technology',
+    location: ['Paris'],
+    isActive: true,
+});
+
+const row = {
+    name: 'Acme',
+    email: 'hello@acme.com',
+    industry: 'Retail',
+    location: ['Berlin'],
+    description: 'Updated by import',
+    foundedYear: 1999,
+    website: 'https://acme.example.com',
+    revenue: 5000000,
+    headquarters: 'Berlin',
+};
+
+const importRows = (rows: Record<string, unknown>[], mode: 'skip' | 'upsert' | 'fail-fast') =>
+    importCompanyRows(rows, { format: 'json', mode, dryRun: false, mapping: {}, context });
+
+beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(Company, 'find').mockReturnValue({
+        setOptions: jest.fn().mockResolvedValue([existingCompany]),
+    } as unknown as ReturnType<typeof Company.find>);
+});
+
+describe('importCompanyRows', () => {
+    it('updates matching companies with the fields PATCH /companies/:id accepts', async () => {
+        updateCompanyRecordMock.mockResolvedValue(existingCompany as ICompanyDocument);
+
+        const report = await importRows([row], 'upsert');
+
+        expect(report.updated).toBe(1);
+        expect(updateCompanyRecordMock).toHaveBeenCalledWith(
+            existingCompany,
+            { description: 'Updated by import', location: ['Berlin'] },
+            context
+        );
+        expect(createCompanyRecordMock).not.toHaveBeenCalled();
+    });
+
+    it('creates new companies through the shared create path', async () => {
+        const id = new Types.ObjectId();
+        createCompanyRecordMock.mockResolvedValue({ _id: id } as ICompanyDocument);
+
+        const report = await importRows(
+            [{ ...row, name: 'Globex', email: 'hi@globex.com' }],
+            'upsert'
+        );
+
+        expect(report.created).toBe(1);
+        expect(report.rows[0].id).toBe(id);
+        expect(createCompanyRecordMock).toHaveBeenCalledWith(
+            expect.objectContaining({ name: 'Globex', industry: 'Retail' }),
+            context
+        );
+    });
+
+    it('rejects rows the shared update refuses', async () => {
+        updateCompanyRecordMock.mockRejectedValue(
+            new ApiError(409, 'Cannot deactivate company while it has active dependent records', [
+                '2 employees',
+            ])
+        );
+
+        const report = await importRows([row], 'upsert');
+
+        expect(report.rejected).toBe(1);
+        expect(report.rows[0].errors).toEqual([
+            'Cannot deactivate company while it has active dependent records',
+            '2 employees',
+        ]);
+    });
+});
@@ -0,0 +1,457 @@
+import { Error as MongooseError, Types } from 'mongoose';
+import { Company } from '../models';
+import type { ICompanyDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import { parseCsv } from '../utils/csv';
+import { IAuditContext } from './audit.service';
+import {
+    createCompanyRecord,
+    pickCompanyUpdates,
+    updateCompanyRecord,
+    validateCompanyFields,
+} from './company.service';
+
+/**
+ * Company Import Service
+ *
+ * Imports companies from CSV, a JSON array or NDJSON. Columns are mapped to
+ * company fields (by name, or through an explicit mapping) and every row is
+ * checked with the same rules as `POST /companies` before anything is saved.
+ *
+ * Rows matching an existing company by name or email are handled by the mode:
+ * - `skip`: leave the existing company unchanged
+ * - `upsert`: update the existing company with the fields `PATCH /companies/:id`
+ *   accepts (others, including name and email, are kept)
+ * - `fail-fast`: reject the row. The import stops at the first rejected row;
+ *   rows are checked before any is saved, so a rejected row saves nothing
+ *   (unless saving itself fails, which stops the remaining rows)
+ *
+ * Rows are saved with the same service functions as the single-company
+ * endpoints, so they get the same checks and side effects (dependents on
+ * deactivation, headcount, audit trail, suggestions, webhooks).
+ *
+ * With `dryRun`, rows are checked and reported as they would be imported, but
+ * nothing is saved.
+ */
+
+export const importFormatEnum = ['csv', 'json', 'ndjson'] as const;
+export const importModeEnum = ['skip', 'upsert', 'fail-fast'] as const;
+
+type ImportFormat = (typeof importFormatEnum)[number];
+type ImportMode = (typeof importModeEnum)[number];
+type ImportRowStatus = 'created' | 'updated' | 'skipped' | 'rejected';
+type ImportFieldType = 'string' | 'number' | 'boolean' | 'list';
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Separator of several locations in one CSV cell (exports write lists the same way)
+export const LIST_SEPARATOR = ';';
+
+// Fields that can be imported (those accepted by `POST /companies`) and their types
+const IMPORT_FIELDS: Record<string, ImportFieldType> = {
+    name: 'string',
+    description: 'string',
+    industry: 'string',
+    foundedYear: 'number',
+    location: 'list',
+    website: 'string',
+    email: 'string',
+    phone: 'string',
+    employees: 'number',
+    autoHeadcount: 'boolean',
+    logo: 'string',
+    headquarters: 'string',
+    revenue: 'number',
+};
+
+/**
+ * Import settings
+ */
+interface IImportOptions {
+    format: ImportFormat;
+    mode: ImportMode;
+    dryRun: boolean;
+    // Source column => company field; an empty field ignores the column
+    mapping: Record<string, string>;
+    context: IAuditContext;
+}
+
+/**
+ * Outcome of one row
+ */
+interface IImportRowResult {
+    row: number;
+    status: ImportRowStatus;
+    id?: Types.ObjectId;
+    name?: string;
+    errors?: string[];
+}
+
+/**
+ * Import report
+ */
+interface IImportReport {
+    format: ImportFormat;
+    mode: ImportMode;
+    dryRun: boolean;
+    aborted: boolean;
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    rejected: number;
+    ignoredColumns: string[];
+    rows: IImportRowResult[];
+}
+
+/**
+ * A parsed input row, or the reason it could not be parsed
+ */
+type ImportRecord = { values: Record<string, unknown> } | { error: string };
+
+/**
+ * A row checked and ready to be saved
+ */
+interface IPlannedRow {
+    result: IImportRowResult;
+    data: Record<string, unknown>;
+    existing?: ICompanyDocument;
+    updates?: Record<string, unknown>;
+}
+
+/**
+ * Compare column and field names ignoring case, spaces and punctuation
+ */
+const normalizeColumn = (column: string): string => column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Split the request body into records
+ */
+const parseRecords = (body: unknown, format: ImportFormat): ImportRecord[] => {
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+        Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+    if (format === 'csv') {
+        if (typeof body !== 'string') throw ApiError.badRequest('Expected a CSV body');
+        const [header, ...rows] = parseCsv(body);
+        if (!header) return [];
+
+        return rows.map(row => ({
+            values: Object.fromEntries(header.map((column, index) => [column, row[index]])),
+        }));
+    }
+
+    if (format === 'ndjson') {
+        if (typeof body !== 'string') throw ApiError.badRequest('Expected an NDJSON body');
+        return body
+            .split(/\r?\n/)
+            .filter(line => line.trim())
+            .map(line => {
+                try {
+                    const values = JSON.parse(line);
+                    return isObject(values) ? { values } : { error: 'Row must be a JSON object' };
+                } catch {
+                    return { error: 'Invalid JSON' };
+                }
+            });
+    }
+
+    let records = body;
+    if (typeof body === 'string') {
+        try {
+            records = JSON.parse(body);
+        } catch {
+            throw ApiError.badRequest('Invalid JSON body');
+        }
+    }
+    if (!Array.isArray(records)) {
+        throw ApiError.badRequest('Expected a JSON array of companies');
+    }
+    return records.map(values =>
+        isObject(values) ? { values } : { error: 'Row must be a JSON object' }
+    );
+};
+
+/**
+ * Map source columns to company fields
+ */
+const resolveColumns = (columns: string[], mapping: Record<string, string>) => {
+    const fieldsByName = new Map(
+        Object.keys(IMPORT_FIELDS).map(field => [normalizeColumn(field), field])
+    );
+    const targets = new Map<string, string>();
+    const ignoredColumns: string[] = [];
+
+    const isField = (field: string) => Object.prototype.hasOwnProperty.call(IMPORT_FIELDS, field);
+    const invalid = Object.values(mapping).filter(field => field && !isField(field));
+    if (invalid.length > 0) {
+        throw ApiError.badRequest(
+            `Invalid mapping target: ${invalid.join(', ')}. Allowed fields are: ${Object.keys(IMPORT_FIELDS).join(', ')}`
+        );
+    }
+
+    columns.forEach(column => {
+        const field = Object.prototype.hasOwnProperty.call(mapping, column)
+            ? mapping[column]
+            : fieldsByName.get(normalizeColumn(column));
+        if (!field) {
+            ignoredColumns.push(column);
+            return;
+        }
+        const duplicate = [...targets].find(([, target]) => target === field);
+        if (duplicate) {
+            throw ApiError.badRequest(
+                `Columns "${duplicate[0]}" and "${column}" both map to ${field}`
+            );
+        }
+        targets.set(column, field);
+    });
+
+    return { targets, ignoredColumns };
+};
+
+/**
+ * Convert a raw value to the type of a field. Empty values are left out.
+ */
+const convertValue = (field: string, value: unknown): { value?: unknown; error?: string } => {
+    if (value === undefined || value === null) return {};
+    if (typeof value === 'string' && !value.trim()) return {};
+
+    switch (IMPORT_FIELDS[field]) {
+        case 'number': {
+            const number = typeof value === 'string' ? Number(value.trim()) : value;
+            return typeof number === 'number' && Number.isFinite(number)
+                ? { value: number }
+                : { error: `${field} must be a number` };
+        }
+        case 'boolean': {
+            const text = String(value).trim().toLowerCase();
+            if (['true', 'yes', '1'].includes(text)) return { value: true };
+            if (['false', 'no', '0'].includes(text)) return { value: false };
+            return { error: `${field} must be true or false` };
+        }
+        case 'list': {
+            const items =
+                typeof value === 'string'
+                    ? value.split(LIST_SEPARATOR)
+                    : Array.isArray(value)
+                      ? value
+                      : null;
+            if (!items || items.some(item => typeof item !== 'string')) {
+                return { error: `${field} must be a list of text values` };
+            }
+            return { value: items.map(item => item.trim()).filter(Boolean) };
+        }
+        default:
+            if (typeof value === 'string') return { value: value.trim() };
+            if (typeof value === 'number') return { value: String(value) };
+            return { error: `${field} must be text` };
+    }
+};
+
+/**
+ * Map and check one record
+ */
+const prepareRow = (record: ImportRecord, targets: Map<string, string>) => {
+    if ('error' in record) return { data: {}, errors: [record.error] };
+
+    const data: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    targets.forEach((field, column) => {
+        const { value, error } = convertValue(field, record.values[column]);
+        if (error) errors.push(error);
+        else if (value !== undefined) data[field] = value;
+    });
+
+    errors.push(...validateCompanyFields(data));
+    if (errors.length > 0) return { data, errors };
+
+    // Schema rules: formats, enums and lengths
+    const validationError = new Company(data).validateSync();
+    if (validationError) {
+        errors.push(...Object.values(validationError.errors).map(error => error.message));
+    }
+
+    return { data, errors };
+};
+
+/**
+ * Describe why checking or saving a row failed
+ */
+const describeRowError = (error: unknown): string[] => {
+    if (error instanceof ApiError) {
+        return [error.message, ...(error.errors ?? [])];
+    }
+    if (error instanceof MongooseError.ValidationError) {
+        return Object.values(error.errors).map(item => item.message);
+    }
+    if ((error as { code?: number }).code === 11000) {
+        return ['A company with this name or email already exists'];
+    }
+
+    console.error('Failed to import company row:', error);
+    return ['Failed to save the company'];
+};
+
+/**
+ * Save one planned row with the same service functions as `POST /companies`
+ * and `PATCH /companies/:id`
+ */
+const saveRow = async (
+    { result, data, existing, updates }: IPlannedRow,
+    context: IAuditContext
+) => {
+    if (existing) {
+        await updateCompanyRecord(existing, updates ?? {}, context);
+        return;
+    }
+
+    const company = await createCompanyRecord(data, context);
+    result.id = company._id;
+};
+
+/**
+ * Check and import company rows, returning a per-row report
+ */
+const importCompanyRows = async (
+    body: unknown,
+    options: IImportOptions
+): Promise<IImportReport> => {
+    const { format, mode, dryRun, mapping, context } = options;
+    const records = parseRecords(body, format);
+
+    if (records.length === 0) {
+        throw ApiError.badRequest('No rows to import');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+        throw ApiError.badRequest(`Cannot import more than ${MAX_IMPORT_ROWS} rows at once`);
+    }
+
+    const columns = [
+        ...new Set(
+            records.flatMap(record => ('values' in record ? Object.keys(record.values) : []))
+        ),
+    ];
+    const { targets, ignoredColumns } = resolveColumns(columns, mapping);
+    const prepared = records.map(record => prepareRow(record, targets));
+
+    // Existing companies (including those in the trash) with the same name or email
+    const names = prepared.map(({ data }) => data.name).filter(Boolean);
+    const emails = prepared
+        .map(({ data }) => String(data.email ?? '').toLowerCase())
+        .filter(Boolean);
+    const existing = await Company.find({
+        $or: [{ name: { $in: names } }, { email: { $in: emails } }],
+    }).setOptions({ withDeleted: true });
+
+    const rows: IImportRowResult[] = [];
+    const planned: IPlannedRow[] = [];
+    const seen = new Map<string, number>();
+    let abortedAt: number | null = null;
+
+    for (const [index, { data, errors }] of prepared.entries()) {
+        const result: IImportRowResult = { row: index + 1, status: 'rejected' };
+        if (typeof data.name === 'string') result.name = data.name;
+        rows.push(result);
+
+        const email = String(data.email ?? '').toLowerCase();
+        const firstRow = seen.get(`name:${data.name}`) ?? seen.get(`email:${email}`);
+        const match = existing.find(
+            company => company.name === data.name || company.email === email
+        );
+
+        if (errors.length === 0 && firstRow !== undefined) {
+            errors.push(`Same name or email as row ${firstRow}`);
+        } else if (errors.length === 0 && match?.deletedAt) {
+            errors.push(
+                'A deleted company with this name or email is in the trash. Restore it instead.'
+            );
+        } else if (errors.length === 0 && match && mode === 'fail-fast') {
+            errors.push('Company already exists');
+        }
+
+        let updates: Record<string, unknown> | undefined;
+        if (errors.length === 0 && match && mode === 'upsert') {
+            try {
+                updates = pickCompanyUpdates(data);
+            } catch (error) {
+                errors.push(...describeRowError(error));
+            }
+        }
+
+        if (errors.length > 0) {
+            result.errors = errors;
+            if (mode === 'fail-fast') {
+                abortedAt = result.row;
+                break;
+            }
+            continue;
+        }
+
+        seen.set(`name:${data.name}`, result.row);
+        seen.set(`email:${email}`, result.row);
+
+        if (match && mode === 'skip') {
+            Object.assign(result, {
+                status: 'skipped',
+                id: match._id,
+                errors: ['Company already exists'],
+            });
+            continue;
+        }
+
+        Object.assign(result, { status: match ? 'updated' : 'created', id: match?._id });
+        planned.push({ result, data, existing: match, updates });
+    }
+
+    const saved = new Set<IPlannedRow>();
+    if (!dryRun && abortedAt === null) {
+        for (const row of planned) {
+            try {
+                await saveRow(row, context);
+                saved.add(row);
+            } catch (error) {
+                Object.assign(row.result, { status: 'rejected', errors: describeRowError(error) });
+                if (mode === 'fail-fast') {
+                    abortedAt = row.result.row;
+                    break;
+                }
+            }
+        }
+    }
+
+    if (abortedAt !== null) {
+        planned
+            .filter(row => !saved.has(row) && row.result.status !== 'rejected')
+            .forEach(({ result }) => {
+                result.status = 'skipped';
+                result.errors = [`Not imported: the import stopped at row ${abortedAt}`];
+            });
+    }
+
+    const count = (status: ImportRowStatus) => rows.filter(row => row.status === status).length;
+
+    return {
+        format,
+        mode,
+        dryRun,
+        aborted: abortedAt !== null,
+        total: records.length,
+        created: count('created'),
+        updated: count('updated'),
+        skipped: count('skipped'),
+        rejected: count('rejected'),
+        ignoredColumns,
+        rows,
+    };
+};
+
+export {
+    ImportFormat,
+    ImportMode,
+    IImportOptions,
+    IImportReport,
+    IImportRowResult,
+    importCompanyRows,
+};
@@ -0,0 +1,506 @@
+import { Types } from 'mongoose';
+import { Company, CompanyMetric } from '../models';
+import type { ICompanyMetric, IndustryType } from '../models';
+import { industryEnum } from '../models/company.model';
+import { ApiError } from '../utils/apiResponse';
+
+/**
+ * Company Metrics Service
+ *
+ * Reads the headcount and revenue history recorded by the CompanyMetric
+ * model, per company or summed per industry, either as the raw snapshots or
+ * bucketed by day, week, month, quarter or year, with growth rates between
+ * consecutive points.
+ *
+ * Snapshots are recorded whenever `employees` or `revenue` changes. Setting
+ * `COMPANY_METRICS_SNAPSHOT_HOURS` also records a snapshot of every company
+ * on that schedule, so trends have regular points between changes.
+ *
+ * Periods are computed in UTC; weeks start on Monday. A period's values are
+ * the ones at its end, carried forward from earlier snapshots, so a company
+ * that did not change during a period still counts in it.
+ */
+
+export const metricIntervalEnum = ['day', 'week', 'month', 'quarter', 'year'] as const;
+
+type MetricInterval = (typeof metricIntervalEnum)[number];
+
+// Points returned by one request, to keep responses (and the work) bounded
+export const MAX_METRIC_POINTS = 1000;
+
+// Default range: the last 12 months
+const DEFAULT_RANGE_MONTHS = 12;
+
+// Industry trends are always bucketed, monthly unless asked otherwise
+const DEFAULT_TREND_INTERVAL: MetricInterval = 'month';
+
+// Companies written per batch when recording scheduled snapshots
+const SNAPSHOT_BATCH_SIZE = 500;
+
+/**
+ * Time range of a metrics request, with an optional interval
+ */
+interface IMetricRange {
+    from: Date;
+    to: Date;
+    interval?: MetricInterval;
+}
+
+type MetricValues = Pick<ICompanyMetric, 'employees' | 'revenue'>;
+
+/**
+ * Headcount and revenue of a company at one point in time
+ */
+interface ICompanyMetricPoint {
+    at: Date;
+    employees: number | null;
+    revenue?: number | null;
+    employeesGrowth: number | null;
+    revenueGrowth?: number | null;
+    source?: ICompanyMetric['source'];
+}
+
+/**
+ * How one value changed over the whole range
+ */
+interface IMetricChange {
+    start: number | null;
+    end: number | null;
+    change: number | null;
+    growthRate: number | null;
+}
+
+/**
+ * Metric history of a company
+ */
+interface ICompanyMetricHistory {
+    companyId: string;
+    from: Date;
+    to: Date;
+    interval: MetricInterval | null;
+    points: ICompanyMetricPoint[];
+    summary: {
+        employees: IMetricChange;
+        revenue?: IMetricChange;
+    };
+}
+
+/**
+ * Totals of an industry at the end of one period
+ */
+interface IIndustryTrendPoint {
+    at: Date;
+    companies: number;
+    employees: number;
+    revenue?: number;
+    employeesGrowth: number | null;
+    revenueGrowth?: number | null;
+}
+
+/**
+ * Trend of one industry
+ */
+interface IIndustryTrend {
+    industry: IndustryType;
+    points: IIndustryTrendPoint[];
+}
+
+/**
+ * Relative change from one value to the next (0.1 = +10%), or null when it
+ * cannot be computed
+ */
+const growthRate = (previous: number | null, current: number | null): number | null => {
+    if (previous === null || current === null || previous === 0) return null;
+    return Math.round(((current - previous) / previous) * 10000) / 10000;
+};
+
+const toMetricChange = (start: number | null, end: number | null): IMetricChange => ({
+    start,
+    end,
+    change: start !== null && end !== null ? end - start : null,
+    growthRate: growthRate(start, end),
+});
+
+/**
+ * Start of the period containing a date
+ */
+const periodStart = (date: Date, interval: MetricInterval): Date => {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (interval) {
+        case 'day':
+            return new Date(Date.UTC(year, month, day));
+        case 'week':
+            // getUTCDay() is 0 on Sunday; weeks start on Monday
+            return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+        case 'month':
+            return new Date(Date.UTC(year, month, 1));
+        case 'quarter':
+            return new Date(Date.UTC(year, month - (month % 3), 1));
+        case 'year':
+            return new Date(Date.UTC(year, 0, 1));
+    }
+};
+
+/**
+ * Start of the period following the one starting at `start`
+ */
+const nextPeriod = (start: Date, interval: MetricInterval): Date => {
+    const next = new Date(start);
+    switch (interval) {
+        case 'day':
+            next.setUTCDate(next.getUTCDate() + 1);
+            break;
+        case 'week':
+            next.setUTCDate(next.getUTCDate() + 7);
+            break;
+        case 'month':
+            next.setUTCMonth(next.getUTCMonth() + 1);
+            break;
+        case 'quarter':
+            next.setUTCMonth(next.getUTCMonth() + 3);
+            break;
+        case 'year':
+            next.setUTCFullYear(next.getUTCFullYear() + 1);
+            break;
+    }
+    return next;
+};
+
+/**
+ * Start of every period overlapping a range, oldest first
+ */
+const listPeriods = ({ from, to }: IMetricRange, interval: MetricInterval): Date[] => {
+    const periods: Date[] = [];
+    for (
+        let start = periodStart(from, interval);
+        start <= to;
+        start = nextPeriod(start, interval)
+    ) {
+        if (periods.length === MAX_METRIC_POINTS) {
+            throw ApiError.badRequest(
+                `The range contains more than ${MAX_METRIC_POINTS} periods; use a longer interval or a shorter range`
+            );
+        }
+        periods.push(start);
+    }
+    return periods;
+};
+
+/**
+ * Read the `from`, `to` and `interval` parameters, checked by the route schema.
+ * The range defaults to the last 12 months up to now.
+ */
+const parseMetricRange = (
+    query: Record<string, unknown>,
+    defaultInterval?: MetricInterval
+): IMetricRange => {
+    const to = query.to !== undefined ? new Date(String(query.to)) : new Date();
+    const from = query.from !== undefined ? new Date(String(query.from)) : new Date(to);
+    if (query.from === undefined) from.setUTCMonth(from.getUTCMonth() - DEFAULT_RANGE_MONTHS);
+    if (from > to) {
+        throw ApiError.badRequest('Invalid metrics parameters', ['from must be before to']);
+    }
+
+    const interval = (query.interval as MetricInterval | undefined) ?? defaultInterval;
+    return { from, to, ...(interval !== undefined && { interval }) };
+};
+
+/**
+ * Read the `industry` parameter, a list checked by the route schema. Without
+ * it, every industry is included.
+ */
+const parseTrendIndustries = (value: unknown): IndustryType[] =>
+    Array.isArray(value) ? [...new Set(value as IndustryType[])] : [...industryEnum];
+
+/**
+ * Remove revenue figures for callers not allowed to read them
+ */
+const withoutRevenue = <T extends { revenue?: unknown; revenueGrowth?: unknown }>(point: T): T => {
+    const result = { ...point };
+    delete result.revenue;
+    delete result.revenueGrowth;
+    return result;
+};
+
+/**
+ * Headcount and revenue history of a company
+ */
+const getCompanyMetrics = async (
+    companyId: string,
+    range: IMetricRange,
+    options: { includeRevenue: boolean }
+): Promise<ICompanyMetricHistory> => {
+    if (!Types.ObjectId.isValid(companyId)) {
+        throw ApiError.badRequest('Invalid company ID');
+    }
+    const company = await Company.findById(companyId).select('_id');
+    if (!company) {
+        throw ApiError.notFound('Company not found');
+    }
+
+    const periods = range.interval ? listPeriods(range, range.interval) : [];
+    const baseline = await CompanyMetric.findOne({
+        company: company._id,
+        recordedAt: { $lt: range.from },
+    })
+        .sort({ recordedAt: -1 })
+        .lean();
+
+    const cursor = CompanyMetric.find({
+        company: company._id,
+        recordedAt: { $gte: range.from, $lte: range.to },
+    })
+        .sort({ recordedAt: 1 })
+        .lean()
+        .cursor();
+
+    const points: ICompanyMetricPoint[] = [];
+    let current: MetricValues | null = baseline;
+    let first: MetricValues | null = baseline;
+    let previous: MetricValues | null = baseline;
+
+    const addPoint = (
+        at: Date,
+        values: MetricValues | null,
+        source?: ICompanyMetricPoint['source']
+    ) => {
+        const employees = values?.employees ?? null;
+        const revenue = values?.revenue ?? null;
+        points.push({
+            at,
+            employees,
+            revenue,
+            employeesGrowth: growthRate(previous?.employees ?? null, employees),
+            revenueGrowth: growthRate(previous?.revenue ?? null, revenue),
+            ...(source && { source }),
+        });
+        previous = values;
+    };
+
+    try {
+        let period = 0;
+        for await (const snapshot of cursor) {
+            first = first ?? snapshot;
+            if (!range.interval) {
+                if (points.length === MAX_METRIC_POINTS) {
+                    throw ApiError.badRequest(
+                        `The range contains more than ${MAX_METRIC_POINTS} snapshots; use an interval or a shorter range`
+                    );
+                }
+                addPoint(snapshot.recordedAt, snapshot, snapshot.source);
+            } else {
+                // Close every period that ended before this snapshot
+                while (period < periods.length - 1 && snapshot.recordedAt >= periods[period + 1]) {
+                    addPoint(periods[period++], current);
+                }
+            }
+            current = snapshot;
+        }
+        while (period < periods.length) {
+            addPoint(periods[period++], current);
+        }
+    } finally {
+        await cursor.close().catch(() => undefined);
+    }
+
+    const employees = toMetricChange(first?.employees ?? null, current?.employees ?? null);
+    const revenue = toMetricChange(first?.revenue ?? null, current?.revenue ?? null);
+
+    return {
+        companyId: company._id.toString(),
+        from: range.from,
+        to: range.to,
+        interval: range.interval ?? null,
+        points: options.includeRevenue ? points : points.map(withoutRevenue),
+        summary: { employees, ...(options.includeRevenue && { revenue }) },
+    };
+};
+
+/**
+ * Headcount and revenue summed per industry at the end of every period.
+ * Companies in the trash are left out.
+ */
+const getIndustryTrends = async (
+    range: IMetricRange,
+    industries: IndustryType[],
+    options: { includeRevenue: boolean }
+): Promise<IIndustryTrend[]> => {
+    const periods = listPeriods(range, range.interval ?? DEFAULT_TREND_INTERVAL);
+    const deleted: Types.ObjectId[] = await Company.distinct('_id', { deletedAt: { $ne: null } });
+    const match = { industry: { $in: industries }, company: { $nin: deleted } };
+
+    // Latest values of every company, and their totals per industry
+    const latest = new Map<string, Pick<ICompanyMetric, 'industry' | 'employees' | 'revenue'>>();
+    const totals = new Map(
+        industries.map(industry => [industry, { companies: 0, employees: 0, revenue: 0 }])
+    );
+    const apply = (
+        companyId: string,
+        values: Pick<ICompanyMetric, 'industry' | 'employees' | 'revenue'>
+    ) => {
+        const before = latest.get(companyId);
+        if (before) {
+            const total = totals.get(before.industry)!;
+            total.companies -= 1;
+            total.employees -= before.employees ?? 0;
+            total.revenue -= before.revenue ?? 0;
+        }
+        const total = totals.get(values.industry)!;
+        total.companies += 1;
+        total.employees += values.employees ?? 0;
+        total.revenue += values.revenue ?? 0;
+        latest.set(companyId, values);
+    };
+
+    const baselines = await CompanyMetric.aggregate<
+        Pick<ICompanyMetric, 'industry' | 'employees' | 'revenue'> & { _id: Types.ObjectId }
+    >([
+        { $match: { ...match, recordedAt: { $lt: range.from } } },
+        { $sort: { company: 1, recordedAt: -1 } },
+        {
+            $group: {
+                _id: '$company',
+                industry: { $first: '$industry' },
+                employees: { $first: '$employees' },
+                revenue: { $first: '$revenue' },
+            },
+        },
+    ]).allowDiskUse(true);
+    baselines.forEach(baseline => apply(baseline._id.toString(), baseline));
+
+    const points = new Map<IndustryType, IIndustryTrendPoint[]>(
+        industries.map(industry => [industry, []])
+    );
+    const closePeriod = (at: Date) => {
+        for (const industry of industries) {
+            const total = totals.get(industry)!;
+            const series = points.get(industry)!;
+            const previous = series[series.length - 1];
+            series.push({
+                at,
+                companies: total.companies,
+                employees: total.employees,
+                employeesGrowth: previous ? growthRate(previous.employees, total.employees) : null,
+                ...(options.includeRevenue && {
+                    revenue: total.revenue,
+                    revenueGrowth: previous
+                        ? growthRate(previous.revenue ?? null, total.revenue)
+                        : null,
+                }),
+            });
+        }
+    };
+
+    const cursor = CompanyMetric.find({
+        ...match,
+        recordedAt: { $gte: range.from, $lte: range.to },
+    })
+        .select('company industry employees revenue recordedAt')
+        .sort({ recordedAt: 1 })
+        .lean()
+        .cursor();
+
+    try {
+        let period = 0;
+        for await (const snapshot of cursor) {
+            while (period < periods.length - 1 && snapshot.recordedAt >= periods[period + 1]) {
+                closePeriod(periods[period++]);
+            }
+            apply(snapshot.company.toString(), snapshot);
+        }
+        while (period < periods.length) {
+            closePeriod(periods[period++]);
+        }
+    } finally {
+        await cursor.close().catch(() => undefined);
+    }
+
+    return industries.map(industry => ({ industry, points: points.get(industry)! }));
+};
+
+/**
+ * Record a snapshot of every company, in batches. Returns the number recorded.
+ */
+const recordScheduledSnapshots = async (): Promise<number> => {
+    const recordedAt = new Date();
+    const cursor = Company.find()
+        .select('industry employees revenue')
+        .batchSize(SNAPSHOT_BATCH_SIZE)
+        .lean()
+        .cursor();
+
+    let recorded = 0;
+    let batch: ICompanyMetric[] = [];
+    const flush = async () => {
+        if (batch.length === 0) return;
+        await CompanyMetric.insertMany(batch);
+        recorded += batch.length;
+        batch = [];
+    };
+
+    try {
+        for await (const company of cursor) {
+            batch.push({
+                company: company._id,
+                industry: company.industry,
+                employees: company.employees ?? null,
+                revenue: company.revenue ?? null,
+                source: 'scheduled',
+                recordedAt,
+            });
+            if (batch.length === SNAPSHOT_BATCH_SIZE) await flush();
+        }
+        await flush();
+    } finally {
+        await cursor.close().catch(() => undefined);
+    }
+
+    return recorded;
+};
+
+/**
+ * Get the configured hours between scheduled snapshots, or 0 when disabled
+ */
+const getSnapshotIntervalHours = (): number => {
+    const hours = parseFloat(process.env.COMPANY_METRICS_SNAPSHOT_HOURS || '');
+    return Number.isFinite(hours) && hours > 0 ? hours : 0;
+};
+
+/**
+ * Start recording scheduled snapshots, if configured. The timer does not keep
+ * the process alive.
+ */
+const startScheduledSnapshots = (): void => {
+    const hours = getSnapshotIntervalHours();
+    if (!hours) return;
+
+    setInterval(
+        () => {
+            recordScheduledSnapshots()
+                .then(recorded => console.log(`📈 Recorded metrics of ${recorded} companies`))
+                .catch(error => console.error('Failed to record scheduled metrics:', error));
+        },
+        hours * 60 * 60 * 1000
+    ).unref();
+    console.log(`📈 Recording company metrics every ${hours} hour(s)`);
+};
+
+export {
+    MetricInterval,
+    IMetricRange,
+    ICompanyMetricPoint,
+    IMetricChange,
+    ICompanyMetricHistory,
+    IIndustryTrendPoint,
+    IIndustryTrend,
+    parseMetricRange,
+    parseTrendIndustries,
+    getCompanyMetrics,
+    getIndustryTrends,
+    recordScheduledSnapshots,
+    getSnapshotIntervalHours,
+    startScheduledSnapshots,
+};
@@ -0,0 +1,273 @@
+import { Request } from 'express';
+import { FilterQuery, PipelineStage } from 'mongoose';
+import { Company } from '../models';
+import type { ICompanyDocument } from '../models';
+import { ApiError } from '../utils/apiResponse';
+import { buildPageLink, IPage, parsePage, parsePageSize } from '../utils/pagination';
+import { escapeRegex, MAX_SEARCH_LENGTH } from '../utils/sanitize';
+import { parseFilterQuery } from '../utils/filterQuery';
+import { COMPANY_FILTER_FIELDS } from './company.service';
+
+/**
+ * Company Search Service
+ *
+ * Relevance-ranked full-text search over the company text index (`name` and
+ * `description`). The search text supports MongoDB's text search syntax:
+ * words, `"exact phrases"` and `-excluded` words.
+ *
+ * Results are ordered by the text score, boosted when the company name equals
+ * or starts with the searched words, and carry highlighted snippets showing
+ * where the company matched. Highlights match words by prefix, so stemmed
+ * matches such as "consult" for "consulting" are marked as well.
+ */
+
+// Added to the text score when the name equals or starts with the searched words
+const EXACT_NAME_BOOST = 10;
+const NAME_PREFIX_BOOST = 5;
+
+// Characters of description shown around the first match
+const SNIPPET_LENGTH = 200;
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Parsed search text
+ */
+interface ISearchText {
+    // Original search text, passed to `$text`
+    query: string;
+    terms: string[];
+    phrases: string[];
+    excluded: string[];
+}
+
+/**
+ * Highlighted text of the fields that matched, with matches wrapped in `<mark>`
+ */
+interface ISearchHighlights {
+    name?: string;
+    description?: string;
+}
+
+/**
+ * Company returned by a relevance-ranked search
+ */
+type RankedCompany = Record<string, unknown> & {
+    score: number;
+    highlights: ISearchHighlights;
+};
+
+/**
+ * Parse and validate the `q` search text
+ */
+const parseSearchText = (value: unknown): ISearchText => {
+    const query = typeof value === 'string' ? value.trim() : '';
+
+    if (!query) {
+        throw ApiError.badRequest('q is required');
+    }
+    if (query.length > MAX_SEARCH_LENGTH) {
+        throw ApiError.badRequest(`q cannot exceed ${MAX_SEARCH_LENGTH} characters`);
+    }
+
+    const phrases = [...query.matchAll(/"([^"]+)"/g)].map(match => match[1].trim()).filter(Boolean);
+    const words = query
+        .replace(/"[^"]*"?/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+    const excluded = words.filter(word => word.startsWith('-')).map(word => word.slice(1));
+    const terms = words.filter(word => !word.startsWith('-'));
+
+    if (terms.length === 0 && phrases.length === 0) {
+        throw ApiError.badRequest('q must contain at least one word or phrase to search for');
+    }
+
+    return { query, terms, phrases, excluded: excluded.filter(Boolean) };
+};
+
+/**
+ * Escape text for use in HTML
+ */
+const escapeHtml = (text: string): string =>
+    text.replace(
+        /[&<>"']/g,
+        char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!
+    );
+
+/**
+ * Build the regex matching the searched phrases and words (by prefix) in a text
+ */
+const buildHighlightPattern = (search: ISearchText): RegExp => {
+    const parts = [
+        ...search.phrases.map(phrase => escapeRegex(phrase)),
+        ...search.terms.map(term => `\\b${escapeRegex(term)}\\w*`),
+    ].sort((a, b) => b.length - a.length);
+    return new RegExp(parts.join('|'), 'gi');
+};
+
+/**
+ * Wrap every match in `<mark>`, escaping the text around it
+ */
+const markMatches = (text: string, pattern: RegExp): string => {
+    let result = '';
+    let last = 0;
+
+    for (const match of text.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        result += `${escapeHtml(text.slice(last, index))}<mark>${escapeHtml(match[0])}</mark>`;
+        last = index + match[0].length;
+    }
+
+    return result + escapeHtml(text.slice(last));
+};
+
+/**
+ * Highlight the matches in a company's name and description.
+ * Long descriptions are cut to a snippet around the first match.
+ */
+const highlightCompany = (
+    company: { name?: string; description?: string },
+    search: ISearchText
+): ISearchHighlights => {
+    const pattern = buildHighlightPattern(search);
+    const highlights: ISearchHighlights = {};
+
+    if (company.name && company.name.search(pattern) !== -1) {
+        highlights.name = markMatches(company.name, pattern);
+    }
+
+    const description = company.description ?? '';
+    const first = description.search(pattern);
+    if (first !== -1) {
+        let start = Math.max(0, first - SNIPPET_CONTEXT);
+        // Start the snippet at a word boundary
+        if (start > 0) start = description.indexOf(' ', start) + 1 || start;
+        const end = Math.min(description.length, start + SNIPPET_LENGTH);
+
+        highlights.description = [
+            start > 0 ? '…' : '',
+            markMatches(description.slice(start, end), pattern),
+            end < description.length ? '…' : '',
+        ].join('');
+    }
+
+    return highlights;
+};
+
+/**
+ * Combine the search text with other filters
+ */
+const buildTextFilter = (
+    search: ISearchText,
+    filter: FilterQuery<ICompanyDocument>
+): FilterQuery<ICompanyDocument> => ({ $text: { $search: search.query }, ...filter });
+
+/**
+ * Build the company filter of endpoints that take the search filters without
+ * ranking results (exports, analytics): the filter parameters, and `q` as a
+ * full-text condition. Other parameters of the endpoint must be reserved.
+ */
+const parseCompanyFilter = (
+    query: Request['query'],
+    reserved: readonly string[]
+): FilterQuery<ICompanyDocument> => {
+    const search = query.q !== undefined ? parseSearchText(query.q) : null;
+    const filter = parseFilterQuery(query, COMPANY_FILTER_FIELDS, { reserved: [...reserved, 'q'] });
+    return search ? buildTextFilter(search, filter) : filter;
+};
+
+/**
+ * Run a relevance-ranked search for one page of companies.
+ * Only offset pagination is supported, as cursors cannot resume a score order.
+ */
+const searchCompaniesByRelevance = async (
+    req: Request,
+    search: ISearchText,
+    filter: FilterQuery<ICompanyDocument>,
+    select: string
+): Promise<IPage<RankedCompany>> => {
+    if (req.query.sort !== undefined || req.query.cursor !== undefined) {
+        throw ApiError.badRequest(
+            'Search results are ordered by relevance; sort and cursor cannot be combined with q'
+        );
+    }
+
+    const page = parsePage(req.query);
+    const pageSize = parsePageSize(req.query);
+    const nameQuery = [...search.phrases, ...search.terms].join(' ').toLowerCase();
+    const lowerName = { $toLower: '$name' };
+
+    const pipeline: PipelineStage[] = [
+        { $match: buildTextFilter(search, filter) },
+        {
+            $addFields: {
+                score: {
+                    $add: [
+                        { $meta: 'textScore' },
+                        { $cond: [{ $eq: [lowerName, nameQuery] }, EXACT_NAME_BOOST, 0] },
+                        {
+                            $cond: [
+                                { $eq: [{ $indexOfCP: [lowerName, nameQuery] }, 0] },
+                                NAME_PREFIX_BOOST,
+                                0,
+                            ],
+                        },
+                    ],
+                },
+            },
+        },
+        {
+            $facet: {
+                items: [
+                    { $sort: { score: -1, _id: 1 } },
+                    { $skip: (page - 1) * pageSize },
+                    { $limit: pageSize },
+                    {
+                        $project: {
+                            score: 1,
+                            ...Object.fromEntries(select.split(' ').map(field => [field, 1])),
+                        },
+                    },
+                ],
+                total: [{ $count: 'count' }],
+            },
+        },
+    ];
+
+    const [result] = await Company.aggregate(pipeline);
+    const total: number = result.total[0]?.count ?? 0;
+    const totalPages = Math.ceil(total / pageSize);
+
+    const items = result.items.map(
+        (document: { score: number; name?: string; description?: string }): RankedCompany => ({
+            ...Company.hydrate(document).toJSON(),
+            score: document.score,
+            highlights: highlightCompany(document, search),
+        })
+    );
+    const linkTo = (target: number) => buildPageLink(req, { limit: null, page: target, pageSize });
+
+    return {
+        items,
+        total,
+        page,
+        pageSize,
+        totalPages,
+        sort: 'relevance',
+        links: {
+            self: linkTo(page),
+            next: page < totalPages ? linkTo(page + 1) : null,
+            prev: page > 1 ? linkTo(Math.min(page - 1, Math.max(totalPages, 1))) : null,
+        },
+    };
+};
+
+export {
+    ISearchText,
+    ISearchHighlights,
+    RankedCompany,
+    parseSearchText,
+    buildTextFilter,
+    parseCompanyFilter,
+    highlightCompany,
+    searchCompaniesByRelevance,
+};
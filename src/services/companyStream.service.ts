@@ -0,0 +1,311 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import mongoose, { mongo } from 'mongoose';
+import { Company } from '../models';
+import type { IndustryType } from '../models';
+import { sensitiveCompanyFields } from '../models/company.model';
+import type { ICompanyEvent } from './companyEvents.service';
+
+/**
+ * Company Stream Service
+ *
+ * Feeds `GET /companies/stream`, a Server-Sent Events feed of company
+ * changes. When MongoDB runs as a replica set (a single node is enough), the
+ * feed reads a change stream on the companies collection, so it sees changes
+ * made by every API instance. Otherwise it falls back to the events this
+ * process publishes.
+ *
+ * The latest events are kept in memory so clients can resume from their
+ * `Last-Event-ID` after reconnecting. When that event is no longer known, the
+ * client receives a `reset` event and should reload the companies it shows.
+ */
+
+// Events kept in memory for clients resuming a dropped connection
+const STREAM_HISTORY_SIZE = 1000;
+
+// Comment lines sent while idle, so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Reconnection delay suggested to clients
+const CLIENT_RETRY_MS = 5 * 1000;
+
+// Wait before reopening a failed change stream
+const CHANGE_STREAM_RESTART_MS = 5 * 1000;
+
+// Change stream errors meaning the resume token cannot be used any more
+const LOST_RESUME_TOKEN_CODES = [260, 280, 286];
+
+// Bookkeeping fields that never count as a change
+const IGNORED_FIELDS = new Set(['_id', '__v', 'updatedAt']);
+
+type StreamSource = 'changeStream' | 'bus';
+
+type StreamEventType =
+    | 'company.created'
+    | 'company.updated'
+    | 'company.deleted'
+    | 'company.restored'
+    | 'company.purged';
+
+/**
+ * One event of the feed. `company` is the company after the change, or null
+ * once it has been purged.
+ */
+interface IStreamEvent {
+    id: string;
+    type: StreamEventType;
+    companyId: string;
+    industry: string | null;
+    at: string;
+    changedFields?: string[];
+    company: Record<string, unknown> | null;
+}
+
+/**
+ * Events a client asked for. Empty lists match everything.
+ */
+interface IStreamFilter {
+    industries: IndustryType[];
+    companyIds: string[];
+}
+
+interface IStreamOptions {
+    filter: IStreamFilter;
+    lastEventId?: string;
+    includeSensitive: boolean;
+}
+
+type CompanyChange = mongo.ChangeStreamDocument<Record<string, unknown>>;
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+const history: IStreamEvent[] = [];
+let source: StreamSource = 'bus';
+let resumeToken: mongo.ResumeToken | null = null;
+
+// Event IDs of the in-process feed are only meaningful within one run
+const bootId = Date.now().toString(36);
+let sequence = 0;
+
+/**
+ * Keep an event for resuming clients and send it to connected ones
+ */
+const recordStreamEvent = (event: IStreamEvent): void => {
+    history.push(event);
+    if (history.length > STREAM_HISTORY_SIZE) history.shift();
+    events.emit('event', event);
+};
+
+/**
+ * Top-level fields named by a list of changed paths, without bookkeeping fields
+ */
+const toChangedFields = (paths: string[]): string[] => [
+    ...new Set(paths.map(path => path.split('.')[0]).filter(field => !IGNORED_FIELDS.has(field))),
+];
+
+/**
+ * Turn a change stream document into a feed event, or null when it is not one
+ */
+const fromChange = (change: CompanyChange): IStreamEvent | null => {
+    const build = (
+        type: StreamEventType,
+        companyId: unknown,
+        company: Record<string, unknown> | null | undefined,
+        changedFields?: string[]
+    ): IStreamEvent => ({
+        id: (change._id as { _data: string })._data,
+        type,
+        companyId: String(companyId),
+        industry: typeof company?.industry === 'string' ? company.industry : null,
+        at: new Date().toISOString(),
+        ...(changedFields && { changedFields }),
+        company: company ? JSON.parse(JSON.stringify(company)) : null,
+    });
+
+    switch (change.operationType) {
+        case 'insert':
+            return build('company.created', change.documentKey._id, change.fullDocument);
+        case 'replace':
+            return build('company.updated', change.documentKey._id, change.fullDocument);
+        case 'update': {
+            const { updatedFields = {}, removedFields = [] } = change.updateDescription;
+            if ('deletedAt' in updatedFields) {
+                const type = updatedFields.deletedAt ? 'company.deleted' : 'company.restored';
+                return build(type, change.documentKey._id, change.fullDocument);
+            }
+            // Changes to companies in the trash are not part of the feed
+            if (change.fullDocument?.deletedAt) return null;
+
+            const changedFields = toChangedFields([
+                ...Object.keys(updatedFields),
+                ...removedFields,
+            ]);
+            if (changedFields.length === 0) return null;
+            return build(
+                'company.updated',
+                change.documentKey._id,
+                change.fullDocument,
+                changedFields
+            );
+        }
+        case 'delete':
+            return build('company.purged', change.documentKey._id, null);
+        default:
+            return null;
+    }
+};
+
+/**
+ * Follow the companies collection. A failed stream is reopened where it
+ * stopped, or from now when that point is no longer available.
+ */
+const watchCompanies = (): void => {
+    const stream = Company.collection.watch<Record<string, unknown>, CompanyChange>(
+        [{ $match: { operationType: { $in: ['insert', 'update', 'replace', 'delete'] } } }],
+        { fullDocument: 'updateLookup', resumeAfter: resumeToken ?? undefined }
+    );
+
+    stream.on('change', change => {
+        resumeToken = change._id;
+        const event = fromChange(change);
+        if (event) recordStreamEvent(event);
+    });
+
+    stream.once('error', (error: mongo.MongoError) => {
+        console.error('⚠️ Company change stream failed, reopening:', error);
+        if (LOST_RESUME_TOKEN_CODES.includes(Number(error.code))) resumeToken = null;
+        stream.close().catch(() => undefined);
+        setTimeout(watchCompanies, CHANGE_STREAM_RESTART_MS).unref();
+    });
+};
+
+/**
+ * Change streams need a replica set (or a sharded cluster)
+ */
+const supportsChangeStreams = async (): Promise<boolean> => {
+    const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+    return Boolean(hello.setName) || hello.msg === 'isdbgrid';
+};
+
+/**
+ * Choose where the feed reads changes from. Until this is called (or when
+ * change streams are unavailable) the feed uses the in-process event bus.
+ */
+const startCompanyStream = async (): Promise<StreamSource> => {
+    if (await supportsChangeStreams()) {
+        source = 'changeStream';
+        watchCompanies();
+    }
+    return source;
+};
+
+/**
+ * Add a published company event to the feed, when the feed is not read from
+ * a change stream (which already sees the change)
+ */
+const publishToCompanyStream = (event: ICompanyEvent): void => {
+    // A deactivation is also published as an update
+    if (source !== 'bus' || event.type === 'company.deactivated') return;
+
+    const { company, changes } = event.data;
+    recordStreamEvent({
+        id: `${bootId}-${++sequence}`,
+        type: event.type,
+        companyId: String(company._id),
+        industry: typeof company.industry === 'string' ? company.industry : null,
+        at: event.createdAt,
+        ...(changes && { changedFields: toChangedFields(changes.map(change => change.field)) }),
+        company: event.type === 'company.purged' ? null : company,
+    });
+};
+
+/**
+ * Read the `industry` and `companyId` parameters, lists checked by the route schema
+ */
+const parseStreamFilter = (query: Request['query']): IStreamFilter => {
+    const toList = (value: unknown): string[] =>
+        Array.isArray(value) ? [...new Set(value.map(String))] : [];
+
+    return {
+        industries: toList(query.industry) as IndustryType[],
+        companyIds: toList(query.companyId),
+    };
+};
+
+/**
+ * Whether an event is for a client following these companies. The industry of
+ * a purged company is gone with its document, so purges pass any industry.
+ */
+const matchesFilter = (event: IStreamEvent, { industries, companyIds }: IStreamFilter) =>
+    (industries.length === 0 ||
+        event.type === 'company.purged' ||
+        industries.includes(event.industry as IndustryType)) &&
+    (companyIds.length === 0 || companyIds.includes(event.companyId));
+
+/**
+ * Format an event as a Server-Sent Events message
+ */
+const formatEvent = (event: IStreamEvent, includeSensitive: boolean): string => {
+    let { company } = event;
+    if (company && !includeSensitive) {
+        company = { ...company };
+        for (const field of sensitiveCompanyFields) delete company[field];
+    }
+    return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event, company })}\n\n`;
+};
+
+/**
+ * Send matching events to the response until the client disconnects, after
+ * the events it missed since `lastEventId`
+ */
+const streamCompanyChanges = (req: Request, res: Response, options: IStreamOptions): void => {
+    const { filter, lastEventId, includeSensitive } = options;
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        // no-transform keeps the compression middleware from buffering events
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    const send = (event: IStreamEvent) => {
+        if (matchesFilter(event, filter)) res.write(formatEvent(event, includeSensitive));
+    };
+
+    if (lastEventId) {
+        const index = history.findIndex(event => event.id === lastEventId);
+        if (index === -1) {
+            // Point the client at the latest event, so its next reconnect can resume
+            const latestId = history.length > 0 ? history[history.length - 1].id : '';
+            res.write(
+                `id: ${latestId}\nevent: reset\ndata: {"reason":"Unknown Last-Event-ID"}\n\n`
+            );
+        } else {
+            history.slice(index + 1).forEach(send);
+        }
+    }
+
+    events.on('event', send);
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        events.off('event', send);
+    });
+};
+
+export {
+    StreamSource,
+    StreamEventType,
+    IStreamEvent,
+    IStreamFilter,
+    IStreamOptions,
+    startCompanyStream,
+    publishToCompanyStream,
+    parseStreamFilter,
+    streamCompanyChanges,
+};
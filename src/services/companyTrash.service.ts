@@ -0,0 +1,62 @@
+import { Company } from '../models';
+import type { ICompanyDocument } from '../models';
+import { purgeCompanyDependents } from './companyDependents.service';
+import { IAuditContext, recordAudit, snapshotDocument } from './audit.service';
+import { publishCompanyEvent } from './companyEvents.service';
+
+/**
+ * Company Trash Service
+ *
+ * Deleted companies stay in the trash for `COMPANY_TRASH_RETENTION_DAYS`
+ * (30 by default) and can be restored during that time. Afterwards an admin
+ * can purge them, which removes the company and its dependents for good.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Get the configured trash retention period in days
+ */
+const getTrashRetentionDays = (): number => {
+    const days = parseInt(process.env.COMPANY_TRASH_RETENTION_DAYS || '', 10);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+/**
+ * Date from which a deleted company can be purged
+ */
+const getPurgeableAt = (company: ICompanyDocument): Date | null => {
+    if (!company.deletedAt) return null;
+    return new Date(company.deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Permanently delete every company whose retention period has passed
+ */
+const purgeExpiredCompanies = async (context: IAuditContext) => {
+    const retentionDays = getTrashRetentionDays();
+    const companies = await Company.findPurgeable(retentionDays);
+
+    for (const company of companies) {
+        const before = snapshotDocument(company);
+        await company.deleteOne();
+        await purgeCompanyDependents(company._id);
+        await recordAudit({
+            context,
+            entityType: 'Company',
+            entityId: company._id,
+            company: company._id,
+            action: 'purge',
+            before,
+        });
+        await publishCompanyEvent('company.purged', context, { before });
+    }
+
+    return {
+        retentionDays,
+        purged: companies.length,
+        companyIds: companies.map(company => company._id),
+    };
+};
+
+export { getTrashRetentionDays, getPurgeableAt, purgeExpiredCompanies };
@@ -0,0 +1,397 @@
+import { mongo, Types } from 'mongoose';
+import { Company, Suggestion } from '../models';
+import type { ICompany, ISuggestion, ISuggestionDocument, SuggestionKind } from '../models';
+import { suggestionKindEnum } from '../models/suggestion.model';
+import { ApiError } from '../utils/apiResponse';
+import { escapeRegex, MAX_SEARCH_LENGTH } from '../utils/sanitize';
+
+/**
+ * Suggestion Service
+ *
+ * Serves typed autocomplete suggestions from the suggestion index and keeps
+ * that index in sync with the companies.
+ *
+ * Matches are ranked by match type first (the value starts with the query,
+ * then a later word does, then a match with typos), then by popularity. Typos
+ * are tolerated by comparing the query with the start of every word using the
+ * Damerau-Levenshtein distance; candidates for that comparison are found
+ * through shared trigrams.
+ *
+ * Index updates never fail the request that changed a company: the index can
+ * be rebuilt at any time, so a failed update is logged instead.
+ */
+
+export const DEFAULT_SUGGESTION_LIMIT = 5;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+// Candidates examined per kind when looking for matches with typos
+const MAX_FUZZY_CANDIDATES = 200;
+
+// Companies written per batch when rebuilding the index
+const REBUILD_BATCH_SIZE = 500;
+
+type SuggestionMatch = 'prefix' | 'word' | 'fuzzy';
+
+/**
+ * A ranked suggestion
+ */
+interface ISuggestionResult {
+    value: string;
+    count: number;
+    match: SuggestionMatch;
+    companyId?: Types.ObjectId;
+}
+
+type SuggestionGroups = Record<SuggestionKind, ISuggestionResult[]>;
+
+/**
+ * Lowercase text, strip accents and collapse whitespace
+ */
+const normalizeText = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Split normalized text into words
+ */
+const splitWords = (normalized: string): string[] =>
+    normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Trigrams of every word, padded so that word starts weigh in
+ */
+const buildTrigrams = (words: string[]): string[] => {
+    const trigrams = new Set<string>();
+    words.forEach(word => {
+        const padded = `  ${word}`;
+        for (let i = 0; i + 3 <= padded.length; i++) trigrams.add(padded.slice(i, i + 3));
+    });
+    return [...trigrams];
+};
+
+/**
+ * Number of typos tolerated for a query of this length
+ */
+const getMaxTypos = (length: number): number => {
+    if (length < 4) return 0;
+    return length < 8 ? 1 : 2;
+};
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance between two strings
+ */
+const editDistance = (a: string, b: string): number => {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(
+                rows[i - 1][j] + 1,
+                rows[i][j - 1] + 1,
+                rows[i - 1][j - 1] + cost
+            );
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return rows[a.length][b.length];
+};
+
+/**
+ * Smallest distance between the query and the start of the value or any of its words.
+ * Starts one character shorter or longer than the query are compared too, so a
+ * missing or extra letter counts as one typo.
+ */
+const prefixDistance = (query: string, suggestion: ISuggestion): number => {
+    const candidates = [suggestion.normalized, ...suggestion.words];
+    let best = Infinity;
+
+    candidates.forEach(text => {
+        for (let length = query.length - 1; length <= query.length + 1; length++) {
+            if (length < 1 || length > text.length) continue;
+            best = Math.min(best, editDistance(query, text.slice(0, length)));
+        }
+    });
+
+    return best;
+};
+
+/**
+ * Build the stored fields of a suggestion
+ */
+const buildSuggestion = (
+    kind: SuggestionKind,
+    key: string,
+    value: string,
+    count: number,
+    syncedAt: Date,
+    company: Types.ObjectId | null = null
+): ISuggestion => {
+    const normalized = normalizeText(value);
+    const words = splitWords(normalized);
+    return {
+        kind,
+        key,
+        value,
+        normalized,
+        words,
+        trigrams: buildTrigrams(words),
+        count,
+        company,
+        syncedAt,
+    };
+};
+
+/**
+ * Build the upsert of a suggestion
+ */
+const toUpsert = (suggestion: ISuggestion): mongo.AnyBulkWriteOperation<ISuggestion> => ({
+    updateOne: {
+        filter: { kind: suggestion.kind, key: suggestion.key },
+        update: { $set: suggestion },
+        upsert: true,
+    },
+});
+
+/**
+ * Find the best suggestions of one kind
+ */
+const findSuggestionsOfKind = async (
+    kind: SuggestionKind,
+    query: string,
+    limit: number
+): Promise<ISuggestionResult[]> => {
+    const prefix = new RegExp(`^${escapeRegex(query)}`);
+    const toResult = (suggestion: ISuggestionDocument, match: SuggestionMatch) => ({
+        value: suggestion.value,
+        count: suggestion.count,
+        match,
+        ...(suggestion.company && { companyId: suggestion.company }),
+    });
+
+    const [valueMatches, wordMatches] = await Promise.all([
+        Suggestion.find({ kind, normalized: prefix }).sort({ count: -1, value: 1 }).limit(limit),
+        Suggestion.find({ kind, words: prefix, normalized: { $not: prefix } })
+            .sort({ count: -1, value: 1 })
+            .limit(limit),
+    ]);
+    const results = [
+        ...valueMatches.map(suggestion => toResult(suggestion, 'prefix')),
+        ...wordMatches.map(suggestion => toResult(suggestion, 'word')),
+    ];
+
+    const maxTypos = getMaxTypos(query.length);
+    if (results.length >= limit || maxTypos === 0) return results.slice(0, limit);
+
+    // Fill up with matches that contain typos, closest first
+    const found = [...valueMatches, ...wordMatches].map(suggestion => suggestion._id);
+    const candidates = await Suggestion.find({
+        kind,
+        _id: { $nin: found },
+        trigrams: { $in: buildTrigrams(splitWords(query)) },
+    })
+        .sort({ count: -1 })
+        .limit(MAX_FUZZY_CANDIDATES);
+
+    const fuzzyMatches = candidates
+        .map(suggestion => ({ suggestion, distance: prefixDistance(query, suggestion) }))
+        .filter(({ distance }) => distance <= maxTypos)
+        .sort(
+            (a, b) =>
+                a.distance - b.distance ||
+                b.suggestion.count - a.suggestion.count ||
+                a.suggestion.value.localeCompare(b.suggestion.value)
+        )
+        .map(({ suggestion }) => toResult(suggestion, 'fuzzy'));
+
+    return [...results, ...fuzzyMatches].slice(0, limit);
+};
+
+/**
+ * Find suggestions for a query, grouped by kind
+ */
+const findSuggestions = async (q: unknown, limit: number): Promise<SuggestionGroups> => {
+    const query = typeof q === 'string' ? normalizeText(q) : '';
+
+    if (!query) {
+        throw ApiError.badRequest('q is required');
+    }
+    if (query.length > MAX_SEARCH_LENGTH) {
+        throw ApiError.badRequest(`q cannot exceed ${MAX_SEARCH_LENGTH} characters`);
+    }
+
+    const groups = await Promise.all(
+        suggestionKindEnum.map(kind => findSuggestionsOfKind(kind, query, limit))
+    );
+    return Object.fromEntries(
+        suggestionKindEnum.map((kind, index) => [kind, groups[index]])
+    ) as SuggestionGroups;
+};
+
+/**
+ * Recount the companies with an industry or location and update its suggestion
+ */
+const refreshValueSuggestion = async (
+    kind: 'industry' | 'location',
+    value: string,
+    syncedAt: Date
+): Promise<void> => {
+    const key = normalizeText(value);
+    // Like the rebuild, count values that only differ in case or accents together
+    const count = await Company.countDocuments({ [kind]: value }).collation({
+        locale: 'en',
+        strength: 1,
+    });
+
+    if (count === 0) {
+        await Suggestion.deleteOne({ kind, key });
+    } else {
+        await Suggestion.bulkWrite([toUpsert(buildSuggestion(kind, key, value, count, syncedAt))]);
+    }
+};
+
+/**
+ * Update the suggestions of a company after it was created, changed, deleted
+ * or restored. `previous` holds the industry and location before the change,
+ * so suggestions that no company uses anymore are removed.
+ */
+const syncCompanySuggestions = async (
+    companyId: Types.ObjectId,
+    previous: Pick<ICompany, 'industry' | 'location'> | null = null
+): Promise<void> => {
+    try {
+        const syncedAt = new Date();
+        const company = await Company.findById(companyId).select(
+            'name industry location employees'
+        );
+
+        if (company) {
+            const suggestion = buildSuggestion(
+                'company',
+                company._id.toString(),
+                company.name,
+                company.employees ?? 0,
+                syncedAt,
+                company._id
+            );
+            await Suggestion.bulkWrite([toUpsert(suggestion)]);
+        } else {
+            await Suggestion.deleteOne({ kind: 'company', key: companyId.toString() });
+        }
+
+        const industries = new Set([previous?.industry, company?.industry]);
+        const locations = new Set([...(previous?.location ?? []), ...(company?.location ?? [])]);
+
+        await Promise.all([
+            ...[...industries]
+                .filter((value): value is ICompany['industry'] => Boolean(value))
+                .map(value => refreshValueSuggestion('industry', value, syncedAt)),
+            ...[...locations].map(value => refreshValueSuggestion('location', value, syncedAt)),
+        ]);
+    } catch (error) {
+        console.error('Failed to update search suggestions:', {
+            companyId: companyId.toString(),
+            error,
+        });
+    }
+};
+
+/**
+ * Rebuild the whole suggestion index from the companies
+ */
+const rebuildSuggestions = async (): Promise<number> => {
+    const syncedAt = new Date();
+    let operations: mongo.AnyBulkWriteOperation<ISuggestion>[] = [];
+    let written = 0;
+
+    const flush = async () => {
+        if (operations.length === 0) return;
+        await Suggestion.bulkWrite(operations, { ordered: false });
+        written += operations.length;
+        operations = [];
+    };
+
+    const companies = Company.find().select('name employees').lean().cursor();
+    for await (const company of companies) {
+        operations.push(
+            toUpsert(
+                buildSuggestion(
+                    'company',
+                    company._id.toString(),
+                    company.name,
+                    company.employees ?? 0,
+                    syncedAt,
+                    company._id
+                )
+            )
+        );
+        if (operations.length >= REBUILD_BATCH_SIZE) await flush();
+    }
+
+    const [industries, locations]: { _id: string; count: number }[][] = await Promise.all([
+        Company.aggregate([{ $group: { _id: '$industry', count: { $sum: 1 } } }]),
+        Company.aggregate([
+            { $unwind: '$location' },
+            { $group: { _id: '$location', count: { $sum: 1 } } },
+        ]),
+    ]);
+
+    // Values that only differ in case or accents share one suggestion
+    const addValues = (kind: 'industry' | 'location', values: { _id: string; count: number }[]) => {
+        const merged = new Map<string, { value: string; count: number }>();
+        values
+            .filter(({ _id }) => typeof _id === 'string' && _id.trim())
+            .sort((a, b) => b.count - a.count)
+            .forEach(({ _id, count }) => {
+                const key = normalizeText(_id);
+                const entry = merged.get(key);
+                if (entry) entry.count += count;
+                else merged.set(key, { value: _id, count });
+            });
+        merged.forEach(({ value, count }, key) => {
+            operations.push(toUpsert(buildSuggestion(kind, key, value, count, syncedAt)));
+        });
+    };
+    addValues('industry', industries);
+    addValues('location', locations);
+    await flush();
+
+    await Suggestion.deleteMany({ syncedAt: { $lt: syncedAt } });
+    return written;
+};
+
+/**
+ * Build the suggestion index when it is empty but companies exist,
+ * e.g. on the first start after suggestions were introduced
+ */
+const ensureSuggestionIndex = async (): Promise<void> => {
+    const [suggestions, companies] = await Promise.all([
+        Suggestion.estimatedDocumentCount(),
+        Company.estimatedDocumentCount(),
+    ]);
+    if (suggestions > 0 || companies === 0) return;
+
+    const written = await rebuildSuggestions();
+    console.log(`🔎 Built search suggestion index (${written} entries)`);
+};
+
+export {
+    ISuggestionResult,
+    SuggestionGroups,
+    SuggestionMatch,
+    normalizeText,
+    editDistance,
+    findSuggestions,
+    syncCompanySuggestions,
+    rebuildSuggestions,
+    ensureSuggestionIndex,
+};
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { Webhook, WebhookDelivery } from '../models';
+import type { IWebhookAttempt, IWebhookDeliveryDocument } from '../models';
+import type { ICompanyEvent } from './companyEvents.service';
+
+/**
+ * Webhook Service
+ *
+ * Delivers company lifecycle events to webhook subscriptions. Each event is
+ * stored as one delivery per subscribed webhook; a dispatcher then POSTs
+ * each one, signed with the subscription secret:
+ *
+ *     X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Failed attempts (network errors, timeouts, non-2xx responses) are retried
+ * with exponential backoff (`WEBHOOK_RETRY_BASE_SECONDS`, doubled after each
+ * attempt). After `WEBHOOK_MAX_ATTEMPTS` attempts the delivery is
+ * dead-lettered until it is replayed.
+ *
+ * Deliveries are claimed before they are sent, so several instances can run
+ * the dispatcher. Delivery is at least once: receivers should ignore event
+ * IDs they have already processed.
+ */
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_BASE_SECONDS = 30;
+
+// Longest wait between two attempts
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Time a receiver has to respond
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// How long a claimed delivery is reserved for the dispatcher sending it
+const CLAIM_LOCK_MS = REQUEST_TIMEOUT_MS + 20 * 1000;
+
+// How often due retries are looked for
+const DISPATCH_INTERVAL_MS = 10 * 1000;
+
+// Deliveries sent per dispatcher run, so one run cannot go on forever
+const MAX_DELIVERIES_PER_RUN = 100;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * Get the configured number of attempts before a delivery is dead-lettered
+ */
+const getWebhookMaxAttempts = (): number => {
+    const attempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '', 10);
+    return Number.isFinite(attempts) && attempts >= 1 ? attempts : DEFAULT_MAX_ATTEMPTS;
+};
+
+/**
+ * Wait before the attempt following `attempts` failed ones
+ */
+const getRetryDelayMs = (attempts: number): number => {
+    const seconds = parseFloat(process.env.WEBHOOK_RETRY_BASE_SECONDS || '');
+    const base = Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_RETRY_BASE_SECONDS;
+    return Math.min(base * 1000 * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+};
+
+/**
+ * Sign a payload body the way receivers verify it
+ */
+const signPayload = (secret: string, timestamp: number, body: string): string => {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+};
+
+let dispatching = false;
+let dispatchRequested = false;
+
+/**
+ * Send one delivery and record the attempt
+ */
+const attemptDelivery = async (delivery: IWebhookDeliveryDocument): Promise<void> => {
+    const webhook = await Webhook.findById(delivery.webhook).select('+secret');
+    const now = new Date();
+
+    // Paused subscriptions keep their deliveries until they are active again
+    if (webhook && !webhook.isActive) {
+        delivery.nextAttemptAt = new Date(now.getTime() + getRetryDelayMs(1));
+        delivery.lockedUntil = null;
+        await delivery.save();
+        return;
+    }
+
+    const attempt: IWebhookAttempt = { at: now, durationMs: 0 };
+    if (!webhook) {
+        attempt.error = 'Webhook no longer exists';
+    } else {
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(now.getTime() / 1000);
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'CompanyDataWebhooks/1.0',
+                    'X-Webhook-Event': delivery.event,
+                    'X-Webhook-Event-Id': delivery.eventId,
+                    'X-Webhook-Delivery': delivery._id.toString(),
+                    [WEBHOOK_SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+                },
+                body,
+                redirect: 'manual',
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            attempt.statusCode = response.status;
+            if (!response.ok) attempt.error = `Responded with HTTP ${response.status}`;
+            // The response body is not used
+            await response.body?.cancel().catch(() => undefined);
+        } catch (error) {
+            const cause = (error as { cause?: unknown }).cause;
+            if ((error as Error).name === 'TimeoutError') {
+                attempt.error = `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`;
+            } else {
+                attempt.error = cause instanceof Error ? cause.message : (error as Error).message;
+            }
+        }
+        attempt.durationMs = Date.now() - now.getTime();
+    }
+
+    delivery.attempts.push(attempt);
+    delivery.lockedUntil = null;
+    if (!attempt.error) {
+        delivery.status = 'succeeded';
+        delivery.deliveredAt = new Date();
+        delivery.nextAttemptAt = null;
+    } else if (!webhook || delivery.attempts.length >= getWebhookMaxAttempts()) {
+        delivery.status = 'dead';
+        delivery.deadAt = new Date();
+        delivery.nextAttemptAt = null;
+    } else {
+        delivery.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(delivery.attempts.length));
+    }
+    await delivery.save();
+};
+
+/**
+ * Send every delivery that is due. Calls made while a run is in progress
+ * start another run once it ends, so new deliveries are never missed.
+ */
+const dispatchDueDeliveries = async (): Promise<void> => {
+    if (dispatching) {
+        dispatchRequested = true;
+        return;
+    }
+
+    dispatching = true;
+    try {
+        do {
+            dispatchRequested = false;
+            for (let sent = 0; sent < MAX_DELIVERIES_PER_RUN; sent++) {
+                const delivery = await WebhookDelivery.claimNext(CLAIM_LOCK_MS);
+                if (!delivery) break;
+                await attemptDelivery(delivery);
+            }
+        } while (dispatchRequested);
+    } finally {
+        dispatching = false;
+    }
+};
+
+/**
+ * Start sending new deliveries without waiting for them
+ */
+const requestDispatch = (): void => {
+    setImmediate(() => {
+        dispatchDueDeliveries().catch(error => {
+            console.error('Failed to dispatch webhook deliveries:', error);
+        });
+    });
+};
+
+/**
+ * Queue a company event for every webhook subscribed to it
+ */
+const queueWebhookDeliveries = async (event: ICompanyEvent): Promise<void> => {
+    const webhooks = await Webhook.findSubscribers(event.type);
+    if (webhooks.length === 0) return;
+
+    await WebhookDelivery.insertMany(
+        webhooks.map(webhook => ({
+            webhook: webhook._id,
+            event: event.type,
+            eventId: event.id,
+            payload: event,
+        }))
+    );
+    requestDispatch();
+};
+
+/**
+ * Deliver the payload of a finished delivery again, as a new delivery
+ */
+const replayDelivery = async (
+    delivery: IWebhookDeliveryDocument
+): Promise<IWebhookDeliveryDocument> => {
+    const replay = await WebhookDelivery.create({
+        webhook: delivery.webhook,
+        event: delivery.event,
+        eventId: delivery.eventId,
+        payload: delivery.payload,
+        replayOf: delivery._id,
+    });
+    requestDispatch();
+    return replay;
+};
+
+/**
+ * Send due retries on a schedule. The timer does not keep the process alive.
+ */
+const startWebhookDispatcher = (): void => {
+    setInterval(requestDispatch, DISPATCH_INTERVAL_MS).unref();
+    requestDispatch();
+};
+
+export {
+    getWebhookMaxAttempts,
+    getRetryDelayMs,
+    signPayload,
+    dispatchDueDeliveries,
+    queueWebhookDeliveries,
+    replayDelivery,
+    startWebhookDispatcher,
+};
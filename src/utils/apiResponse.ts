@@ -22,6 +22,7 @@ interface IApiResponse<T = any> {
     message: string;
     data?: T;
     errors?: string[];
+    errorCode?: string;
     timestamp: string;
     path?: string;
 }
@@ -107,6 +108,7 @@ class ApiError extends Error implements IApiResponse {
     public statusCode: number;
     public message: string;
     public errors?: string[];
+    public errorCode?: string;
     public timestamp: string;
     public path?: string;
     public stack?: string;
@@ -144,11 +146,20 @@ class ApiError extends Error implements IApiResponse {
             statusCode: this.statusCode,
             message: this.message,
             errors: this.errors,
+            errorCode: this.errorCode,
             timestamp: this.timestamp,
             path: this.path,
         };
     }
 
+    /**
+     * Attach a stable, machine-readable error code
+     */
+    public withCode(errorCode: string): ApiError {
+        this.errorCode = errorCode;
+        return this;
+    }
+
     /**
      * Static method to create a bad request error (400)
      */
@@ -166,8 +177,10 @@ class ApiError extends Error implements IApiResponse {
     /**
      * Static method to create a forbidden error (403)
      */
-    static forbidden(message: string = 'Forbidden access'): ApiError {
-        return new ApiError(403, message);
+    static forbidden(message: string = 'Forbidden access', errorCode?: string): ApiError {
+        const error = new ApiError(403, message);
+        if (errorCode) error.withCode(errorCode);
+        return error;
     }
 
     /**
@@ -191,6 +204,13 @@ class ApiError extends Error implements IApiResponse {
         return new ApiError(409, message);
     }
 
+    /**
+     * Static method to create a precondition failed error (412)
+     */
+    static preconditionFailed(message: string = 'Precondition failed'): ApiError {
+        return new ApiError(412, message);
+    }
+
     /**
      * Static method to create an unprocessable entity error (422)
      */
@@ -0,0 +1,98 @@
+import { ApiError } from './apiResponse';
+
+/**
+ * CSV Utilities
+ *
+ * A small RFC 4180 parser: fields are separated by commas, and fields wrapped
+ * in double quotes may contain commas, line breaks and escaped quotes (`""`).
+ * Both LF and CRLF line endings are accepted.
+ *
+ * Written rows use CRLF line endings and quote fields only when needed.
+ */
+
+// Leading characters that make spreadsheet programs evaluate a cell as a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+// Signed numbers and phone numbers cannot call functions and are written unchanged
+const PLAIN_NUMBER = /^[+-][\d\s().-]*$/;
+
+/**
+ * Parse CSV text into rows of fields. Empty lines are skipped.
+ */
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let i = 0;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    // Ignore a byte order mark written by spreadsheet programs
+    if (text.charCodeAt(0) === 0xfeff) i = 1;
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (quoted) {
+        throw ApiError.badRequest('Invalid CSV: unterminated quoted field');
+    }
+    if (field !== '' || row.length > 0) endRow();
+
+    return rows;
+};
+
+/**
+ * Format one field. Text that a spreadsheet would read as a formula is
+ * prefixed with `'` so exported data cannot run formulas when opened.
+ */
+const formatCsvField = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (
+        typeof value === 'string' &&
+        FORMULA_PREFIXES.includes(text.charAt(0)) &&
+        !PLAIN_NUMBER.test(text)
+    ) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format a row of values as a CSV line, including the line break
+ */
+const formatCsvRow = (values: readonly unknown[]): string => {
+    return `${values.map(formatCsvField).join(',')}\r\n`;
+};
+
+export { parseCsv, formatCsvRow };
@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { ApiError } from './apiResponse';
+
+/**
+ * Entity Tag Utilities
+ *
+ * The ETag of a document is derived from its ID and version (`__v`), which
+ * changes with every save of a schema using `optimisticConcurrency`. Clients
+ * send it back:
+ * - in `If-None-Match` on reads, to get `304 Not Modified` while their copy is
+ *   still current (handled by Express through `req.fresh`);
+ * - in `If-Match` on writes, so a change made to a stale copy is refused with
+ *   `412 Precondition Failed` instead of silently overwriting another one.
+ */
+
+/**
+ * A document with a version key
+ */
+interface IVersionedDocument {
+    _id?: unknown;
+    __v?: number;
+}
+
+/**
+ * Strong ETag of the current version of a document
+ */
+const getDocumentETag = (document: IVersionedDocument): string => {
+    const hash = createHash('sha1')
+        .update(`${String(document._id)}:${document.__v ?? 0}`)
+        .digest('base64url');
+    return `"${hash}"`;
+};
+
+/**
+ * Whether an `If-Match` header value lists the ETag, using the strong
+ * comparison required for `If-Match` (weak ETags never match)
+ */
+const matchesETag = (header: string, etag: string): boolean => {
+    const tags = header.split(',').map(tag => tag.trim());
+    return tags.includes('*') || tags.includes(etag);
+};
+
+/**
+ * Fail with 412 when the request has an `If-Match` header that does not
+ * match the current ETag of the resource. Requests without it are allowed.
+ */
+const assertIfMatch = (req: Request, etag: string): void => {
+    const header = req.get('If-Match');
+    if (header && !matchesETag(header, etag)) {
+        throw ApiError.preconditionFailed(
+            'The resource was modified since it was fetched. Fetch it again and retry.'
+        );
+    }
+};
+
+export { IVersionedDocument, getDocumentETag, matchesETag, assertIfMatch };
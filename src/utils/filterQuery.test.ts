@@ -0,0 +1,74 @@
+import { ApiError } from './apiResponse';
+import { FilterFields, parseFilterQuery } from './filterQuery';
+import { MAX_SEARCH_LENGTH } from './sanitize';
+
+const fields: FilterFields = {
+    name: { type: 'string', defaultOperator: 'contains' },
+    location: { type: 'stringArray' },
+    employees: { type: 'number' },
+};
+
+const expectBadRequest = (query: Record<string, unknown>, message: string | RegExp): void => {
+    try {
+        parseFilterQuery(query, fields);
+    } catch (error) {
+        expect(error).toBeInstanceOf(ApiError);
+        expect((error as ApiError).statusCode).toBe(400);
+        expect((error as ApiError).message).toMatch(message);
+        return;
+    }
+    throw new Error('Expected a 400 ApiError');
+};
+
+describe('parseFilterQuery contains', () => {
+    it('escapes the value so it only matches literally', () => {
+        const filter = parseFilterQuery({ name: '(a+)+$' }, fields);
+
+        expect(filter).toEqual({
+            $and: [{ name: { $regex: '\\(a\\+\\)\\+\\$', $options: 'i' } }],
+        });
+
+        const { $regex } = (filter.$and as Record<string, { $regex: string }>[])[0].name;
+        expect(new RegExp($regex, 'i').test(`${'a'.repeat(40)}!`)).toBe(false);
+    });
+
+    it('escapes explicit contains on string arrays', () => {
+        expect(parseFilterQuery({ location: { contains: 'Paris.*' } }, fields)).toEqual({
+            $and: [{ location: { $regex: 'Paris\\.\\*', $options: 'i' } }],
+        });
+    });
+
+    it('rejects values longer than MAX_SEARCH_LENGTH', () => {
+        expect(() =>
+            parseFilterQuery({ name: { contains: 'a'.repeat(MAX_SEARCH_LENGTH) } }, fields)
+        ).not.toThrow();
+        expectBadRequest(
+            { name: { contains: 'a'.repeat(MAX_SEARCH_LENGTH + 1) } },
+            `name[contains] must be between 1 and ${MAX_SEARCH_LENGTH} characters`
+        );
+    });
+
+    it('rejects empty values', () => {
+        expectBadRequest({ name: '' }, 'name[contains] must be between 1 and');
+    });
+});
+
+describe('parseFilterQuery operator injection', () => {
+    it('rejects MongoDB operators given as filter operators, e.g. name[$ne]=', () => {
+        expectBadRequest({ name: { $ne: '' } }, 'Unsupported operator "$ne" for name');
+        expectBadRequest({ name: { $regex: '(a+)+$' } }, 'Unsupported operator "$regex"');
+    });
+
+    it('rejects $where and other unknown fields', () => {
+        expectBadRequest({ $where: 'sleep(1000)' }, 'Unknown filter field "$where"');
+    });
+
+    it('rejects operators nested in or groups', () => {
+        expectBadRequest({ or: [{ employees: { $gt: 0 } }] }, 'Unsupported operator "$gt"');
+        expectBadRequest({ or: [{ $where: '1' }] }, 'Unknown filter field "$where"');
+    });
+
+    it('rejects object values that are not operators', () => {
+        expectBadRequest({ name: { contains: { $ne: '' } } }, 'Invalid filter value');
+    });
+});
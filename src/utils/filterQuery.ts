@@ -0,0 +1,330 @@
+import { FilterQuery, Schema } from 'mongoose';
+import { ApiError } from './apiResponse';
+import { escapeRegex, MAX_SEARCH_LENGTH } from './sanitize';
+
+/**
+ * Filter Query Language
+ *
+ * Turns query string filters into a MongoDB filter, validating every field,
+ * operator and value against a whitelist derived from the model schema.
+ *
+ * Syntax (as parsed by Express' extended query parser):
+ * - `field=value`: the field's default operator (usually `eq`)
+ * - `field[op]=value`: an explicit operator, e.g. `employees[gte]=50`
+ * - List operators take comma-separated values: `industry[in]=Technology,Retail`,
+ *   `revenue[between]=1e6,5e6`
+ * - All conditions are combined with AND. `or[0][...]`, `or[1][...]` build
+ *   groups that are combined with OR; `and[n][...]` groups are combined with
+ *   AND. Groups can be nested up to `MAX_GROUP_DEPTH` levels.
+ *
+ * The same structure can come from a JSON body, e.g.
+ * `{ "employees": { "gte": 50 }, "industry": { "in": ["Technology", "Retail"] } }`.
+ *
+ * @example
+ * // ?employees[gte]=50&or[0][industry]=Technology&or[1][location][any]=Berlin,Paris
+ * const filter = parseFilterQuery(req.query, fields, { reserved: ['page'] });
+ */
+
+export const filterOperatorEnum = [
+    'eq',
+    'ne',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'between',
+    'in',
+    'nin',
+    'any',
+    'all',
+    'none',
+    'contains',
+    'exists',
+] as const;
+
+type FilterOperator = (typeof filterOperatorEnum)[number];
+
+type FilterValueType = 'string' | 'number' | 'date' | 'boolean' | 'stringArray';
+
+/**
+ * A filterable field
+ */
+interface IFilterField {
+    type: FilterValueType;
+    enum?: readonly string[];
+    defaultOperator?: FilterOperator;
+}
+
+type FilterFields = Record<string, IFilterField>;
+
+interface IParseFilterOptions {
+    // Query parameters that are not filters (pagination, sorting, ...)
+    reserved?: readonly string[];
+}
+
+const MAX_GROUP_DEPTH = 3;
+const MAX_LIST_VALUES = 50;
+
+const GROUP_KEYS = ['and', 'or'] as const;
+
+// Filter value type of each supported schema type
+const SCHEMA_TYPES: Record<string, FilterValueType> = {
+    String: 'string',
+    Number: 'number',
+    Date: 'date',
+    Boolean: 'boolean',
+};
+
+/**
+ * Operators supported by each value type
+ */
+const operatorsByType: Record<FilterValueType, readonly FilterOperator[]> = {
+    string: ['eq', 'ne', 'in', 'nin', 'contains', 'exists'],
+    number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'nin', 'exists'],
+    date: ['eq', 'gt', 'gte', 'lt', 'lte', 'between', 'exists'],
+    boolean: ['eq', 'ne', 'exists'],
+    stringArray: ['eq', 'any', 'all', 'none', 'contains', 'exists'],
+};
+
+const LIST_OPERATORS: readonly FilterOperator[] = ['in', 'nin', 'any', 'all', 'none', 'between'];
+
+/**
+ * Build filter field definitions from schema paths.
+ * Enum values are taken from the schema so they stay in sync with validation.
+ */
+const deriveFilterFields = (
+    schema: Schema,
+    paths: readonly string[],
+    overrides: Record<string, Partial<IFilterField>> = {}
+): FilterFields => {
+    return paths.reduce<FilterFields>((fields, path) => {
+        const schemaType = schema.path(path) as Schema.Types.Array & {
+            enumValues?: string[];
+            caster?: { instance: string };
+        };
+        if (!schemaType) {
+            throw new Error(`Cannot filter on unknown schema path "${path}"`);
+        }
+
+        const type =
+            schemaType.instance === 'Array' && schemaType.caster?.instance === 'String'
+                ? 'stringArray'
+                : SCHEMA_TYPES[schemaType.instance];
+        if (!type) {
+            throw new Error(
+                `Cannot filter on schema path "${path}" of type ${schemaType.instance}`
+            );
+        }
+
+        const enumValues = schemaType.enumValues?.length ? schemaType.enumValues : undefined;
+        fields[path] = { type, enum: enumValues, ...overrides[path] };
+        return fields;
+    }, {});
+};
+
+/**
+ * Describe the operators of every field, for error messages
+ */
+const describeFields = (fields: FilterFields): string[] => {
+    return Object.entries(fields).map(
+        ([name, field]) => `${name}: ${operatorsByType[field.type].join(', ')}`
+    );
+};
+
+/**
+ * Convert one raw value to the field's type
+ */
+const coerceValue = (name: string, field: IFilterField, raw: string): unknown => {
+    switch (field.type) {
+        case 'number': {
+            const number = Number(raw);
+            if (raw.trim() === '' || !Number.isFinite(number)) {
+                throw ApiError.badRequest(`Invalid filter value for ${name}: expected a number`);
+            }
+            return number;
+        }
+        case 'date': {
+            const date = new Date(raw);
+            if (isNaN(date.getTime())) {
+                throw ApiError.badRequest(`Invalid filter value for ${name}: expected a date`);
+            }
+            return date;
+        }
+        case 'boolean':
+            if (raw !== 'true' && raw !== 'false') {
+                throw ApiError.badRequest(
+                    `Invalid filter value for ${name}: expected true or false`
+                );
+            }
+            return raw === 'true';
+        default:
+            if (field.enum && !field.enum.includes(raw)) {
+                throw ApiError.badRequest(
+                    `Invalid filter value for ${name}. Allowed values are: ${field.enum.join(', ')}`
+                );
+            }
+            return raw;
+    }
+};
+
+/**
+ * Build the MongoDB condition for one `field[op]=value` pair
+ */
+const buildCondition = (
+    name: string,
+    field: IFilterField,
+    operator: string,
+    rawValue: unknown
+): FilterQuery<unknown> => {
+    const allowed = operatorsByType[field.type];
+    if (!allowed.includes(operator as FilterOperator)) {
+        throw ApiError.badRequest(`Unsupported operator "${operator}" for ${name}`, [
+            `${name}: ${allowed.join(', ')}`,
+        ]);
+    }
+
+    const values = (Array.isArray(rawValue) ? rawValue : [rawValue]).flatMap(item => {
+        // Filters sent in JSON bodies may use numbers and booleans
+        const value = typeof item === 'number' || typeof item === 'boolean' ? String(item) : item;
+        if (typeof value !== 'string') {
+            throw ApiError.badRequest(`Invalid filter value for ${name}[${operator}]`);
+        }
+        return LIST_OPERATORS.includes(operator as FilterOperator)
+            ? value.split(',').map(part => part.trim())
+            : [value];
+    });
+
+    if (LIST_OPERATORS.includes(operator as FilterOperator)) {
+        if (values.length === 0 || values.length > MAX_LIST_VALUES) {
+            throw ApiError.badRequest(
+                `${name}[${operator}] takes between 1 and ${MAX_LIST_VALUES} values`
+            );
+        }
+    } else if (values.length !== 1) {
+        throw ApiError.badRequest(`${name}[${operator}] takes a single value`);
+    }
+
+    const [value] = values;
+    const coerceAll = () => values.map(item => coerceValue(name, field, item));
+
+    switch (operator as FilterOperator) {
+        case 'exists':
+            if (value !== 'true' && value !== 'false') {
+                throw ApiError.badRequest(`${name}[exists] must be true or false`);
+            }
+            return value === 'true'
+                ? { [name]: { $exists: true, $ne: null } }
+                : { $or: [{ [name]: { $exists: false } }, { [name]: null }] };
+        case 'contains':
+            if (!value || value.length > MAX_SEARCH_LENGTH) {
+                throw ApiError.badRequest(
+                    `${name}[contains] must be between 1 and ${MAX_SEARCH_LENGTH} characters`
+                );
+            }
+            return { [name]: { $regex: escapeRegex(value), $options: 'i' } };
+        case 'between': {
+            if (values.length !== 2) {
+                throw ApiError.badRequest(`${name}[between] takes exactly two values: min,max`);
+            }
+            const [min, max] = coerceAll();
+            return { [name]: { $gte: min, $lte: max } };
+        }
+        case 'in':
+        case 'any':
+            return { [name]: { $in: coerceAll() } };
+        case 'nin':
+        case 'none':
+            return { [name]: { $nin: coerceAll() } };
+        case 'all':
+            return { [name]: { $all: coerceAll() } };
+        case 'eq':
+            return { [name]: coerceValue(name, field, value) };
+        default:
+            return { [name]: { [`$${operator}`]: coerceValue(name, field, value) } };
+    }
+};
+
+/**
+ * Parse a group of conditions (the top-level query or one `and`/`or` entry)
+ */
+const parseGroup = (
+    group: Record<string, unknown>,
+    fields: FilterFields,
+    reserved: readonly string[],
+    depth: number
+): FilterQuery<unknown>[] => {
+    const conditions: FilterQuery<unknown>[] = [];
+
+    Object.entries(group).forEach(([key, value]) => {
+        if (reserved.includes(key)) return;
+
+        if ((GROUP_KEYS as readonly string[]).includes(key)) {
+            if (depth >= MAX_GROUP_DEPTH) {
+                throw ApiError.badRequest(
+                    `Filter groups cannot be nested more than ${MAX_GROUP_DEPTH} levels deep`
+                );
+            }
+            if (!value || typeof value !== 'object') {
+                throw ApiError.badRequest(`Invalid ${key} group. Use ${key}[0][field]=value`);
+            }
+
+            const groups = (Array.isArray(value) ? value : Object.values(value)).map(entry => {
+                if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+                    throw ApiError.badRequest(`Invalid ${key} group. Use ${key}[0][field]=value`);
+                }
+                const groupConditions = parseGroup(entry, fields, [], depth + 1);
+                return groupConditions.length === 1
+                    ? groupConditions[0]
+                    : { $and: groupConditions };
+            });
+
+            if (groups.some(groupFilter => '$and' in groupFilter && !groupFilter.$and?.length)) {
+                throw ApiError.badRequest(`Empty ${key} group`);
+            }
+            if (groups.length > 0) conditions.push({ [`$${key}`]: groups });
+            return;
+        }
+
+        const field = fields[key];
+        if (!field) {
+            throw ApiError.badRequest(
+                `Unknown filter field "${key}". Allowed fields and operators:`,
+                describeFields(fields)
+            );
+        }
+
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            Object.entries(value).forEach(([operator, operand]) => {
+                conditions.push(buildCondition(key, field, operator, operand));
+            });
+        } else {
+            conditions.push(buildCondition(key, field, field.defaultOperator ?? 'eq', value));
+        }
+    });
+
+    return conditions;
+};
+
+/**
+ * Build a MongoDB filter from query parameters
+ */
+const parseFilterQuery = (
+    query: Record<string, unknown>,
+    fields: FilterFields,
+    options: IParseFilterOptions = {}
+): FilterQuery<unknown> => {
+    const conditions = parseGroup(query, fields, options.reserved ?? [], 0);
+    return conditions.length > 0 ? { $and: conditions } : {};
+};
+
+export {
+    FilterOperator,
+    FilterValueType,
+    IFilterField,
+    FilterFields,
+    IParseFilterOptions,
+    operatorsByType,
+    deriveFilterFields,
+    describeFields,
+    parseFilterQuery,
+};
@@ -8,6 +8,13 @@
 export { ApiResponse, ApiError } from './apiResponse';
 export { default as asyncHandler } from './asyncHandler';
 export { default as setupSwagger } from './swagger';
+export { paginate, PAGINATION_PARAMS } from './pagination';
+export { deriveFilterFields, parseFilterQuery } from './filterQuery';
+export { escapeRegex, buildSearchRegex, MAX_SEARCH_LENGTH } from './sanitize';
+export { getDocumentETag, assertIfMatch } from './etag';
 
 // Type exports
 export type { AsyncRequestHandler, AsyncMiddleware, AsyncErrorHandler } from './asyncHandler';
+export type { IPage, IPageLinks, IPaginateOptions } from './pagination';
+export type { FilterFields, IFilterField } from './filterQuery';
+export type { IVersionedDocument } from './etag';
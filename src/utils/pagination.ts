@@ -0,0 +1,337 @@
+import { Request } from 'express';
+import { Document, FilterQuery, HydratedDocument, Model, Types } from 'mongoose';
+import { ApiError } from './apiResponse';
+
+/**
+ * Pagination Utilities
+ *
+ * Helpers for list endpoints that return a page of documents with totals and
+ * navigation links. Two modes are supported:
+ *
+ * - Offset mode (`?page=2&pageSize=20`): simple, allows jumping to any page,
+ *   but gets slower the deeper the page because skipped documents are scanned.
+ * - Cursor mode (`?cursor=`): forward-only paging that resumes after the last
+ *   returned document, so deep pages cost the same as the first one. The
+ *   cursor is opaque to clients and only valid for the sort it was created with.
+ *
+ * Sorting always ends with `_id`, so documents with equal sort values keep a
+ * stable order across pages.
+ *
+ * @example
+ * const page = await paginate(req, Company, { isActive: true }, {
+ *     sortFields: ['name', 'createdAt'],
+ *     defaultSort: '-createdAt',
+ * });
+ * res.status(200).json(new ApiResponse(200, 'Companies fetched successfully', page));
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Query parameters used by `paginate`, to be skipped by filter parsers
+export const PAGINATION_PARAMS = ['page', 'pageSize', 'limit', 'sort', 'cursor'] as const;
+
+type SortDirection = 1 | -1;
+
+/**
+ * Parsed sort order
+ */
+interface ISortSpec {
+    field: string;
+    direction: SortDirection;
+}
+
+/**
+ * Navigation links of a page
+ */
+interface IPageLinks {
+    self: string;
+    next: string | null;
+    prev: string | null;
+}
+
+/**
+ * A page of results
+ */
+interface IPage<T> {
+    items: T[];
+    total: number;
+    page: number | null;
+    pageSize: number;
+    totalPages: number;
+    sort: string;
+    links: IPageLinks;
+    nextCursor?: string | null;
+}
+
+/**
+ * Options of `paginate`
+ */
+interface IPaginateOptions {
+    sortFields: readonly string[];
+    defaultSort: string;
+    select?: string;
+}
+
+/**
+ * Decoded cursor contents
+ */
+interface ICursor {
+    value: unknown;
+    id: Types.ObjectId;
+}
+
+/**
+ * Read a positive integer query parameter, failing with 400 on bad input
+ */
+const parsePositiveInt = (value: unknown, name: string): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw ApiError.badRequest(`${name} must be a positive integer`);
+    }
+    return number;
+};
+
+/**
+ * Read the page number (`page`, 1-based)
+ */
+const parsePage = (query: Request['query']): number => {
+    return parsePositiveInt(query.page, 'page') ?? 1;
+};
+
+/**
+ * Read the page size (`pageSize`, or the older `limit`), capped at `MAX_PAGE_SIZE`
+ */
+const parsePageSize = (query: Request['query']): number => {
+    const pageSize =
+        parsePositiveInt(query.pageSize, 'pageSize') ?? parsePositiveInt(query.limit, 'limit');
+    return Math.min(pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+};
+
+/**
+ * Parse a sort parameter such as `name` or `-createdAt` against a list of allowed fields
+ */
+const parseSort = (
+    value: unknown,
+    allowedFields: readonly string[],
+    defaultSort: string
+): ISortSpec => {
+    const sort = typeof value === 'string' && value.trim() ? value.trim() : defaultSort;
+    const direction: SortDirection = sort.startsWith('-') ? -1 : 1;
+    const field = sort.replace(/^[-+]/, '');
+
+    if (!allowedFields.includes(field)) {
+        throw ApiError.badRequest(
+            `Invalid sort field. Allowed values are: ${allowedFields.join(', ')} (prefix with - for descending)`
+        );
+    }
+
+    return { field, direction };
+};
+
+/**
+ * Format a sort order back into its query parameter form
+ */
+const formatSort = (sort: ISortSpec): string => {
+    return `${sort.direction === -1 ? '-' : ''}${sort.field}`;
+};
+
+/**
+ * Build the MongoDB sort, with `_id` as the tie-breaker
+ */
+const toMongoSort = (sort: ISortSpec): Record<string, SortDirection> => {
+    return sort.field === '_id'
+        ? { _id: sort.direction }
+        : { [sort.field]: sort.direction, _id: sort.direction };
+};
+
+/**
+ * Encode the position after a document into an opaque cursor
+ */
+const encodeCursor = (document: Document, sort: ISortSpec): string => {
+    const value = document.get(sort.field) ?? null;
+    const payload = {
+        s: formatSort(sort),
+        v: value instanceof Date ? value.toISOString() : value,
+        d: value instanceof Date,
+        id: String(document._id),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Decode a cursor created by `encodeCursor` for the same sort order
+ */
+const decodeCursor = (cursor: string, sort: ISortSpec): ICursor => {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (payload.s !== formatSort(sort) || !Types.ObjectId.isValid(payload.id)) {
+            throw new Error('Cursor does not match the requested sort');
+        }
+        return {
+            value: payload.d ? new Date(payload.v) : payload.v,
+            id: new Types.ObjectId(payload.id),
+        };
+    } catch {
+        throw ApiError.badRequest(
+            'Invalid cursor. Cursors are only valid with the sort they were returned for.'
+        );
+    }
+};
+
+/**
+ * Build the filter that selects documents after a cursor position.
+ * Missing and null values sort before every other value in MongoDB, so they
+ * come first in ascending order and last in descending order.
+ */
+const buildCursorFilter = <T>(cursor: ICursor, sort: ISortSpec): FilterQuery<T> => {
+    const { field, direction } = sort;
+    const idAfter = { _id: direction === 1 ? { $gt: cursor.id } : { $lt: cursor.id } };
+
+    if (field === '_id') return idAfter as FilterQuery<T>;
+
+    if (cursor.value === null) {
+        return (
+            direction === 1
+                ? { $or: [{ [field]: null, ...idAfter }, { [field]: { $ne: null } }] }
+                : { [field]: null, ...idAfter }
+        ) as FilterQuery<T>;
+    }
+
+    const conditions: Record<string, unknown>[] = [
+        { [field]: direction === 1 ? { $gt: cursor.value } : { $lt: cursor.value } },
+        { [field]: cursor.value, ...idAfter },
+    ];
+    if (direction === -1) conditions.push({ [field]: null });
+
+    return { $or: conditions } as FilterQuery<T>;
+};
+
+/**
+ * Build a link to the current endpoint with some query parameters replaced.
+ * Parameters set to `null` are removed.
+ */
+const buildPageLink = (req: Request, overrides: Record<string, string | number | null>): string => {
+    const params = new URLSearchParams();
+
+    Object.entries(req.query).forEach(([key, value]) => {
+        if (key in overrides) return;
+        // Values may have been converted to numbers or booleans by request validation
+        (Array.isArray(value) ? value : [value]).forEach((item: unknown) => {
+            if (['string', 'number', 'boolean'].includes(typeof item)) {
+                params.append(key, String(item));
+            }
+        });
+    });
+    Object.entries(overrides).forEach(([key, value]) => {
+        if (value !== null) params.set(key, String(value));
+    });
+
+    const query = params.toString();
+    return `${req.baseUrl}${req.path === '/' ? '' : req.path}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Fetch one page of documents in offset or cursor mode, depending on whether
+ * the request has a `cursor` parameter (an empty cursor starts at the beginning)
+ */
+const paginate = async <TDoc>(
+    req: Request,
+    model: Model<TDoc>,
+    filter: FilterQuery<TDoc>,
+    options: IPaginateOptions
+): Promise<IPage<HydratedDocument<TDoc>>> => {
+    const sort = parseSort(req.query.sort, options.sortFields, options.defaultSort);
+    const pageSize = parsePageSize(req.query);
+    const mongoSort = toMongoSort(sort);
+    const sortParam = formatSort(sort);
+
+    if (req.query.cursor !== undefined) {
+        const cursor = String(req.query.cursor);
+        const pageFilter = cursor
+            ? { $and: [filter, buildCursorFilter<TDoc>(decodeCursor(cursor, sort), sort)] }
+            : filter;
+
+        const [documents, total] = await Promise.all([
+            model
+                .find(pageFilter as FilterQuery<TDoc>, options.select)
+                .sort(mongoSort)
+                .limit(pageSize + 1),
+            model.countDocuments(filter),
+        ]);
+
+        const items = documents.slice(0, pageSize);
+        const nextCursor =
+            documents.length > pageSize ? encodeCursor(items[items.length - 1], sort) : null;
+
+        return {
+            items,
+            total,
+            page: null,
+            pageSize,
+            totalPages: Math.ceil(total / pageSize),
+            sort: sortParam,
+            links: {
+                self: buildPageLink(req, { page: null, limit: null, sort: sortParam, pageSize }),
+                next: nextCursor
+                    ? buildPageLink(req, {
+                          page: null,
+                          limit: null,
+                          sort: sortParam,
+                          pageSize,
+                          cursor: nextCursor,
+                      })
+                    : null,
+                prev: null,
+            },
+            nextCursor,
+        };
+    }
+
+    const page = parsePage(req.query);
+    const [items, total] = await Promise.all([
+        model
+            .find(filter, options.select)
+            .sort(mongoSort)
+            .skip((page - 1) * pageSize)
+            .limit(pageSize),
+        model.countDocuments(filter),
+    ]);
+    const totalPages = Math.ceil(total / pageSize);
+    const linkTo = (target: number) =>
+        buildPageLink(req, { limit: null, sort: sortParam, page: target, pageSize });
+
+    return {
+        items,
+        total,
+        page,
+        pageSize,
+        totalPages,
+        sort: sortParam,
+        links: {
+            self: linkTo(page),
+            next: page < totalPages ? linkTo(page + 1) : null,
+            prev: page > 1 ? linkTo(Math.min(page - 1, Math.max(totalPages, 1))) : null,
+        },
+    };
+};
+
+export {
+    IPaginateOptions,
+    ISortSpec,
+    IPageLinks,
+    IPage,
+    ICursor,
+    SortDirection,
+    parsePage,
+    parsePageSize,
+    parseSort,
+    formatSort,
+    toMongoSort,
+    encodeCursor,
+    decodeCursor,
+    buildCursorFilter,
+    buildPageLink,
+    paginate,
+};
@@ -0,0 +1,98 @@
+import { ApiError } from './apiResponse';
+import { MAX_SEARCH_LENGTH, buildSearchRegex, escapeRegex, findOperatorKeys } from './sanitize';
+
+// Classic catastrophic backtracking pattern: exponential on "aaaa…!" when run as a regex
+const REDOS_PATTERN = '(a+)+$';
+const REDOS_SUBJECT = `${'a'.repeat(40)}!`;
+
+const expectBadRequest = (fn: () => unknown, message: string | RegExp): void => {
+    try {
+        fn();
+    } catch (error) {
+        expect(error).toBeInstanceOf(ApiError);
+        expect((error as ApiError).statusCode).toBe(400);
+        expect((error as ApiError).message).toMatch(message);
+        return;
+    }
+    throw new Error('Expected a 400 ApiError');
+};
+
+describe('escapeRegex', () => {
+    it('escapes every regex metacharacter', () => {
+        const special = '.*+?^${}()|[]\\';
+        const regex = new RegExp(`^${escapeRegex(special)}$`);
+
+        expect(regex.test(special)).toBe(true);
+        expect(regex.test('x')).toBe(false);
+    });
+
+    it('turns a catastrophic pattern into a literal match', () => {
+        const regex = new RegExp(escapeRegex(REDOS_PATTERN));
+
+        const start = Date.now();
+        expect(regex.test(REDOS_SUBJECT)).toBe(false);
+        expect(Date.now() - start).toBeLessThan(100);
+        expect(regex.test(`name ${REDOS_PATTERN}`)).toBe(true);
+    });
+});
+
+describe('buildSearchRegex', () => {
+    it('matches the search text literally and case-insensitively', () => {
+        const regex = buildSearchRegex(`  ${REDOS_PATTERN}  `);
+
+        expect(regex.flags).toBe('i');
+        expect(regex.test(REDOS_SUBJECT)).toBe(false);
+        expect(regex.test('(A+)+$')).toBe(true);
+    });
+
+    it('rejects search text longer than MAX_SEARCH_LENGTH', () => {
+        expect(() => buildSearchRegex('a'.repeat(MAX_SEARCH_LENGTH))).not.toThrow();
+        expectBadRequest(
+            () => buildSearchRegex('a'.repeat(MAX_SEARCH_LENGTH + 1), 'q'),
+            `q cannot exceed ${MAX_SEARCH_LENGTH} characters`
+        );
+    });
+
+    it('rejects empty and non-string search input', () => {
+        expectBadRequest(() => buildSearchRegex('   '), 'Search query is required');
+        expectBadRequest(() => buildSearchRegex({ $ne: '' }), 'Search query is required');
+        expectBadRequest(() => buildSearchRegex(['a', 'b']), 'Search query is required');
+    });
+});
+
+describe('findOperatorKeys', () => {
+    it('finds operator keys produced by query strings such as name[$ne]=', () => {
+        expect(findOperatorKeys({ name: { $ne: '' } })).toEqual(['name.$ne']);
+    });
+
+    it('finds top-level $where keys', () => {
+        expect(findOperatorKeys({ $where: 'sleep(1000)', name: 'Acme' })).toEqual(['$where']);
+    });
+
+    it('finds operator keys nested in objects and arrays', () => {
+        const body = {
+            owner: { profile: { email: { $gt: '' } } },
+            filters: [{ employees: { $where: 'this.employees > 0' } }],
+        };
+
+        expect(findOperatorKeys(body)).toEqual([
+            'owner.profile.email.$gt',
+            'filters.0.employees.$where',
+        ]);
+    });
+
+    it('reports objects nested too deeply to inspect', () => {
+        let value: Record<string, unknown> = { $ne: '' };
+        for (let depth = 0; depth < 20; depth++) value = { nested: value };
+
+        expect(findOperatorKeys(value)).toHaveLength(1);
+    });
+
+    it('accepts input without operator keys', () => {
+        expect(findOperatorKeys({ name: 'Acme $ Co', location: ['Paris'], price: '$5' })).toEqual(
+            []
+        );
+        expect(findOperatorKeys(undefined)).toEqual([]);
+        expect(findOperatorKeys('$where')).toEqual([]);
+    });
+});
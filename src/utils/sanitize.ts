@@ -0,0 +1,57 @@
+import { ApiError } from './apiResponse';
+
+/**
+ * Input Sanitizing Utilities
+ *
+ * User input must never reach MongoDB as query operators or as raw regular
+ * expressions:
+ * - Keys starting with `$` (e.g. `?name[$ne]=` or `{ "email": { "$gt": "" } }`)
+ *   would be interpreted as operators. `findOperatorKeys` finds them so the
+ *   sanitize middleware can reject the request.
+ * - Search text used in a regex is escaped and length-capped with
+ *   `buildSearchRegex`, so it only ever matches literally and cannot be used
+ *   for catastrophic backtracking (ReDoS).
+ */
+
+// Longest search text accepted for regex and text searches
+export const MAX_SEARCH_LENGTH = 100;
+
+// Nesting deeper than this is not inspected further and is rejected as well
+const MAX_INSPECT_DEPTH = 10;
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Validate search text and return a case-insensitive regex matching it literally
+ */
+const buildSearchRegex = (value: unknown, name = 'Search query'): RegExp => {
+    const text = typeof value === 'string' ? value.trim() : '';
+
+    if (!text) {
+        throw ApiError.badRequest(`${name} is required`);
+    }
+    if (text.length > MAX_SEARCH_LENGTH) {
+        throw ApiError.badRequest(`${name} cannot exceed ${MAX_SEARCH_LENGTH} characters`);
+    }
+
+    return new RegExp(escapeRegex(text), 'i');
+};
+
+/**
+ * List the paths of all keys starting with `$` in a parsed body or query
+ * (e.g. `name.$ne`). Objects nested too deeply to inspect are reported too.
+ */
+const findOperatorKeys = (value: unknown, path = '', depth = 0): string[] => {
+    if (!value || typeof value !== 'object') return [];
+    if (depth >= MAX_INSPECT_DEPTH) return [path];
+
+    return Object.entries(value).flatMap(([key, child]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        return key.startsWith('$') ? [childPath] : findOperatorKeys(child, childPath, depth + 1);
+    });
+};
+
+export { escapeRegex, buildSearchRegex, findOperatorKeys };
@@ -0,0 +1,271 @@
+import { Types } from 'mongoose';
+
+/**
+ * Request Schema Utilities
+ *
+ * Request bodies, path parameters and query strings are described with a
+ * subset of JSON Schema that is also valid OpenAPI 3.0, so the schemas
+ * checked by `validateRequest` are the ones shown in the API documentation.
+ *
+ * Supported keywords: `type`, `nullable`, `enum`, `format` (`email`, `uri`,
+ * `date-time` and `objectid`), `minLength`, `maxLength`, `pattern`,
+ * `minimum`, `maximum`, `items`, `minItems`, `maxItems`, `properties`,
+ * `required`, `additionalProperties` (true, false or the schema of the other
+ * properties) and `default`.
+ *
+ * - Strings are measured without surrounding whitespace, as the models trim
+ *   them, so `minLength: 1` also refuses blank strings.
+ * - With `coerce`, strings are converted to the type of their schema
+ *   (`"2"` to 2, `"true"` to true, `"a,b"` to `["a", "b"]`), for query and
+ *   path values, which always arrive as strings.
+ * - Missing properties with a `default` get it.
+ *
+ * Errors name the path of the value, e.g. `body.location[0] must not be empty`.
+ */
+
+type SchemaType = 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+
+type SchemaFormat = 'email' | 'uri' | 'date-time' | 'objectid';
+
+/**
+ * A schema of a value
+ */
+interface ISchema {
+    type: SchemaType;
+    description?: string;
+    nullable?: boolean;
+    enum?: readonly (string | number | boolean)[];
+    format?: SchemaFormat;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    items?: ISchema;
+    minItems?: number;
+    maxItems?: number;
+    properties?: Record<string, ISchema>;
+    required?: readonly string[];
+    additionalProperties?: boolean | ISchema;
+    default?: unknown;
+    example?: unknown;
+}
+
+/**
+ * Result of a validation: the value (coerced, with defaults) and the problems found
+ */
+interface ISchemaResult<T = unknown> {
+    value: T;
+    errors: string[];
+}
+
+interface ISchemaOptions {
+    coerce?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI_PATTERN = /^https?:\/\/\S+\.\S+$/;
+
+const FORMAT_CHECKS: Record<SchemaFormat, [(value: string) => boolean, string]> = {
+    email: [value => EMAIL_PATTERN.test(value), 'must be a valid email address'],
+    uri: [value => URI_PATTERN.test(value), 'must be a valid http(s) URL'],
+    'date-time': [value => !Number.isNaN(Date.parse(value)), 'must be a valid date'],
+    objectid: [value => Types.ObjectId.isValid(value) && value.length === 24, 'must be a valid ID'],
+};
+
+/**
+ * Convert a string to the type of its schema. Other values are returned as they are.
+ */
+const coerceValue = (schema: ISchema, value: unknown): unknown => {
+    if (typeof value !== 'string') return value;
+    const text = value.trim();
+
+    switch (schema.type) {
+        case 'integer':
+        case 'number':
+            return text !== '' && Number.isFinite(Number(text)) ? Number(text) : value;
+        case 'boolean':
+            return text === 'true' ? true : text === 'false' ? false : value;
+        case 'array':
+            return text === '' ? [] : text.split(',').map(item => item.trim());
+        default:
+            return value;
+    }
+};
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const checkString = (schema: ISchema, value: string, path: string, errors: string[]): void => {
+    const length = value.trim().length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+        errors.push(
+            schema.minLength === 1
+                ? `${path} must not be empty`
+                : `${path} must be at least ${plural(schema.minLength, 'character')}`
+        );
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+        errors.push(`${path} must be at most ${plural(schema.maxLength, 'character')}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${path} has an invalid format`);
+    }
+    if (schema.format && length > 0) {
+        const [isValid, message] = FORMAT_CHECKS[schema.format];
+        if (!isValid(value.trim())) errors.push(`${path} ${message}`);
+    }
+};
+
+const checkNumber = (schema: ISchema, value: number, path: string, errors: string[]): void => {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+};
+
+const checkArray = (
+    schema: ISchema,
+    value: unknown[],
+    path: string,
+    options: ISchemaOptions,
+    errors: string[]
+): unknown[] => {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${plural(schema.minItems, 'item')}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must contain at most ${plural(schema.maxItems, 'item')}`);
+    }
+
+    const { items } = schema;
+    if (!items) return value;
+    return value.map((item, index) =>
+        checkValue(items, item, `${path}[${index}]`, options, errors)
+    );
+};
+
+const checkObject = (
+    schema: ISchema,
+    value: Record<string, unknown>,
+    path: string,
+    options: ISchemaOptions,
+    errors: string[]
+): Record<string, unknown> => {
+    const result: Record<string, unknown> = { ...value };
+    const properties = schema.properties ?? {};
+    const childPath = (key: string) => (path ? `${path}.${key}` : key);
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+        if (result[key] === undefined && propertySchema.default !== undefined) {
+            result[key] = propertySchema.default;
+        }
+        if (result[key] === undefined) {
+            if (schema.required?.includes(key)) errors.push(`${childPath(key)} is required`);
+            continue;
+        }
+        result[key] = checkValue(propertySchema, result[key], childPath(key), options, errors);
+    }
+
+    const { additionalProperties } = schema;
+    Object.keys(result)
+        .filter(key => !(key in properties))
+        .forEach(key => {
+            if (additionalProperties === false) {
+                errors.push(`${childPath(key)} is not allowed`);
+            } else if (typeof additionalProperties === 'object') {
+                result[key] = checkValue(
+                    additionalProperties,
+                    result[key],
+                    childPath(key),
+                    options,
+                    errors
+                );
+            }
+        });
+
+    return result;
+};
+
+/**
+ * Check a value against its schema, collecting errors, and return the value
+ * with coercions and defaults applied
+ */
+const checkValue = (
+    schema: ISchema,
+    value: unknown,
+    path: string,
+    options: ISchemaOptions,
+    errors: string[]
+): unknown => {
+    const label = path || 'value';
+    if (value === null) {
+        if (!schema.nullable) errors.push(`${label} must not be null`);
+        return value;
+    }
+
+    const current = options.coerce ? coerceValue(schema, value) : value;
+    const errorCount = errors.length;
+    let result = current;
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof current !== 'string') errors.push(`${label} must be a string`);
+            else checkString(schema, current, label, errors);
+            break;
+        case 'integer':
+            if (!Number.isInteger(current)) errors.push(`${label} must be an integer`);
+            else checkNumber(schema, current as number, label, errors);
+            break;
+        case 'number':
+            if (typeof current !== 'number' || !Number.isFinite(current)) {
+                errors.push(`${label} must be a number`);
+            } else checkNumber(schema, current, label, errors);
+            break;
+        case 'boolean':
+            if (typeof current !== 'boolean') errors.push(`${label} must be true or false`);
+            break;
+        case 'array':
+            if (!Array.isArray(current)) errors.push(`${label} must be an array`);
+            else result = checkArray(schema, current, label, options, errors);
+            break;
+        case 'object':
+            if (!current || typeof current !== 'object' || Array.isArray(current)) {
+                errors.push(`${label} must be an object`);
+            } else {
+                result = checkObject(
+                    schema,
+                    current as Record<string, unknown>,
+                    path,
+                    options,
+                    errors
+                );
+            }
+            break;
+    }
+
+    if (errors.length === errorCount && schema.enum && !schema.enum.includes(result as string)) {
+        errors.push(`${label} must be one of: ${schema.enum.join(', ')}`);
+    }
+
+    return result;
+};
+
+/**
+ * Validate a value against a schema. `path` prefixes the paths in errors
+ * (e.g. `body`); leave it empty to name fields alone.
+ */
+const validateSchema = <T = unknown>(
+    schema: ISchema,
+    value: unknown,
+    path = '',
+    options: ISchemaOptions = {}
+): ISchemaResult<T> => {
+    const errors: string[] = [];
+    const result = checkValue(schema, value, path, options, errors);
+    return { value: result as T, errors };
+};
+
+export { ISchema, ISchemaResult, ISchemaOptions, SchemaType, SchemaFormat, validateSchema };
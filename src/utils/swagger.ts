@@ -1,6 +1,9 @@
 import swaggerJSDoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { Express } from 'express';
+import type { IRouteSchema } from '../middleware/validate.middleware';
+import { routeSchemas } from '../schemas';
+import type { ISchema } from './schema';
 
 /**
  * Swagger Configuration
@@ -64,9 +67,51 @@ const swaggerDefinition = {
       - **Security**: Rate limiting, CORS, helmet, and other security middleware
       
       ## Getting Started
-      1. Obtain an API key from the authentication endpoint
+      1. Register or log in via \`/auth/register\` or \`/auth/login\` to obtain an access token
       2. Include the token in the Authorization header: \`Bearer <token>\`
       3. Make requests to the available endpoints
+      4. When the access token expires, exchange the refresh token at \`/auth/refresh\`
+
+      ## Permissions
+      Each protected operation lists the permissions it needs under \`x-permissions\`.
+      Permissions are granted per role:
+      - **admin**: every permission
+      - **manager**: \`company:read\`, \`company:readSensitive\`, \`company:create\`, \`company:update\`, \`stats:read\`, \`user:read\`, \`audit:read\`
+      - **employee**: \`company:read\`, \`stats:read\`
+
+      Calls without a required permission fail with \`403\` and \`"errorCode": "PERMISSION_DENIED"\`.
+
+      ## API Keys
+      Machine clients can send an API key in the \`X-API-Key\` header instead of a bearer token.
+      Key scopes expand to permissions:
+      - **companies:read**: \`company:read\`
+      - **companies:write**: \`company:create\`, \`company:update\`
+      - **stats:read**: \`stats:read\`
+      - **audit:read**: \`audit:read\`
+      - **companies:sensitive**: \`company:readSensitive\`
+
+      Calls outside a key's scopes fail with \`403\` and \`"errorCode": "INSUFFICIENT_SCOPE"\`.
+
+      ## Request IDs
+      Every response carries an \`X-Request-Id\` header. Send your own ID (letters, digits and
+      \`._:-\`, up to 128 characters) to correlate calls; it is stored with audit entries.
+
+      ## Idempotent Retries
+      Send an \`Idempotency-Key\` header (e.g. a UUID) with a POST, PUT, PATCH or DELETE to retry
+      it safely. The first response is stored for 24 hours (\`IDEMPOTENCY_KEY_TTL_HOURS\`) and
+      replayed, with \`Idempotent-Replayed: true\`, for retries with the same key and body.
+      Reusing a key for another request fails with \`422\` (\`IDEMPOTENCY_KEY_REUSED\`), and a
+      retry while the first request still runs fails with \`409\` (\`IDEMPOTENCY_KEY_IN_USE\`).
+      Server errors, \`401\`, \`403\` and \`429\` responses are not stored.
+
+      The \`/auth\` routes ignore the header: replaying a stored response would hand out
+      tokens that were already issued or rotated. Retry a \`register\` that timed out by
+      logging in instead.
+
+      ## Validation
+      Path parameters, query strings and bodies are checked against the schemas shown for each
+      operation. Invalid requests fail with \`422\` and one entry in \`errors\` per problem,
+      named by its path (e.g. \`params.id must be a valid ID\`).
       
       ## Rate Limiting
       API requests are rate limited to prevent abuse:
@@ -113,6 +158,12 @@ const swaggerDefinition = {
                 bearerFormat: 'JWT',
                 description: 'Enter your JWT token in the format: Bearer <token>',
             },
+            apiKeyAuth: {
+                type: 'apiKey',
+                in: 'header',
+                name: 'X-API-Key',
+                description: 'API key for machine-to-machine clients, issued via /api-keys',
+            },
         },
         schemas: {
             // Standard API Response Schema
@@ -155,10 +206,50 @@ const swaggerDefinition = {
             name: 'Health',
             description: 'Health check and system status endpoints',
         },
+        {
+            name: 'Auth',
+            description: 'Registration, login and token management',
+        },
+        {
+            name: 'Users',
+            description: 'User account operations',
+        },
+        {
+            name: 'API Keys',
+            description: 'Credentials for machine-to-machine clients',
+        },
         {
             name: 'Company',
             description: 'Company data management operations',
         },
+        {
+            name: 'Department',
+            description: 'Departments nested under a company',
+        },
+        {
+            name: 'Employee',
+            description: 'Employee records and company headcount',
+        },
+        {
+            name: 'Project',
+            description: 'Company projects and their members',
+        },
+        {
+            name: 'Audit',
+            description: 'Change history of company data',
+        },
+        {
+            name: 'Analytics',
+            description: 'Aggregated figures about companies',
+        },
+        {
+            name: 'Webhooks',
+            description: 'Company lifecycle events pushed to downstream systems',
+        },
+        {
+            name: 'GraphQL',
+            description: 'Companies and related data through a single GraphQL endpoint',
+        },
     ],
 };
 
@@ -175,10 +266,118 @@ const swaggerOptions: swaggerJSDoc.Options = {
     ],
 };
 
+/**
+ * Parts of the generated specification that route schemas are added to
+ */
+interface IOpenApiParameter {
+    in: string;
+    name: string;
+    required?: boolean;
+    description?: string;
+    schema?: Record<string, unknown>;
+}
+
+interface IOpenApiOperation {
+    parameters?: IOpenApiParameter[];
+    requestBody?: { required?: boolean; content?: Record<string, Record<string, unknown>> };
+    responses?: Record<string, unknown>;
+}
+
+const OPERATION_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+/**
+ * Turn the properties of a params or query schema into operation parameters
+ */
+const toParameters = (schema: ISchema | undefined, location: 'path' | 'query') => {
+    return Object.entries(schema?.properties ?? {}).map(
+        ([name, { description, ...propertySchema }]): IOpenApiParameter => ({
+            in: location,
+            name,
+            required: location === 'path' || Boolean(schema?.required?.includes(name)),
+            description,
+            schema: propertySchema,
+        })
+    );
+};
+
+/**
+ * Add the schemas of a route to one of its operations. Parameters already
+ * documented keep their description and get the rules of the route schema.
+ */
+const applyRouteSchema = (operation: IOpenApiOperation, route: IRouteSchema): void => {
+    const parameters = [...(operation.parameters ?? [])];
+
+    [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')].forEach(
+        parameter => {
+            const index = parameters.findIndex(
+                current => current.in === parameter.in && current.name === parameter.name
+            );
+            if (index === -1) {
+                parameters.push(parameter);
+                return;
+            }
+            const current = parameters[index];
+            parameters[index] = {
+                ...current,
+                required: current.required || parameter.required,
+                description: current.description ?? parameter.description,
+                schema: { ...current.schema, ...parameter.schema },
+            };
+        }
+    );
+    operation.parameters = parameters;
+
+    if (route.body) {
+        const requestBody = operation.requestBody ?? { required: true };
+        requestBody.content = {
+            ...requestBody.content,
+            'application/json': {
+                ...requestBody.content?.['application/json'],
+                schema: route.body,
+            },
+        };
+        operation.requestBody = requestBody;
+    }
+
+    operation.responses = {
+        '422': {
+            description: 'Invalid path parameters, query or body; `errors` lists each problem.',
+        },
+        ...operation.responses,
+    };
+};
+
+/**
+ * Add the schemas checked by `validateRequest` to the documented operations
+ * of their routes, so the documentation matches the validation
+ */
+const applyRouteSchemas = <T extends object>(spec: T, routes: IRouteSchema[]): T => {
+    const paths = (spec as { paths?: Record<string, Record<string, IOpenApiOperation>> }).paths;
+
+    Object.entries(paths ?? {}).forEach(([path, item]) => {
+        routes.forEach(route => {
+            const matches =
+                route.method === 'use'
+                    ? path === route.path || path.startsWith(`${route.path}/`)
+                    : path === route.path;
+            if (!matches) return;
+
+            OPERATION_METHODS.forEach(method => {
+                const operation = item[method];
+                if (operation && (route.method === 'use' || route.method === method)) {
+                    applyRouteSchema(operation, route);
+                }
+            });
+        });
+    });
+
+    return spec;
+};
+
 /**
  * Generate Swagger specification
  */
-const swaggerSpec = swaggerJSDoc(swaggerOptions);
+const swaggerSpec = applyRouteSchemas(swaggerJSDoc(swaggerOptions), routeSchemas);
 
 /**
  * Swagger UI options for customization
@@ -250,6 +449,7 @@ const validateSwaggerSpec = (): boolean => {
 
 export {
     setupSwagger,
+    applyRouteSchemas,
     getSwaggerSpec,
     validateSwaggerSpec,
     swaggerSpec,
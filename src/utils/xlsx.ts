@@ -0,0 +1,289 @@
+import { once } from 'events';
+import zlib from 'zlib';
+
+/**
+ * XLSX Utilities
+ *
+ * A streaming writer for single-sheet XLSX workbooks. An XLSX file is a ZIP
+ * archive of XML parts; the worksheet part is deflated and written while the
+ * rows arrive, so memory use does not grow with the number of rows.
+ *
+ * Strings are written inline (no shared string table), numbers and booleans
+ * keep their cell types, and dates are written as ISO 8601 text. Archives are
+ * limited to 4 GiB, as ZIP64 is not supported.
+ */
+
+// Uncompressed worksheet XML buffered before it is deflated
+const CHUNK_SIZE = 64 * 1024;
+
+// ZIP flags: sizes follow the data in a data descriptor (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const ZIP_DEFLATE = 8;
+const ZIP_MAX_OFFSET = 0xffffffff;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * Escape text for XML, dropping control characters XML cannot represent
+ */
+const escapeXml = (text: string): string =>
+    text
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+        .replace(
+            /[&<>"]/g,
+            char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!
+        );
+
+/**
+ * Fixed parts of the workbook, written before the worksheet
+ */
+const buildStaticParts = (sheetName: string): [string, string][] => [
+    [
+        '[Content_Types].xml',
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+            '</Types>',
+    ],
+    [
+        '_rels/.rels',
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" Target="xl/workbook.xml"/>` +
+            '</Relationships>',
+    ],
+    [
+        'xl/workbook.xml',
+        `${XML_HEADER}<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_TYPE}">` +
+            `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+            '</workbook>',
+    ],
+    [
+        'xl/_rels/workbook.xml.rels',
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/worksheet" Target="worksheets/sheet1.xml"/>` +
+            `<Relationship Id="rId2" Type="${RELATIONSHIP_TYPE}/styles" Target="styles.xml"/>` +
+            '</Relationships>',
+    ],
+    [
+        'xl/styles.xml',
+        `${XML_HEADER}<styleSheet xmlns="${MAIN_NAMESPACE}">` +
+            '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+            '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+            '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+            '<fill><patternFill patternType="gray125"/></fill></fills>' +
+            '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+            '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+            '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+            '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+            '</styleSheet>',
+    ],
+];
+
+/**
+ * Column letters of a zero-based column index (0 → A, 26 → AA)
+ */
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+/**
+ * Format one cell. Empty values produce no cell.
+ */
+const formatCell = (value: unknown, ref: string, style = 0): string => {
+    if (value === null || value === undefined || value === '') return '';
+
+    const styleAttribute = style ? ` s="${style}"` : '';
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${ref}"${styleAttribute}><v>${value}</v></c>`;
+    }
+    if (typeof value === 'boolean') {
+        return `<c r="${ref}" t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return `<c r="${ref}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+/**
+ * Format a worksheet row (row numbers start at 1)
+ */
+const formatRow = (values: readonly unknown[], rowNumber: number, style = 0): string => {
+    const cells = values.map((value, index) =>
+        formatCell(value, `${columnName(index)}${rowNumber}`, style)
+    );
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+};
+
+/**
+ * Worksheet XML: the header row in bold, frozen above the data rows
+ */
+async function* generateSheet(
+    header: readonly string[],
+    rows: AsyncIterable<readonly unknown[]>
+): AsyncGenerator<string> {
+    yield `${XML_HEADER}<worksheet xmlns="${MAIN_NAMESPACE}">` +
+        '<sheetViews><sheetView workbookViewId="0">' +
+        '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+        '</sheetView></sheetViews>' +
+        `<sheetData>${formatRow(header, 1, 1)}`;
+
+    let rowNumber = 1;
+    for await (const row of rows) {
+        rowNumber += 1;
+        yield formatRow(row, rowNumber);
+    }
+
+    yield '</sheetData></worksheet>';
+}
+
+/**
+ * Date and time of an entry in MS-DOS format
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface IZipEntry {
+    name: Buffer;
+    offset: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+}
+
+/**
+ * Write a ZIP archive whose entries are deflated as their content arrives.
+ * Sizes and checksums are written after each entry's data.
+ */
+async function* generateZip(
+    entries: AsyncIterable<[string, AsyncIterable<string> | string]>
+): AsyncGenerator<Buffer> {
+    const { time, date } = toDosDateTime(new Date());
+    const written: IZipEntry[] = [];
+    let offset = 0;
+
+    const emit = (buffer: Buffer): Buffer => {
+        offset += buffer.length;
+        if (offset > ZIP_MAX_OFFSET) {
+            throw new Error('XLSX export exceeds the 4 GiB archive limit');
+        }
+        return buffer;
+    };
+
+    for await (const [fileName, content] of entries) {
+        const entry: IZipEntry = {
+            name: Buffer.from(fileName, 'utf8'),
+            offset,
+            crc: 0,
+            compressedSize: 0,
+            size: 0,
+        };
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(ZIP_VERSION, 4);
+        header.writeUInt16LE(ZIP_FLAGS, 6);
+        header.writeUInt16LE(ZIP_DEFLATE, 8);
+        header.writeUInt16LE(time, 10);
+        header.writeUInt16LE(date, 12);
+        header.writeUInt16LE(entry.name.length, 26);
+        yield emit(Buffer.concat([header, entry.name]));
+
+        const deflate = zlib.createDeflateRaw();
+        const output: Buffer[] = [];
+        deflate.on('data', (chunk: Buffer) => output.push(chunk));
+
+        const drain = (): Buffer => {
+            const buffer = Buffer.concat(output.splice(0));
+            entry.compressedSize += buffer.length;
+            return emit(buffer);
+        };
+
+        let pending = '';
+        const flush = async () => {
+            const data = Buffer.from(pending, 'utf8');
+            pending = '';
+            entry.crc = zlib.crc32(data, entry.crc);
+            entry.size += data.length;
+            deflate.write(data);
+            await new Promise<void>(resolve => deflate.flush(() => resolve()));
+        };
+
+        for await (const text of typeof content === 'string' ? [content] : content) {
+            pending += text;
+            if (pending.length >= CHUNK_SIZE) {
+                await flush();
+                yield drain();
+            }
+        }
+        await flush();
+        deflate.end();
+        await once(deflate, 'end');
+        yield drain();
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        yield emit(descriptor);
+
+        written.push(entry);
+    }
+
+    const directoryOffset = offset;
+    for (const entry of written) {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        header.writeUInt16LE(ZIP_VERSION, 4);
+        header.writeUInt16LE(ZIP_VERSION, 6);
+        header.writeUInt16LE(ZIP_FLAGS, 8);
+        header.writeUInt16LE(ZIP_DEFLATE, 10);
+        header.writeUInt16LE(time, 12);
+        header.writeUInt16LE(date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(entry.compressedSize, 20);
+        header.writeUInt32LE(entry.size, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        header.writeUInt32LE(entry.offset, 42);
+        yield emit(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(written.length, 8);
+    end.writeUInt16LE(written.length, 10);
+    end.writeUInt32LE(offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    yield emit(end);
+}
+
+/**
+ * Stream an XLSX workbook with one sheet: a header row followed by the rows.
+ * The result can be piped to a response with `Readable.from()`.
+ */
+const createXlsxStream = (
+    header: readonly string[],
+    rows: AsyncIterable<readonly unknown[]>,
+    sheetName = 'Sheet1'
+): AsyncGenerator<Buffer> => {
+    async function* generateEntries(): AsyncGenerator<[string, AsyncIterable<string> | string]> {
+        yield* buildStaticParts(sheetName);
+        yield ['xl/worksheets/sheet1.xml', generateSheet(header, rows)];
+    }
+
+    return generateZip(generateEntries());
+};
+
+export { createXlsxStream };